@@ -0,0 +1,145 @@
+// Accessibility audits with axe-core, injected from node_modules so no network
+// is needed. Scripts audit with helpers.a11y(); the a11y run option audits at
+// the start and end of every helpers.step. Audits are stored in a11y.json, and
+// a11yFailOn (which implies a11y) fails the run on violations of that impact
+// or worse.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { createRequire } from 'node:module';
+import type { Page } from 'playwright';
+import type { AxeResults, ImpactValue, RunOptions as AxeRunOptions } from 'axe-core';
+
+export const A11Y_FILE = 'a11y.json';
+
+// Least to most severe, as axe-core ranks them
+export const a11yImpacts = ['minor', 'moderate', 'serious', 'critical'] as const;
+
+export type A11yImpact = (typeof a11yImpacts)[number];
+
+export type A11yViolation = {
+  // axe rule id, e.g. color-contrast
+  rule: string;
+  impact: A11yImpact;
+  help: string;
+  helpUrl: string;
+  // Offending elements, at most MAX_NODES
+  nodes: { selector: string; html: string; summary?: string }[];
+  // Elements beyond those listed
+  omittedNodes: number;
+};
+
+export type A11yAudit = {
+  name: string;
+  // helpers.step the audit ran in; absent for helpers.a11y calls outside steps
+  step?: string;
+  url: string;
+  time: number;
+  violations: A11yViolation[];
+};
+
+export type A11ySummary = {
+  audits: number;
+  // Violations (rule + audit) per impact
+  violations: Record<A11yImpact, number>;
+  failOn?: A11yImpact;
+  passed: boolean;
+};
+
+export type A11yOptions = {
+  // Only audit inside elements matching this selector
+  include?: string;
+  // axe rule ids to skip, e.g. known issues tracked elsewhere
+  disableRules?: string[];
+  // Only run rules with these tags, e.g. wcag2a, wcag2aa
+  tags?: string[];
+};
+
+const MAX_NODES = 10;
+const MAX_HTML_CHARS = 300;
+
+let axeSource: string | null = null;
+
+function loadAxeSource(): string {
+  axeSource ??= fs.readFileSync(createRequire(import.meta.url).resolve('axe-core/axe.min.js'), 'utf8');
+  return axeSource;
+}
+
+export function impactRank(impact: A11yImpact): number {
+  return a11yImpacts.indexOf(impact);
+}
+
+// Audit the page as it is now
+export async function auditPage(page: Page, name: string, opts: A11yOptions = {}, step?: string): Promise<A11yAudit> {
+  const injected = await page.evaluate(() => typeof (window as unknown as { axe?: unknown }).axe !== 'undefined');
+  // Evaluated rather than added as a script tag, which a page's CSP could block
+  if (!injected) await page.evaluate(`${loadAxeSource()}\n;undefined`);
+
+  const runOptions: AxeRunOptions = {
+    resultTypes: ['violations'],
+    ...(opts.tags?.length ? { runOnly: { type: 'tag', values: opts.tags } } : {}),
+    ...(opts.disableRules?.length ? { rules: Object.fromEntries(opts.disableRules.map((r) => [r, { enabled: false }])) } : {}),
+  };
+  const results = await page.evaluate(
+    ({ include, options }) => {
+      const axe = (window as unknown as { axe: { run: (context: unknown, options: unknown) => Promise<unknown> } }).axe;
+      return axe.run(include ? { include: [include] } : document, options);
+    },
+    { include: opts.include ?? null, options: runOptions },
+  ) as AxeResults;
+
+  return {
+    name,
+    ...(step !== undefined ? { step } : {}),
+    url: page.url(),
+    time: Date.now(),
+    violations: results.violations.map((v) => ({
+      rule: v.id,
+      impact: toImpact(v.impact),
+      help: v.help,
+      helpUrl: v.helpUrl,
+      nodes: v.nodes.slice(0, MAX_NODES).map((n) => ({
+        // Targets inside shadow roots or iframes are lists of selectors
+        selector: n.target.map((t) => (Array.isArray(t) ? t.join(' >>> ') : String(t))).join(' >>> '),
+        html: n.html.length > MAX_HTML_CHARS ? `${n.html.slice(0, MAX_HTML_CHARS)}…` : n.html,
+        ...(n.failureSummary ? { summary: n.failureSummary } : {}),
+      })),
+      omittedNodes: Math.max(0, v.nodes.length - MAX_NODES),
+    })),
+  };
+}
+
+// Rules without an impact are the least severe
+function toImpact(impact: ImpactValue | undefined): A11yImpact {
+  return impact && (a11yImpacts as readonly string[]).includes(impact) ? impact as A11yImpact : 'minor';
+}
+
+export function summarizeA11y(audits: A11yAudit[], failOn?: A11yImpact): A11ySummary {
+  const violations = Object.fromEntries(a11yImpacts.map((i) => [i, 0])) as Record<A11yImpact, number>;
+  for (const audit of audits) {
+    for (const v of audit.violations) violations[v.impact]++;
+  }
+  const passed = failOn === undefined || a11yImpacts.every((i) => impactRank(i) < impactRank(failOn) || violations[i] === 0);
+  return { audits: audits.length, violations, ...(failOn ? { failOn } : {}), passed };
+}
+
+// "2 critical, 1 serious" (most severe first), or "no violations"
+export function formatA11yCounts(summary: A11ySummary): string {
+  const parts = [...a11yImpacts].reverse().filter((i) => summary.violations[i] > 0).map((i) => `${summary.violations[i]} ${i}`);
+  return parts.length ? parts.join(', ') : 'no violations';
+}
+
+// Violations at or above the threshold, one line each, for the run failure
+export function describeA11yFailures(audits: A11yAudit[], failOn: A11yImpact): string[] {
+  return audits.flatMap((audit) =>
+    audit.violations
+      .filter((v) => impactRank(v.impact) >= impactRank(failOn))
+      .map((v) => `[${v.impact}] ${v.rule} at ${audit.name}: ${v.help} (${v.nodes.map((n) => n.selector).slice(0, 3).join(', ')})`),
+  );
+}
+
+export function readA11yAudits(artifactsDir: string): A11yAudit[] | null {
+  const file = path.join(artifactsDir, A11Y_FILE);
+  if (!fs.existsSync(file)) return null;
+  return (JSON.parse(fs.readFileSync(file, 'utf8')) as { audits: A11yAudit[] }).audits;
+}
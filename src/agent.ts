@@ -4,174 +4,724 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import express, { Request, Response } from 'express';
-import { runTest, type RunResult } from './tools.js';
+import { runTest, harOf, type RunResult, type RunShared } from './tools.js';
+import { scriptRefOf, isInlineScript, type ScriptRef } from './script.js';
+import { enqueueJob, getJob, listJobs, cancelJob, waitForJob, subscribeJob, jobConcurrency, type JobInfo } from './jobs.js';
+import { runSuite, matchScripts, activeSuiteRuns, type SuiteOptions } from './suite.js';
+import { runOptionsSchema, runOptionsJsonSchema, type RunOptions } from './options.js';
+import { listRuns, deleteRun, pruneRuns, retentionFromEnv, flakeRates, type RunFilter } from './runs.js';
+import {
+  ArtifactError,
+  artifactKinds,
+  getArtifact,
+  getArtifactForModel,
+  renderArtifactContent,
+  renderArtifactError,
+  artifactErrorBody,
+  artifactErrorStatus,
+  resolveRunDir,
+  buildArtifactIndex,
+  type ArtifactIndex,
+  type ArtifactContent,
+} from './artifacts.js';
+import { refreshManifestArtifacts, type RunFailure, type RunStatus, type AttemptOutcome } from './manifest.js';
+import { compareScreenshots, renderVisualDiffContent } from './visual.js';
+import { visualMaskSchema, visualThresholdSchema, type VisualMask } from './options.js';
+import { inspectDom, listDomSnapshots } from './dom.js';
+import { setupAuthProfile, listAuthProfiles, deleteAuthProfile } from './auth.js';
+import { generateReport, reportFormats } from './report.js';
+import { queryTrace, renderTraceContent, traceEventKinds } from './trace.js';
+import { openSession, listSessions, navigate, click, fill, evaluate, snapshot, screenshot, closeSession, closeAllSessions } from './sessions.js';
+import { loadApiTokens, isLoopbackHost, requireBearerToken, auditRequests, recordAudit, scriptLabel, assertScriptAllowed, assertPathAllowed, inlineSourceAllowed, TOKEN_ENV } from './security.js';
+import { a11yImpacts, formatA11yCounts } from './a11y.js';
+import { getMetrics, formatRegressions } from './metrics.js';
+import { getConfig, loadAgentDefinition, type AgentDefinition } from './config.js';
+import { runToolLoop, type ModelClient, type ToolLoopResult } from './loop.js';
 import Anthropic from '@anthropic-ai/sdk';
 
-export type ArtifactIndex = {
-  runId: string;
-  artifactsDir: string;
-  screenshots: string[];
-  logs: { console: string | null; network: string | null; actions: string | null };
-  trace: string | null;
-};
+export { buildArtifactIndex, type ArtifactIndex } from './artifacts.js';
 
-function ensureRunDir(runId: string): string {
-  const dir = path.resolve('runs', runId);
-  if (!fs.existsSync(dir)) {
-    throw new Error(`Run not found: ${runId}`);
+// Body of /run-test and POST /runs: scriptPath or source, options, replayFrom.
+// An unknown replayFrom run, or one without a HAR, throws an ArtifactError.
+function parseRunBody(body: unknown): { script: ScriptRef; options: RunOptions | undefined } | { error: string; issues?: unknown } {
+  const { options, replayFrom } = (body ?? {}) as { options?: unknown; replayFrom?: string };
+  let script: ScriptRef;
+  try {
+    script = scriptRefOf((body ?? {}) as Record<string, unknown>);
+  } catch (e) {
+    return { error: (e as Error).message };
   }
-  return dir;
+  const parsed = runOptionsSchema.optional().safeParse(options);
+  if (!parsed.success) return { error: 'invalid options', issues: parsed.error.issues };
+  const runOptions = typeof replayFrom === 'string' ? { ...parsed.data, replayFrom } : parsed.data;
+  if (runOptions?.replayFrom) harOf(runOptions.replayFrom);
+  return { script, options: runOptions };
 }
 
-export function buildArtifactIndex(artifactsDir: string): ArtifactIndex {
-  const files = fs.readdirSync(artifactsDir);
-  const screenshots = files.filter((f) => f.endsWith('.png')).sort();
-  const consoleLog = files.includes('console.log') ? 'console.log' : null;
-  const networkLog = files.includes('network.log') ? 'network.log' : null;
-  const actions = files.includes('actions.json') ? 'actions.json' : null;
-  const trace = files.includes('trace.zip') ? 'trace.zip' : null;
-  const runId = path.basename(artifactsDir);
-  return {
-    runId,
-    artifactsDir,
-    screenshots,
-    logs: { console: consoleLog, network: networkLog, actions },
-    trace,
-  };
+// Queue startAgentWithTest; progress events and cancellation go through the
+// job. Retention runs once the job has finished.
+export function enqueueRun(script: ScriptRef, options?: RunOptions): JobInfo {
+  const label = isInlineScript(script) ? '<inline source>' : script;
+  const job = enqueueJob(label, ({ signal, emit }) => startAgentWithTest(script, options, { signal, onEvent: emit }));
+  waitForJob(job.jobId).then(() => applyRetention()).catch((e) => {
+    // eslint-disable-next-line no-console
+    console.error('[agent] retention failed:', e);
+  });
+  return job;
+}
+
+// Queue runSuite like enqueueRun. A pattern that matches nothing is rejected
+// here, before queueing; the job matches again when it starts.
+export function enqueueSuite(pattern: string, options: Omit<SuiteOptions, 'signal' | 'onEvent'> = {}): JobInfo {
+  matchScripts(pattern);
+  const job = enqueueJob(`suite ${pattern}`, ({ signal, emit }) => runSuite(pattern, { ...options, signal, onEvent: emit }));
+  waitForJob(job.jobId).then(() => applyRetention()).catch((e) => {
+    // eslint-disable-next-line no-console
+    console.error('[agent] retention failed:', e);
+  });
+  return job;
 }
 
-export async function startAgentWithTest(scriptPath: string): Promise<RunResult & { index: ArtifactIndex }>
+// Runs still being written: those of running jobs, live sessions and suites
+function runsInUse(): string[] {
+  return [
+    ...listJobs().filter((j) => j.state === 'running').flatMap((j) => j.runIds),
+    ...listSessions().map((s) => s.sessionId),
+    ...activeSuiteRuns(),
+  ];
+}
+
+// Apply the RUNS_KEEP_LAST / RUNS_MAX_AGE_DAYS policy, but only once no job,
+// session or suite is running; the last one to finish prunes.
+export function applyRetention(): void {
+  const busy = listJobs().some((j) => j.state === 'queued' || j.state === 'running')
+    || listSessions().length > 0
+    || activeSuiteRuns().length > 0;
+  if (busy) return;
+  const pruned = pruneRuns(retentionFromEnv());
+  // stderr: under MCP, stdout carries the JSON-RPC stream
+  if (pruned.length) {
+    // eslint-disable-next-line no-console
+    console.error(`[agent] retention removed ${pruned.length} old run(s)`);
+  }
+}
+
+// Required string field of a JSON body; a missing field is a 400
+function bodyString(body: unknown, key: string): string {
+  const value = (body as Record<string, unknown> | undefined)?.[key];
+  if (typeof value !== 'string') throw new ArtifactError('invalid_argument', `${key} (string) is required`);
+  return value;
+}
+
+function optionalBodyString(body: unknown, key: string): string | undefined {
+  const value = (body as Record<string, unknown> | undefined)?.[key];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+// Structured error response: 404 not_found, 400 invalid_argument, 500 otherwise
+function sendError(res: Response, e: unknown) {
+  res.status(artifactErrorStatus(e)).json({ error: artifactErrorBody(e) });
+}
+
+export async function startAgentWithTest(
+  script: ScriptRef,
+  options: RunOptions = {},
+  shared: RunShared = {},
+): Promise<RunResult & { index: ArtifactIndex; diagnosis?: Diagnosis }>
 {
-  const result = await runTest(scriptPath);
+  const result = await runTest(script, options, shared);
   const index = buildArtifactIndex(result.artifactsDir);
   // Placeholder for Claude Code SDK: here we would post a concise summary
   // to the session so Claude can request only needed artifacts via tool-calls.
-  // For now, we log a structured JSON summary to stdout.
+  // For now, we log a structured JSON summary to stderr (stdout is the MCP
+  // server's JSON-RPC channel).
   const summary = {
     status: result.status,
     runId: result.runId,
     artifactsDir: result.artifactsDir,
     criticalErrors: result.criticalErrors,
+    ...(result.failure ? { failure: result.failure } : {}),
+    ...(result.attempts ? { attempts: result.attempts } : {}),
     index,
   };
   // eslint-disable-next-line no-console
-  console.log(JSON.stringify({ type: 'test_run_summary', payload: summary }, null, 2));
+  console.error(JSON.stringify({ type: 'test_run_summary', payload: summary }, null, 2));
 
   // If Anthropic key present, post to Claude and serve tool calls
+  let diagnosis: Diagnosis | undefined;
   if (process.env.ANTHROPIC_API_KEY) {
     try {
-      await postSummaryToClaudeAndServeToolCalls(summary);
+      diagnosis = await postSummaryToClaudeAndServeToolCalls(summary);
     } catch (e) {
       // eslint-disable-next-line no-console
       console.error('[agent] Claude SDK error:', e);
     }
   }
-  return { ...result, index };
+  return { ...result, index: diagnosis ? buildArtifactIndex(result.artifactsDir) : index, diagnosis };
 }
 
-export function startAgentServer(port = 4317) {
+export function startAgentServer(port = getConfig().port, host = getConfig().host) {
+  // Fail at startup rather than on the first diagnosis
+  agentDefinition();
+  const tokens = loadApiTokens();
+  if (tokens.length === 0 && !isLoopbackHost(host)) {
+    throw new Error(`Refusing to listen on ${host} without ${TOKEN_ENV}; set a token or bind to 127.0.0.1`);
+  }
+  const allowInlineSource = inlineSourceAllowed(host, tokens);
   const app = express();
-  app.use(express.json({ limit: '2mb' }));
 
-  // Healthcheck
+  // Healthcheck, open so probes need no token
   app.get('/health', (_req, res) => res.json({ ok: true }));
 
+  // Everything else is audited and needs a bearer token (when configured).
+  // Bodies are parsed after the token check.
+  app.use(auditRequests(getConfig().auditLog));
+  app.use(requireBearerToken(tokens));
+  app.use(express.json({ limit: '2mb' }));
+
   // Run a test on-demand
   app.post('/run-test', async (req: Request, res: Response) => {
     try {
-      const { scriptPath } = req.body as { scriptPath?: string };
-      if (!scriptPath || typeof scriptPath !== 'string') {
-        return res.status(400).json({ error: 'scriptPath (string) is required' });
+      const parsed = parseRunBody(req.body);
+      if ('error' in parsed) return res.status(400).json(parsed);
+      assertScriptAllowed(parsed.script, allowInlineSource);
+      // Queued like POST /runs, so concurrent callers wait their turn: at most
+      // JOB_CONCURRENCY runs (default 1) execute at once
+      const queued = enqueueRun(parsed.script, parsed.options);
+      recordAudit(res, { script: scriptLabel(parsed.script), jobId: queued.jobId });
+      // A caller that disconnects no longer wants the run; a finished job is left as is
+      res.on('close', () => cancelJob(queued.jobId));
+      const job = await waitForJob(queued.jobId);
+      if (job?.state !== 'succeeded') return res.status(500).json({ error: job?.error ?? 'run did not complete' });
+      recordAudit(res, { runId: (job.result as { runId?: string } | undefined)?.runId });
+      res.json(job.result);
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  // Queue a run and return its job immediately (same body as /run-test)
+  app.post('/runs', (req: Request, res: Response) => {
+    try {
+      const parsed = parseRunBody(req.body);
+      if ('error' in parsed) return res.status(400).json(parsed);
+      assertScriptAllowed(parsed.script, allowInlineSource);
+      const job = enqueueRun(parsed.script, parsed.options);
+      recordAudit(res, { script: scriptLabel(parsed.script), jobId: job.jobId });
+      res.status(202).json(job);
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  app.get('/jobs', (_req: Request, res: Response) => {
+    res.json({ jobs: listJobs() });
+  });
+
+  app.get('/jobs/:jobId', (req: Request, res: Response) => {
+    const job = getJob(req.params.jobId);
+    if (!job) return sendError(res, new ArtifactError('not_found', `job ${req.params.jobId} not found`));
+    res.json(job);
+  });
+
+  // Cancel a queued or running job
+  app.delete('/jobs/:jobId', (req: Request, res: Response) => {
+    const job = cancelJob(req.params.jobId);
+    if (!job) return sendError(res, new ArtifactError('not_found', `job ${req.params.jobId} not found`));
+    res.json(job);
+  });
+
+  // Server-Sent Events: job state changes, step start/end/error, console
+  // errors and screenshots. Past events are replayed first; the stream ends
+  // when the job finishes.
+  app.get('/jobs/:jobId/events', (req: Request, res: Response) => {
+    if (!getJob(req.params.jobId)) return sendError(res, new ArtifactError('not_found', `job ${req.params.jobId} not found`));
+    res.set({ 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+    res.flushHeaders();
+    const unsubscribe = subscribeJob(
+      req.params.jobId,
+      (event) => res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`),
+      () => {
+        res.write(`event: end\ndata: ${JSON.stringify(getJob(req.params.jobId))}\n\n`);
+        res.end();
+      },
+    );
+    req.on('close', () => unsubscribe?.());
+  });
+
+  // Run every script matching a directory or glob. Queued like /run-test;
+  // progress is on /jobs/:jobId/events.
+  app.post('/run-suite', async (req: Request, res: Response) => {
+    try {
+      const { workers, options } = req.body as { workers?: number; options?: unknown };
+      const pattern = bodyString(req.body, 'pattern');
+      if (!pattern) throw new ArtifactError('invalid_argument', 'pattern must not be empty');
+      assertPathAllowed(pattern, 'suite pattern');
+      const parsed = runOptionsSchema.optional().safeParse(options);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'invalid options', issues: parsed.error.issues });
+      }
+      const queued = enqueueSuite(pattern, { workers: typeof workers === 'number' ? workers : undefined, run: parsed.data });
+      recordAudit(res, { script: path.resolve(pattern), jobId: queued.jobId });
+      res.on('close', () => cancelJob(queued.jobId));
+      const job = await waitForJob(queued.jobId);
+      if (job?.state !== 'succeeded') return res.status(500).json({ error: job?.error ?? 'suite did not complete' });
+      res.json(job.result);
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  // Return the aggregate summary of a suite run
+  app.get('/suites/:suiteId', (req: Request, res: Response) => {
+    try {
+      const dir = resolveRunDir(req.params.suiteId);
+      const file = path.join(dir, 'suite.json');
+      if (!fs.existsSync(file)) throw new ArtifactError('not_found', 'suite not found');
+      res.json(JSON.parse(fs.readFileSync(file, 'utf8')));
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  // List past runs, newest first (filters: status, script, from, to, offset, limit)
+  app.get('/runs', (req: Request, res: Response) => {
+    try {
+      const q = req.query;
+      const str = (v: unknown) => (typeof v === 'string' && v ? v : undefined);
+      const num = (v: unknown) => (typeof v === 'string' && Number.isFinite(Number(v)) ? Number(v) : undefined);
+      const status = str(q.status);
+      if (status && status !== 'PASS' && status !== 'FAIL' && status !== 'FLAKY') {
+        return res.status(400).json({ error: 'status must be PASS, FAIL or FLAKY' });
       }
-      const result = await startAgentWithTest(scriptPath);
-      res.json(result);
+      const filter: RunFilter = {
+        status: status as RunFilter['status'],
+        script: str(q.script),
+        from: str(q.from),
+        to: str(q.to),
+        offset: num(q.offset),
+        limit: num(q.limit),
+      };
+      res.json(listRuns(filter));
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  // Per-script flake rates over the run history (filters: script, from, to)
+  app.get('/runs/flake-rates', (req: Request, res: Response) => {
+    try {
+      const q = req.query;
+      const str = (v: unknown) => (typeof v === 'string' && v ? v : undefined);
+      res.json({ scripts: flakeRates({ script: str(q.script), from: str(q.from), to: str(q.to) }) });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  // Apply a retention policy: { keepLast?, maxAgeDays?, keepFailures? }
+  app.post('/runs/prune', (req: Request, res: Response) => {
+    try {
+      const { keepLast, maxAgeDays, keepFailures } = req.body as { keepLast?: number; maxAgeDays?: number; keepFailures?: boolean };
+      const deleted = pruneRuns({ keepLast, maxAgeDays, keepFailures }, runsInUse());
+      res.json({ deleted });
     } catch (e) {
       res.status(500).json({ error: String(e) });
     }
   });
 
+  // Delete a run and all of its artifacts
+  app.delete('/runs/:runId', (req: Request, res: Response) => {
+    try {
+      deleteRun(req.params.runId);
+      res.json({ deleted: req.params.runId });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
   // Return artifact index for a run
   app.get('/runs/:runId/index', (req: Request, res: Response) => {
     try {
-      const dir = ensureRunDir(req.params.runId);
-      res.json(buildArtifactIndex(dir));
+      const out = getArtifact({ runId: req.params.runId, kind: 'index' });
+      if (out.kind === 'index') res.json(out.index);
     } catch (e) {
-      res.status(404).json({ error: String(e) });
+      sendError(res, e);
     }
   });
 
-  // Stream screenshot by name (without extension)
+  // Screenshot by name (without extension). Optional query: maxWidth, maxBytes,
+  // selector, or x/y/width/height for a crop region
   app.get('/runs/:runId/screenshot/:name', (req: Request, res: Response) => {
     try {
-      const dir = ensureRunDir(req.params.runId);
-      const file = path.join(dir, `${req.params.name}.png`);
-      if (!fs.existsSync(file)) return res.status(404).json({ error: 'screenshot not found' });
-      res.type('png');
-      fs.createReadStream(file).pipe(res);
+      const q = req.query;
+      const num = (v: unknown) => (typeof v === 'string' && v !== '' ? Number(v) : undefined);
+      const region = q.width !== undefined || q.height !== undefined
+        ? { x: num(q.x) ?? 0, y: num(q.y) ?? 0, width: num(q.width), height: num(q.height) }
+        : undefined;
+      const out = getArtifact({
+        runId: req.params.runId,
+        kind: 'screenshot',
+        name: req.params.name,
+        region,
+        selector: typeof q.selector === 'string' ? q.selector : undefined,
+        maxWidth: num(q.maxWidth),
+        maxBytes: num(q.maxBytes),
+      });
+      if (out.kind !== 'screenshot') return;
+      res.type('png').send(out.data);
     } catch (e) {
-      res.status(500).json({ error: String(e) });
+      sendError(res, e);
     }
   });
 
-  // Get logs with optional filtering (grep, limit)
+  // Get logs with optional filtering (grep, limit; network also statusMin,
+  // statusMax, method, resourceType, url substring, failed)
   app.get('/runs/:runId/log/:kind', (req: Request, res: Response) => {
     try {
-      const dir = ensureRunDir(req.params.runId);
-      const kind = req.params.kind as 'console' | 'network' | 'actions';
-      let fileName: string;
-      if (kind === 'console') fileName = 'console.log';
-      else if (kind === 'network') fileName = 'network.log';
-      else if (kind === 'actions') fileName = 'actions.json';
-      else return res.status(400).json({ error: 'invalid kind' });
-
-      const file = path.join(dir, fileName);
-      if (!fs.existsSync(file)) return res.status(404).json({ error: 'log not found' });
-
-      const content = fs.readFileSync(file, 'utf8');
-      const grep = typeof req.query.grep === 'string' ? req.query.grep : undefined;
-      const limit = req.query.limit ? Number(req.query.limit) : undefined;
-
-      if (kind === 'actions') {
-        // actions.json is returned as parsed JSON, optional grep filters by JSON.stringify line
-        const parsed = JSON.parse(content);
-        let items = Array.isArray(parsed) ? parsed : parsed?.actions ?? [];
-        if (grep) {
-          const g = grep.toLowerCase();
-          items = items.filter((x: unknown) => JSON.stringify(x).toLowerCase().includes(g));
-        }
-        if (limit && Number.isFinite(limit)) items = items.slice(-limit);
-        return res.json(items);
+      const { kind } = req.params;
+      if (kind !== 'console' && kind !== 'network' && kind !== 'actions') {
+        return sendError(res, new ArtifactError('invalid_argument', `invalid log kind: ${kind}`));
       }
+      const q = req.query;
+      const str = (v: unknown) => (typeof v === 'string' && v ? v : undefined);
+      const num = (v: unknown) => (typeof v === 'string' && v !== '' ? Number(v) : undefined);
+      const out = getArtifact({
+        runId: req.params.runId,
+        kind,
+        grep: str(q.grep),
+        limit: num(q.limit),
+        // network only
+        statusMin: num(q.statusMin),
+        statusMax: num(q.statusMax),
+        method: str(q.method),
+        resourceType: str(q.resourceType),
+        url: str(q.url),
+        failed: q.failed === undefined ? undefined : q.failed === 'true',
+      });
+      // actions.json is returned as parsed JSON, line-based logs as text
+      if (out.kind === 'actions') return res.json(out.items);
+      if (out.kind === 'console' || out.kind === 'network') res.type('text/plain').send(out.lines.join('\n'));
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  // Visual diff of a screenshot against the baseline (or ?against=<runId>).
+  // Returns the diff PNG with X-Mismatch-Percent, or JSON with ?format=json.
+  // Masks: ?mask=x,y,width,height or ?mask=<#id selector>, repeatable.
+  app.get('/runs/:runId/diff/:name', (req: Request, res: Response) => {
+    try {
+      const q = req.query;
+      const rawMasks = q.mask === undefined ? [] : Array.isArray(q.mask) ? q.mask : [q.mask];
+      const masks: VisualMask[] = rawMasks.map((m) => {
+        const str = String(m);
+        const parts = str.split(',').map(Number);
+        if (parts.length === 4 && parts.every(Number.isFinite)) {
+          return { x: parts[0], y: parts[1], width: parts[2], height: parts[3] };
+        }
+        return str;
+      });
+      const parsedMasks = visualMaskSchema.array().safeParse(masks);
+      if (!parsedMasks.success) throw new ArtifactError('invalid_argument', 'invalid mask');
+      const threshold = visualThresholdSchema.optional().safeParse(typeof q.threshold === 'string' && q.threshold ? Number(q.threshold) : undefined);
+      if (!threshold.success) throw new ArtifactError('invalid_argument', 'threshold must be a number from 0 to 100');
+      const result = compareScreenshots({
+        runId: req.params.runId,
+        name: req.params.name,
+        against: typeof q.against === 'string' && q.against ? q.against : undefined,
+        threshold: threshold.data,
+        masks: parsedMasks.data,
+      });
+      if (q.format === 'json' || !result.diff) return res.json(result);
+      res.set('X-Mismatch-Percent', String(result.mismatchPercent));
+      res.set('X-Visual-Passed', String(result.passed));
+      res.type('png');
+      fs.createReadStream(path.join(resolveRunDir(req.params.runId), result.diff)).pipe(res);
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  // DOM snapshots captured at step boundaries
+  app.get('/runs/:runId/dom', (req: Request, res: Response) => {
+    try {
+      res.json({ snapshots: listDomSnapshots(resolveRunDir(req.params.runId)) });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  // Query a DOM snapshot: ?selector=<css>&properties=color,display&limit=N.
+  // Without a selector the accessibility tree is returned.
+  app.get('/runs/:runId/dom/:snapshot', (req: Request, res: Response) => {
+    try {
+      const q = req.query;
+      const str = (v: unknown) => (typeof v === 'string' && v ? v : undefined);
+      res.json(inspectDom({
+        runId: req.params.runId,
+        snapshot: req.params.snapshot,
+        selector: str(q.selector),
+        properties: str(q.properties)?.split(',').map((p) => p.trim()).filter(Boolean),
+        limit: str(q.limit) ? Number(q.limit) : undefined,
+      }));
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  // Run or suite report: ?format=junit|json|markdown|html (default json).
+  // Markdown and HTML embed step screenshots unless ?embed=false.
+  app.get('/runs/:runId/report', (req: Request, res: Response) => {
+    try {
+      const q = req.query;
+      const report = generateReport({
+        runId: req.params.runId,
+        format: typeof q.format === 'string' && q.format ? q.format : 'json',
+        embedScreenshots: q.embed === undefined ? undefined : q.embed !== 'false',
+      });
+      res.type(report.contentType).send(report.body);
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  // Accessibility audits: ?name=<audit>&minImpact=serious&grep=&limit=
+  app.get('/runs/:runId/a11y', (req: Request, res: Response) => {
+    try {
+      const q = req.query;
+      const str = (v: unknown) => (typeof v === 'string' && v ? v : undefined);
+      const out = getArtifact({
+        runId: req.params.runId,
+        kind: 'a11y',
+        name: str(q.name),
+        minImpact: str(q.minImpact),
+        grep: str(q.grep),
+        limit: str(q.limit) ? Number(q.limit) : undefined,
+      });
+      if (out.kind === 'a11y') res.json({ audits: out.audits });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  // Per-step performance metrics: ?step=&against=<runId>&budget=<percent>
+  app.get('/runs/:runId/metrics', (req: Request, res: Response) => {
+    try {
+      const q = req.query;
+      const str = (v: unknown) => (typeof v === 'string' && v ? v : undefined);
+      res.json(getMetrics({
+        runId: req.params.runId,
+        step: str(q.step),
+        against: str(q.against),
+        budgetPercent: str(q.budget) ? Number(q.budget) : undefined,
+      }));
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  // Download the recorded HAR
+  app.get('/runs/:runId/har', (req: Request, res: Response) => {
+    try {
+      const out = getArtifact({ runId: req.params.runId, kind: 'har' });
+      if (out.kind !== 'har') return;
+      res.type('application/json');
+      fs.createReadStream(out.path).pipe(res);
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
 
-      // line-based logs
-      let lines = content.split('\n');
-      if (grep) {
-        const g = grep.toLowerCase();
-        lines = lines.filter((l) => l.toLowerCase().includes(g));
+  // Trace timeline: ?from&to (ms since trace start), beforeError, kinds=a,b, grep, last
+  app.get('/runs/:runId/trace/timeline', (req: Request, res: Response) => {
+    try {
+      const q = req.query;
+      const str = (v: unknown) => (typeof v === 'string' && v ? v : undefined);
+      const num = (v: unknown) => (typeof v === 'string' && v !== '' ? Number(v) : undefined);
+      res.json(queryTrace({
+        runId: req.params.runId,
+        from: num(q.from),
+        to: num(q.to),
+        beforeError: q.beforeError === undefined ? undefined : q.beforeError === 'true',
+        kinds: str(q.kinds)?.split(',').map((k) => k.trim()).filter(Boolean),
+        grep: str(q.grep),
+        last: num(q.last),
+      }));
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  // DOM snapshot (HTML) or screencast frame (JPEG) nearest ?callId=... or ?at=<ms>;
+  // snapshots also take ?phase=before|input|after
+  app.get('/runs/:runId/trace/:extract', (req: Request, res: Response) => {
+    try {
+      const q = req.query;
+      if (req.params.extract !== 'snapshot' && req.params.extract !== 'frame') {
+        throw new ArtifactError('not_found', `unknown trace resource: ${req.params.extract}`);
+      }
+      const str = (v: unknown) => (typeof v === 'string' && v ? v : undefined);
+      const out = queryTrace({
+        runId: req.params.runId,
+        extract: req.params.extract,
+        callId: str(q.callId),
+        at: str(q.at) ? Number(q.at) : undefined,
+        phase: str(q.phase),
+        maxChars: str(q.maxChars) ? Number(q.maxChars) : undefined,
+      });
+      if (out.kind === 'frame') {
+        res.set('X-Trace-Time', String(out.t));
+        return res.type('jpeg').send(out.data);
+      }
+      if (out.kind === 'snapshot') {
+        res.set('X-Trace-Time', String(out.t));
+        res.type('html').send(out.html);
       }
-      if (limit && Number.isFinite(limit)) lines = lines.slice(-limit);
-      res.type('text/plain').send(lines.join('\n'));
     } catch (e) {
-      res.status(500).json({ error: String(e) });
+      sendError(res, e);
     }
   });
 
   // Download playwright trace
   app.get('/runs/:runId/trace', (req: Request, res: Response) => {
     try {
-      const dir = ensureRunDir(req.params.runId);
-      const file = path.join(dir, 'trace.zip');
-      if (!fs.existsSync(file)) return res.status(404).json({ error: 'trace not found' });
+      const out = getArtifact({ runId: req.params.runId, kind: 'trace' });
+      if (out.kind !== 'trace') return;
       res.type('application/zip');
-      fs.createReadStream(file).pipe(res);
+      fs.createReadStream(out.path).pipe(res);
     } catch (e) {
-      res.status(500).json({ error: String(e) });
+      sendError(res, e);
+    }
+  });
+
+  // Auth profiles: saved logins that runs can start from (options.authProfile)
+  app.get('/auth-profiles', (_req: Request, res: Response) => {
+    try {
+      res.json({ profiles: listAuthProfiles() });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  // Create/update a profile and log in: { setupScript?, ttlMs?, options? }.
+  // Without setupScript an existing profile logs in again.
+  app.post('/auth-profiles/:name', async (req: Request, res: Response) => {
+    try {
+      const parsed = runOptionsSchema.optional().safeParse((req.body as { options?: unknown } | undefined)?.options);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'invalid options', issues: parsed.error.issues });
+      }
+      const ttlMs = (req.body as { ttlMs?: unknown } | undefined)?.ttlMs;
+      const setupScript = optionalBodyString(req.body, 'setupScript');
+      if (setupScript) {
+        assertPathAllowed(setupScript, 'setup script');
+        recordAudit(res, { script: path.resolve(setupScript) });
+      }
+      res.json(await setupAuthProfile(req.params.name, {
+        setupScript,
+        ttlMs: typeof ttlMs === 'number' && ttlMs > 0 ? ttlMs : undefined,
+        options: parsed.data,
+      }));
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  app.delete('/auth-profiles/:name', (req: Request, res: Response) => {
+    try {
+      deleteAuthProfile(req.params.name);
+      res.json({ deleted: req.params.name });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  // Live browser sessions, recorded under runs/<sessionId>
+  app.get('/sessions', (_req: Request, res: Response) => {
+    res.json({ sessions: listSessions() });
+  });
+
+  app.post('/sessions', async (req: Request, res: Response) => {
+    try {
+      const parsed = runOptionsSchema.optional().safeParse(req.body?.options);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'invalid options', issues: parsed.error.issues });
+      }
+      const session = await openSession(parsed.data);
+      recordAudit(res, { sessionId: session.sessionId });
+      res.json(session);
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  app.post('/sessions/:sessionId/navigate', async (req: Request, res: Response) => {
+    try {
+      res.json(await navigate(req.params.sessionId, bodyString(req.body, 'url')));
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  app.post('/sessions/:sessionId/click', async (req: Request, res: Response) => {
+    try {
+      res.json(await click(req.params.sessionId, bodyString(req.body, 'selector')));
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  app.post('/sessions/:sessionId/fill', async (req: Request, res: Response) => {
+    try {
+      res.json(await fill(req.params.sessionId, bodyString(req.body, 'selector'), bodyString(req.body, 'value')));
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  app.post('/sessions/:sessionId/evaluate', async (req: Request, res: Response) => {
+    try {
+      res.json({ result: await evaluate(req.params.sessionId, bodyString(req.body, 'expression')) ?? null });
+    } catch (e) {
+      sendError(res, e);
     }
   });
 
-  const server = app.listen(port, () => {
+  app.post('/sessions/:sessionId/snapshot', async (req: Request, res: Response) => {
+    try {
+      res.json(await snapshot(req.params.sessionId, optionalBodyString(req.body, 'name')));
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  // Takes a screenshot and returns the PNG
+  app.post('/sessions/:sessionId/screenshot', async (req: Request, res: Response) => {
+    try {
+      const name = await screenshot(req.params.sessionId, optionalBodyString(req.body, 'name'));
+      res.set('X-Screenshot-Name', name);
+      res.type('png');
+      fs.createReadStream(path.join(resolveRunDir(req.params.sessionId), `${name}.png`)).pipe(res);
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  app.delete('/sessions/:sessionId', async (req: Request, res: Response) => {
+    try {
+      res.json(await closeSession(req.params.sessionId));
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  const server = app.listen(port, host, () => {
     // eslint-disable-next-line no-console
-    console.log(`[agent] HTTP server listening on http://localhost:${port}`);
+    console.log(`[agent] HTTP server listening on http://${host.includes(':') ? `[${host}]` : host}:${port}${tokens.length ? ' (bearer token required)' : ''}, running ${jobConcurrency()} test(s) at a time (JOB_CONCURRENCY)${allowInlineSource ? '' : ', inline source disabled'}`);
+  });
+  server.on('close', () => {
+    closeAllSessions().catch(() => { /* ignore */ });
   });
   return server;
 }
@@ -179,154 +729,167 @@ export function startAgentServer(port = 4317) {
 // ---------------- Claude Code SDK wiring (Messages API with tools) ----------------
 
 type TestRunSummary = {
-  status: 'PASS' | 'FAIL';
+  status: RunStatus;
   runId: string;
   artifactsDir: string;
   criticalErrors: string[];
+  failure?: RunFailure;
+  attempts?: AttemptOutcome[];
   index: ArtifactIndex;
 };
 
-const toolDefs = [
-  {
-    name: 'get_artifact',
-    description: 'Retrieve specific test artifacts and logs from a given run.',
-    input_schema: {
-      type: 'object',
-      properties: {
-        runId: { type: 'string', description: 'Run ID (timestamp id)' },
-        kind: { type: 'string', enum: ['screenshot', 'console', 'network', 'actions', 'trace', 'index'] },
-        name: { type: 'string', nullable: true, description: 'Screenshot basename without .png when kind is screenshot' },
-        grep: { type: 'string', nullable: true, description: 'Optional case-insensitive filter for logs' },
-        limit: { type: 'number', nullable: true, description: 'Optional limit for logs/items' },
-      },
-      required: ['runId', 'kind'],
-      additionalProperties: false,
-    },
+// Failed assertions are listed individually, before the count of passed ones
+function formatAssertions(assertions: ArtifactIndex['assertions']): string {
+  if (assertions.length === 0) return '';
+  const failed = assertions.filter((a) => !a.passed);
+  const lines = failed.map((a) => `  FAILED${a.soft ? ' (soft)' : ''}${a.step ? ` [${a.step}]` : ''}: ${a.message}`);
+  return `\nAssertions: ${failed.length} failed, ${assertions.length - failed.length} passed${lines.length ? `\n${lines.join('\n')}` : ''}`;
+}
+
+function formatFailure(failure: RunFailure | undefined): string {
+  if (!failure) return '';
+  const where = failure.location ? ` at ${failure.location.file}:${failure.location.line}:${failure.location.column}` : '';
+  const step = failure.step ? ` in step "${failure.step}"` : '';
+  return `\nFailure (${failure.category})${step}${where}: ${failure.message}${failure.stack ? `\n${failure.stack}` : ''}`;
+}
+
+type ToolResultContent = Anthropic.Messages.ToolResultBlockParam['content'];
+
+// Handlers for the tools declared in the agent definition, by tool name
+const toolHandlers: Record<string, (args: Record<string, any>) => Promise<ToolResultContent> | ToolResultContent> = {
+  get_artifact: (args) => handleGetArtifact(args),
+  run_test: async (args) => {
+    // Run directly rather than via startAgentWithTest so a rerun does not
+    // open a nested conversation
+    // The model may be steered by the page under test: hold it to the same
+    // script roots and inline-source setting as HTTP callers
+    const script = scriptRefOf(args);
+    assertScriptAllowed(script, inlineSourceAllowed(getConfig().host, loadApiTokens()));
+    const runOptions = runOptionsSchema.parse(args.options ?? {});
+    if (typeof args.replayFrom === 'string') runOptions.replayFrom = args.replayFrom;
+    const fresh = await runTest(script, runOptions);
+    const index = buildArtifactIndex(fresh.artifactsDir);
+    return JSON.stringify({
+      status: fresh.status,
+      runId: fresh.runId,
+      artifactsDir: fresh.artifactsDir,
+      index,
+      criticalErrors: fresh.criticalErrors,
+      ...(fresh.failure ? { failure: fresh.failure } : {}),
+      ...(fresh.attempts ? { attempts: fresh.attempts } : {}),
+    });
   },
-  {
-    name: 'run_test',
-    description: 'Run a Playwright test script and return a fresh summary and artifact index.',
-    input_schema: {
-      type: 'object',
-      properties: {
-        scriptPath: { type: 'string', description: 'Path to TS/JS test script exporting default async (page, context, helpers)' },
-      },
-      required: ['scriptPath'],
-      additionalProperties: false,
-    },
+  list_runs: (args) => JSON.stringify(listRuns(args as RunFilter)),
+  flake_rates: (args) => JSON.stringify(flakeRates(args)),
+  compare_screenshots: (args) => {
+    const masks = visualMaskSchema.array().parse(args.masks ?? []);
+    const threshold = visualThresholdSchema.optional().parse(args.threshold ?? undefined);
+    const result = compareScreenshots({ runId: String(args.runId), name: String(args.name), against: args.against, threshold, masks });
+    return toAnthropicContent(renderVisualDiffContent(String(args.runId), result));
+  },
+  inspect_dom: (args) => JSON.stringify(inspectDom(args)),
+  query_trace: (args) => toAnthropicContent(renderTraceContent(queryTrace(args))),
+  get_report: (args) => generateReport(args, { embedScreenshots: false }).body,
+  get_metrics: (args) => JSON.stringify(getMetrics(args)),
+  run_suite: async (args) => {
+    assertPathAllowed(String(args.pattern), 'suite pattern');
+    const suite = await runSuite(String(args.pattern), {
+      workers: typeof args.workers === 'number' ? args.workers : undefined,
+      run: runOptionsSchema.parse(args.options ?? {}),
+    });
+    return JSON.stringify(suite);
   },
-];
+};
 
-async function postSummaryToClaudeAndServeToolCalls(summary: TestRunSummary) {
-  const client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-  const system = `You are the Testing Agent that autonomously provides only the requested test artifacts. You have just completed a test run. Use tools conservatively and retrieve only what is asked.`;
+// Targets of { $ref: name } in the agent definition
+const schemaRefs: Record<string, unknown> = {
+  run_options: runOptionsJsonSchema,
+  artifact_kinds: artifactKinds,
+  report_formats: reportFormats,
+  trace_event_kinds: traceEventKinds,
+  a11y_impacts: a11yImpacts,
+};
 
-  // Initial user content with concise summary and artifact index
-  const userContent = [
-    { type: 'text', text: `Test run summary:\nStatus: ${summary.status}\nRunId: ${summary.runId}\nCritical errors: ${summary.criticalErrors.length}\nScreenshots: ${summary.index.screenshots.length}\nLogs: ${JSON.stringify(summary.index.logs)}\nTrace: ${summary.index.trace ? 'available' : 'none'}` },
-  ];
+let definition: { file: string; value: AgentDefinition } | null = null;
 
-  // Start a simple loop: respond to tool use blocks until the model ends turn.
-  let messages: any[] = [
-    { role: 'user', content: userContent as any },
-  ];
+// System prompt and tool schemas from the agent definition file. A tool
+// without a handler, or a handler no tool declares, is a startup error.
+export function agentDefinition(): AgentDefinition {
+  const file = getConfig().agentFile;
+  if (definition?.file === file) return definition.value;
+  const value = loadAgentDefinition(file, schemaRefs);
+  const declared = value.tools.map((t) => t.name);
+  const unhandled = declared.filter((name) => !(name in toolHandlers));
+  const undeclared = Object.keys(toolHandlers).filter((name) => !declared.includes(name));
+  if (unhandled.length || undeclared.length) {
+    throw new Error(`Agent definition ${file} does not match the tool handlers: ${[
+      unhandled.length ? `no handler for ${unhandled.join(', ')}` : '',
+      undeclared.length ? `not declared: ${undeclared.join(', ')}` : '',
+    ].filter(Boolean).join('; ')}`);
+  }
+  definition = { file, value };
+  return value;
+}
 
-  // Single-turn serve; can be extended to a persistent loop if desired.
-  const response = await client.messages.create({
-    model: process.env.CLAUDE_MODEL || 'claude-3-7-sonnet-2025-02-19',
-    max_tokens: 1024,
+// Execute one tool call from the model and return its tool_result content
+async function executeTool(name: string, input: unknown): Promise<ToolResultContent> {
+  const handler = toolHandlers[name];
+  if (!handler) throw new Error(`Unknown tool: ${name}`);
+  return handler((input ?? {}) as Record<string, any>);
+}
+
+export type Diagnosis = {
+  text: string;
+  file: string | null;
+  stopReason: ToolLoopResult['stopReason'];
+  iterations: number;
+  usage: ToolLoopResult['usage'];
+};
+
+// Post the run summary to Claude, serve its tool calls until it ends the turn
+// (or a budget runs out) and store the final answer as diagnosis.md.
+export async function postSummaryToClaudeAndServeToolCalls(
+  summary: TestRunSummary,
+  client: ModelClient = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY }),
+): Promise<Diagnosis> {
+  const { system_prompt: system, tools } = agentDefinition();
+
+  // Initial user content with concise summary and artifact index
+  const userContent = `Test run summary:\nStatus: ${summary.status}\nRunId: ${summary.runId}${formatAssertions(summary.index.assertions)}\nCritical errors: ${summary.criticalErrors.length}\nScreenshots: ${summary.index.screenshots.length}\nLogs: ${JSON.stringify(summary.index.logs)}\nTrace: ${summary.index.trace ? 'available' : 'none'}${summary.index.a11y ? `\nAccessibility: ${formatA11yCounts(summary.index.a11y)} (get_artifact kind a11y)` : ''}${summary.index.perfRegressions.length ? `\nPerformance regressions (get_metrics):\n${formatRegressions(summary.index.perfRegressions).map((l) => `  ${l}`).join('\n')}` : ''}\nVisual diffs over threshold: ${summary.index.visual.filter((d) => !d.passed).map((d) => `${d.name} (${d.mismatchPercent}%)`).join(', ') || 'none'}${summary.attempts ? `\nAttempts: ${summary.attempts.map((a) => `${a.runId} ${a.status}`).join(', ')}` : ''}${formatFailure(summary.failure)}`;
+
+  const num = (v: string | undefined) => (v && Number.isFinite(Number(v)) ? Number(v) : undefined);
+  const result = await runToolLoop({
+    client,
+    model: getConfig().model,
     system,
-    tools: toolDefs as any, // SDK typing allows this shape
-    messages,
-  });
-
-  if (!response.content || response.content.length === 0) return;
-
-  // Find tool_use blocks and execute
-  for (const block of response.content) {
-    if ((block as any).type === 'tool_use') {
-      const tu = block as Anthropic.Messages.ToolUseBlock;
-      const toolName = tu.name;
-      if (toolName === 'get_artifact') {
-        const args = tu.input as any;
-        const result = await handleGetArtifact(args);
-        await client.messages.create({
-          model: process.env.CLAUDE_MODEL || 'claude-3-7-sonnet-2025-02-19',
-          max_tokens: 1024,
-          system,
-          tools: toolDefs as any,
-          messages: [
-            ...messages,
-            { role: 'assistant', content: [tu] as any },
-            { role: 'user', content: [{ type: 'tool_result', tool_use_id: tu.id, content: [{ type: 'text', text: result }] }] as any },
-          ],
-        });
-      } else if (toolName === 'run_test') {
-        const args = tu.input as any;
-        const fresh = await startAgentWithTest(String(args.scriptPath));
-        const payload = {
-          status: fresh.status,
-          runId: fresh.runId,
-          artifactsDir: fresh.artifactsDir,
-          index: fresh.index,
-          criticalErrors: fresh.criticalErrors,
-        };
-        await client.messages.create({
-          model: process.env.CLAUDE_MODEL || 'claude-3-7-sonnet-2025-02-19',
-          max_tokens: 1024,
-          system,
-          tools: toolDefs as any,
-          messages: [
-            ...messages,
-            { role: 'assistant', content: [tu] as any },
-            { role: 'user', content: [{ type: 'tool_result', tool_use_id: tu.id, content: [{ type: 'text', text: JSON.stringify(payload) }] }] as any },
-          ],
-        });
-      }
-    }
+    tools: tools as Anthropic.Messages.Tool[],
+    messages: [{ role: 'user', content: userContent }],
+    execute: executeTool,
+    maxIterations: num(process.env.CLAUDE_MAX_ITERATIONS),
+    maxTotalTokens: num(process.env.CLAUDE_MAX_TOKENS),
+  });
+
+  let file: string | null = null;
+  if (result.text) {
+    file = path.join(summary.artifactsDir, 'diagnosis.md');
+    fs.writeFileSync(file, `# Diagnosis for ${summary.runId}\n\n${result.text}\n`);
+    refreshManifestArtifacts(summary.artifactsDir);
   }
+  return { text: result.text, file, stopReason: result.stopReason, iterations: result.iterations, usage: result.usage };
 }
 
-async function handleGetArtifact(args: { runId: string; kind: string; name?: string; grep?: string; limit?: number }): Promise<string> {
-  const dir = ensureRunDir(args.runId);
-  switch (args.kind) {
-    case 'index': {
-      return JSON.stringify(buildArtifactIndex(dir));
-    }
-    case 'screenshot': {
-      if (!args.name) return JSON.stringify({ error: 'name is required for screenshot' });
-      const file = path.join(dir, `${args.name}.png`);
-      if (!fs.existsSync(file)) return JSON.stringify({ error: 'screenshot not found' });
-      // Return a file path reference; Claude can request it via a separate fetch tool or we can base64 encode (large).
-      return JSON.stringify({ path: file });
-    }
-    case 'console':
-    case 'network':
-    case 'actions': {
-      const kind = args.kind as 'console' | 'network' | 'actions';
-      let fileName = kind === 'console' ? 'console.log' : kind === 'network' ? 'network.log' : 'actions.json';
-      const file = path.join(dir, fileName);
-      if (!fs.existsSync(file)) return JSON.stringify({ error: 'log not found' });
-      const grep = args.grep?.toLowerCase();
-      const limit = args.limit && Number.isFinite(args.limit) ? Number(args.limit) : undefined;
-      if (kind === 'actions') {
-        const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
-        let items = Array.isArray(parsed) ? parsed : parsed?.actions ?? [];
-        if (grep) items = items.filter((x: unknown) => JSON.stringify(x).toLowerCase().includes(grep));
-        if (limit) items = items.slice(-limit);
-        return JSON.stringify(items);
-      }
-      let lines = fs.readFileSync(file, 'utf8').split('\n');
-      if (grep) lines = lines.filter((l) => l.toLowerCase().includes(grep));
-      if (limit) lines = lines.slice(-limit);
-      return lines.join('\n');
-    }
-    case 'trace': {
-      const file = path.join(dir, 'trace.zip');
-      if (!fs.existsSync(file)) return JSON.stringify({ error: 'trace not found' });
-      return JSON.stringify({ path: file });
-    }
-    default:
-      return JSON.stringify({ error: 'invalid kind' });
+function toAnthropicContent(content: ArtifactContent[]): ToolResultContent {
+  return content.map((c) =>
+    c.type === 'text'
+      ? { type: 'text' as const, text: c.text }
+      : { type: 'image' as const, source: { type: 'base64' as const, media_type: c.mimeType as 'image/png' | 'image/jpeg', data: c.data } }
+  );
+}
+
+async function handleGetArtifact(args: unknown): Promise<ToolResultContent> {
+  try {
+    return toAnthropicContent(renderArtifactContent(getArtifactForModel(args)));
+  } catch (e) {
+    return renderArtifactError(e);
   }
 }
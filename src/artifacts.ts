@@ -0,0 +1,340 @@
+// Shared artifact access for the HTTP routes, the Anthropic tool loop and the
+// MCP server. New kinds, filters and error codes belong here so all three
+// surfaces behave identically.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { readManifest, type ArtifactEntry, type StepOutcome, type RunStatus } from './manifest.js';
+import { filterNetworkLines, hasNetworkFilter } from './network.js';
+import { regionSchema } from './options.js';
+import { runsDir } from './config.js';
+import type { VisualDiff } from './visual.js';
+import type { AssertionResult } from './expect.js';
+import { listDomSnapshots } from './dom.js';
+import { a11yImpacts, impactRank, readA11yAudits, type A11yAudit, type A11ySummary } from './a11y.js';
+import type { PerfRegression } from './metrics.js';
+import { decodePng, encodePng, cropPng, scalePng, fitPng, type Region } from './png.js';
+
+export type ArtifactIndex = {
+  runId: string;
+  artifactsDir: string;
+  // Manifest fields; null for legacy runs without run.json
+  status: RunStatus | null;
+  scriptPath: string | null;
+  startedAt: string | null;
+  durationMs: number | null;
+  criticalErrors: string[];
+  steps: StepOutcome[];
+  // helpers.expect results, failed first
+  assertions: AssertionResult[];
+  visual: VisualDiff[];
+  artifacts: ArtifactEntry[];
+  screenshots: string[];
+  // DOM snapshot names under dom/, queryable with inspect_dom
+  domSnapshots: string[];
+  logs: { console: string | null; network: string | null; actions: string | null };
+  trace: string | null;
+  har: string | null;
+  // Violation counts when the run audited accessibility (a11y.json)
+  a11y: A11ySummary | null;
+  // Per-step performance metrics, read with get_metrics
+  metrics: string | null;
+  perfRegressions: PerfRegression[];
+  diagnosis: string | null;
+};
+
+export type ArtifactErrorCode = 'not_found' | 'invalid_argument' | 'unauthorized' | 'forbidden';
+
+export class ArtifactError extends Error {
+  constructor(public readonly code: ArtifactErrorCode, message: string) {
+    super(message);
+    this.name = 'ArtifactError';
+  }
+}
+
+// Run ids and artifact names become file names: no separators, no leading
+// dot (so no "." or ".."), no control characters
+export function validateName(value: string, what: string): string {
+  if (!value || value.length > 200 || value.startsWith('.') || /[\\/\x00-\x1f]/.test(value)) {
+    throw new ArtifactError('invalid_argument', `Invalid ${what}: ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+export const artifactKinds = ['screenshot', 'console', 'network', 'actions', 'trace', 'har', 'a11y', 'index'] as const;
+
+export const getArtifactRequestSchema = z.object({
+  runId: z.string().min(1),
+  kind: z.enum(artifactKinds),
+  name: z.string().optional(),
+  grep: z.string().optional(),
+  limit: z.number().int().positive().optional(),
+  // Screenshot transforms
+  region: regionSchema.optional(),
+  selector: z.string().optional(),
+  maxWidth: z.number().int().positive().optional(),
+  maxBytes: z.number().int().positive().optional(),
+  // Network log filters
+  statusMin: z.number().int().optional(),
+  statusMax: z.number().int().optional(),
+  method: z.string().optional(),
+  resourceType: z.string().optional(),
+  url: z.string().optional(),
+  failed: z.boolean().optional(),
+  // Accessibility: only violations of this impact or worse
+  minImpact: z.enum(a11yImpacts).optional(),
+});
+
+export type GetArtifactRequest = z.infer<typeof getArtifactRequestSchema>;
+
+export type ArtifactResponse =
+  | { kind: 'index'; index: ArtifactIndex }
+  | { kind: 'screenshot'; name: string; path: string; mimeType: 'image/png'; data: Buffer; width: number; height: number }
+  | { kind: 'console' | 'network'; lines: string[] }
+  | { kind: 'actions'; items: unknown[] }
+  | { kind: 'a11y'; audits: A11yAudit[] }
+  | { kind: 'trace' | 'har'; path: string };
+
+// Model-facing content: text or an inline image (base64)
+export type ArtifactContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string };
+
+// The Messages API rejects images over 5 MB of base64 (about 3.75 MB raw)
+export const MODEL_IMAGE_MAX_BYTES = 3_750_000;
+
+const LOG_FILES = { console: 'console.log', network: 'network.log', actions: 'actions.json' } as const;
+
+export function resolveRunDir(runId: string): string {
+  const dir = path.join(runsDir(), validateName(runId, 'runId'));
+  if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+    throw new ArtifactError('not_found', `Run not found: ${runId}`);
+  }
+  return dir;
+}
+
+export function buildArtifactIndex(artifactsDir: string): ArtifactIndex {
+  const manifest = readManifest(artifactsDir);
+  // Legacy runs have no manifest; fall back to what is on disk
+  const files = manifest ? manifest.artifacts.map((a) => a.name) : fs.readdirSync(artifactsDir);
+  const pick = (name: string) => (files.includes(name) ? name : null);
+  return {
+    runId: manifest?.runId ?? path.basename(artifactsDir),
+    artifactsDir,
+    status: manifest?.status ?? null,
+    scriptPath: manifest?.scriptPath ?? null,
+    startedAt: manifest?.startedAt ?? null,
+    durationMs: manifest?.durationMs ?? null,
+    criticalErrors: manifest?.criticalErrors ?? [],
+    steps: manifest?.steps ?? [],
+    assertions: [...(manifest?.assertions ?? [])].sort((a, b) => Number(a.passed) - Number(b.passed)),
+    visual: manifest?.visual ?? [],
+    artifacts: manifest?.artifacts ?? [],
+    // Top-level only: diffs/ holds visual diff images
+    screenshots: files.filter((f) => f.endsWith('.png') && !f.includes('/')).sort(),
+    domSnapshots: listDomSnapshots(artifactsDir),
+    logs: { console: pick('console.log'), network: pick('network.log'), actions: pick('actions.json') },
+    trace: pick('trace.zip'),
+    har: pick('network.har'),
+    a11y: manifest?.a11y ?? null,
+    metrics: pick('metrics.json'),
+    perfRegressions: manifest?.perfRegressions ?? [],
+    diagnosis: pick('diagnosis.md'),
+  };
+}
+
+function requireFile(dir: string, fileName: string, what: string): string {
+  const file = path.join(dir, fileName);
+  if (path.dirname(file) !== dir) {
+    throw new ArtifactError('invalid_argument', `Invalid ${what} name: ${fileName}`);
+  }
+  if (!fs.existsSync(file)) {
+    throw new ArtifactError('not_found', `${what} not found`);
+  }
+  return file;
+}
+
+export function getArtifact(input: unknown): ArtifactResponse {
+  const parsed = getArtifactRequestSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new ArtifactError('invalid_argument', parsed.error.issues.map((i) => `${i.path.join('.') || 'input'}: ${i.message}`).join('; '));
+  }
+  const req = parsed.data;
+  const dir = resolveRunDir(req.runId);
+
+  switch (req.kind) {
+    case 'index':
+      return { kind: 'index', index: buildArtifactIndex(dir) };
+    case 'screenshot': {
+      if (!req.name) throw new ArtifactError('invalid_argument', 'name is required for screenshot');
+      const file = requireFile(dir, `${validateName(req.name, 'screenshot name')}.png`, 'screenshot');
+      return { kind: 'screenshot', name: req.name, path: file, mimeType: 'image/png', ...transformScreenshot(dir, req.name, file, req) };
+    }
+    case 'actions': {
+      const file = requireFile(dir, LOG_FILES.actions, 'log');
+      const parsedFile = JSON.parse(fs.readFileSync(file, 'utf8'));
+      let items: unknown[] = Array.isArray(parsedFile) ? parsedFile : parsedFile?.actions ?? [];
+      const grep = req.grep?.toLowerCase();
+      if (grep) items = items.filter((x) => JSON.stringify(x).toLowerCase().includes(grep));
+      if (req.limit) items = items.slice(-req.limit);
+      return { kind: 'actions', items };
+    }
+    case 'console':
+    case 'network': {
+      const file = requireFile(dir, LOG_FILES[req.kind], 'log');
+      let lines = fs.readFileSync(file, 'utf8').split('\n');
+      if (req.kind === 'network' && hasNetworkFilter(req)) {
+        try {
+          lines = filterNetworkLines(lines, req);
+        } catch (e) {
+          throw new ArtifactError('invalid_argument', (e as Error).message);
+        }
+      }
+      const grep = req.grep?.toLowerCase();
+      if (grep) lines = lines.filter((l) => l.toLowerCase().includes(grep));
+      if (req.limit) lines = lines.slice(-req.limit);
+      return { kind: req.kind, lines };
+    }
+    case 'a11y': {
+      const audits = readA11yAudits(dir);
+      if (!audits) throw new ArtifactError('not_found', 'no accessibility audits (run with the a11y option or call helpers.a11y)');
+      // name selects one audit; minImpact and grep narrow the violations
+      const grep = req.grep?.toLowerCase();
+      const narrowed = audits
+        .filter((a) => !req.name || a.name === req.name)
+        .map((a) => ({
+          ...a,
+          violations: a.violations.filter((v) =>
+            (!req.minImpact || impactRank(v.impact) >= impactRank(req.minImpact)) &&
+            (!grep || JSON.stringify(v).toLowerCase().includes(grep))),
+        }))
+        .filter((a) => (!req.minImpact && !grep) || a.violations.length > 0);
+      return { kind: 'a11y', audits: req.limit ? narrowed.slice(-req.limit) : narrowed };
+    }
+    case 'trace':
+      return { kind: 'trace', path: requireFile(dir, 'trace.zip', 'trace') };
+    case 'har':
+      return { kind: 'har', path: requireFile(dir, 'network.har', 'har') };
+  }
+}
+
+// <name>.boxes.json: element boxes in CSS pixels and the device pixel ratio
+// of the screenshot. Files from before the ratio was recorded are a bare
+// selector -> box map.
+export type ElementBoxes = { devicePixelRatio: number; boxes: Record<string, Region> };
+
+function readElementBoxes(dir: string, name: string): ElementBoxes | null {
+  const file = path.join(dir, `${name}.boxes.json`);
+  if (!fs.existsSync(file)) return null;
+  const raw = JSON.parse(fs.readFileSync(file, 'utf8')) as ElementBoxes | Record<string, Region>;
+  return typeof raw.devicePixelRatio === 'number' ? raw as ElementBoxes : { devicePixelRatio: 1, boxes: raw as Record<string, Region> };
+}
+
+// Device pixels per CSS pixel in the screenshot; 1 when no boxes were recorded
+export function screenshotScale(dir: string, name: string): number {
+  return readElementBoxes(dir, name)?.devicePixelRatio ?? 1;
+}
+
+// A CSS-pixel region in the screenshot's device pixels, grown to whole pixels
+export function toDevicePixels(region: Region, scale: number): Region {
+  if (scale === 1) return region;
+  const x = Math.floor(region.x * scale);
+  const y = Math.floor(region.y * scale);
+  return {
+    x,
+    y,
+    width: Math.ceil((region.x + region.width) * scale) - x,
+    height: Math.ceil((region.y + region.height) * scale) - y,
+  };
+}
+
+// The element's box in the screenshot's pixels
+export function selectorRegion(dir: string, name: string, selector: string): Region {
+  const recorded = readElementBoxes(dir, name);
+  if (!recorded) {
+    throw new ArtifactError('not_found', `no element boxes recorded for screenshot ${name}`);
+  }
+  const box = recorded.boxes[selector];
+  if (!box) {
+    throw new ArtifactError('not_found', `element ${selector} not found in screenshot ${name} (only #id and [data-testid="..."] selectors are recorded)`);
+  }
+  return toDevicePixels(box, recorded.devicePixelRatio);
+}
+
+function transformScreenshot(dir: string, name: string, file: string, req: GetArtifactRequest): { data: Buffer; width: number; height: number } {
+  const raw = fs.readFileSync(file);
+  if (!req.region && !req.selector && !req.maxWidth && (!req.maxBytes || raw.length <= req.maxBytes)) {
+    // IHDR width/height sit at fixed offsets in every PNG
+    return { data: raw, width: raw.readUInt32BE(16), height: raw.readUInt32BE(20) };
+  }
+  let png = decodePng(raw);
+  // Regions are given in page coordinates (CSS pixels), like the element boxes
+  const region = req.region
+    ? toDevicePixels(req.region, screenshotScale(dir, name))
+    : req.selector ? selectorRegion(dir, name, req.selector) : undefined;
+  try {
+    if (region) png = cropPng(png, region);
+    if (req.maxWidth) png = scalePng(png, req.maxWidth);
+    const data = req.maxBytes ? fitPng(png, req.maxBytes) : encodePng(png);
+    return { data, width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  } catch (e) {
+    throw new ArtifactError('invalid_argument', (e as Error).message);
+  }
+}
+
+// Like getArtifact, but screenshots are kept within what a model accepts
+export function getArtifactForModel(input: unknown): ArtifactResponse {
+  const req = (input ?? {}) as Partial<GetArtifactRequest>;
+  if (req.kind !== 'screenshot') return getArtifact(input);
+  return getArtifact({ ...req, maxBytes: Math.min(req.maxBytes ?? MODEL_IMAGE_MAX_BYTES, MODEL_IMAGE_MAX_BYTES) });
+}
+
+// Text rendering for model-facing surfaces (Anthropic tool results, MCP)
+export function renderArtifact(resp: ArtifactResponse): string {
+  switch (resp.kind) {
+    case 'index':
+      return JSON.stringify(resp.index);
+    case 'screenshot':
+    case 'trace':
+    case 'har':
+      return JSON.stringify({ path: resp.path });
+    case 'actions':
+      return JSON.stringify(resp.items);
+    case 'a11y':
+      return JSON.stringify(resp.audits);
+    case 'console':
+    case 'network':
+      return resp.lines.join('\n');
+  }
+}
+
+// Content blocks for model-facing surfaces; screenshots become inline images
+export function renderArtifactContent(resp: ArtifactResponse): ArtifactContent[] {
+  if (resp.kind !== 'screenshot') return [{ type: 'text', text: renderArtifact(resp) }];
+  return [
+    { type: 'text', text: JSON.stringify({ name: resp.name, path: resp.path, width: resp.width, height: resp.height, bytes: resp.data.length }) },
+    { type: 'image', data: resp.data.toString('base64'), mimeType: resp.mimeType },
+  ];
+}
+
+export function artifactErrorBody(e: unknown): { code: ArtifactErrorCode | 'internal'; message: string } {
+  if (e instanceof ArtifactError) return { code: e.code, message: e.message };
+  return { code: 'internal', message: String(e) };
+}
+
+export function renderArtifactError(e: unknown): string {
+  return JSON.stringify({ error: artifactErrorBody(e) });
+}
+
+const ARTIFACT_ERROR_STATUS: Record<ArtifactErrorCode, number> = {
+  not_found: 404,
+  invalid_argument: 400,
+  unauthorized: 401,
+  forbidden: 403,
+};
+
+export function artifactErrorStatus(e: unknown): number {
+  if (e instanceof ArtifactError) return ARTIFACT_ERROR_STATUS[e.code];
+  return 500;
+}
@@ -0,0 +1,141 @@
+// Named auth profiles. A setup script logs in once and the context's storage
+// state (cookies, localStorage) is saved under <authDir>/<name>/, auth/ next
+// to the config file by default. Runs started with the authProfile option
+// begin from that state; a profile older than its TTL is refreshed by
+// rerunning the setup script first.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { runTest } from './tools.js';
+import { ArtifactError } from './artifacts.js';
+import type { RunOptions } from './options.js';
+import { getConfig } from './config.js';
+
+export type AuthProfile = {
+  name: string;
+  setupScript: string;
+  // Refresh when the saved state is older than this
+  ttlMs: number;
+  // Options the setup script runs with (authProfile is ignored)
+  options: RunOptions;
+  // When the storage state was last saved; null before the first setup
+  updatedAt: string | null;
+  lastSetupRunId: string | null;
+};
+
+export type AuthProfileInfo = AuthProfile & { stale: boolean };
+
+const PROFILE_FILE = 'profile.json';
+const STATE_FILE = 'state.json';
+const DEFAULT_TTL_MS = 12 * 60 * 60 * 1000;
+const PROFILE_NAME = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+// Refreshes in progress, so concurrent runs of one profile log in once
+const refreshing = new Map<string, Promise<string>>();
+
+function profileDir(name: string): string {
+  if (!PROFILE_NAME.test(name)) {
+    throw new ArtifactError('invalid_argument', `Invalid auth profile name: ${name}`);
+  }
+  return path.join(getConfig().authDir, name);
+}
+
+function isStale(profile: AuthProfile): boolean {
+  if (!profile.updatedAt || !fs.existsSync(path.join(profileDir(profile.name), STATE_FILE))) return true;
+  return Date.now() - new Date(profile.updatedAt).getTime() > profile.ttlMs;
+}
+
+export function readAuthProfile(name: string): AuthProfile | null {
+  const file = path.join(profileDir(name), PROFILE_FILE);
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as AuthProfile;
+}
+
+function writeAuthProfile(profile: AuthProfile): void {
+  const dir = profileDir(profile.name);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, PROFILE_FILE), JSON.stringify(profile, null, 2));
+}
+
+export function listAuthProfiles(): AuthProfileInfo[] {
+  const root = getConfig().authDir;
+  if (!fs.existsSync(root)) return [];
+  return fs.readdirSync(root, { withFileTypes: true })
+    .filter((e) => e.isDirectory() && PROFILE_NAME.test(e.name))
+    .map((e) => readAuthProfile(e.name))
+    .filter((p): p is AuthProfile => p !== null)
+    .map((p) => ({ ...p, stale: isStale(p) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Run the profile's setup script and save the storage state it ends with.
+// The setup is an ordinary run, so a failed login leaves artifacts to inspect.
+async function runSetup(profile: AuthProfile): Promise<string> {
+  const dir = profileDir(profile.name);
+  fs.mkdirSync(dir, { recursive: true });
+  const stateFile = path.join(dir, STATE_FILE);
+  const pending = `${stateFile}.tmp`;
+  const { authProfile: _ignored, ...options } = profile.options;
+  const result = await runTest(profile.setupScript, { ...options, retries: 0 }, {
+    afterScript: async (context) => {
+      await context.storageState({ path: pending });
+    },
+  });
+  if (result.failure || !fs.existsSync(pending)) {
+    fs.rmSync(pending, { force: true });
+    throw new Error(`Auth profile "${profile.name}" setup failed (run ${result.runId}): ${result.failure?.message ?? 'no storage state saved'}`);
+  }
+  fs.renameSync(pending, stateFile);
+  writeAuthProfile({ ...profile, updatedAt: new Date().toISOString(), lastSetupRunId: result.runId });
+  return stateFile;
+}
+
+function refresh(profile: AuthProfile): Promise<string> {
+  let pending = refreshing.get(profile.name);
+  if (!pending) {
+    pending = runSetup(profile).finally(() => refreshing.delete(profile.name));
+    refreshing.set(profile.name, pending);
+  }
+  return pending;
+}
+
+// Create or update a profile and log in now. Without a setupScript the
+// profile must exist already, and is refreshed with its current settings.
+export async function setupAuthProfile(
+  name: string,
+  opts: { setupScript?: string; ttlMs?: number; options?: RunOptions } = {},
+): Promise<AuthProfileInfo> {
+  const existing = readAuthProfile(name);
+  if (!existing && !opts.setupScript) {
+    throw new ArtifactError('not_found', `Auth profile not found: ${name} (provide a setup script to create it)`);
+  }
+  const setupScript = opts.setupScript ? path.resolve(opts.setupScript) : existing!.setupScript;
+  if (!fs.existsSync(setupScript)) {
+    throw new ArtifactError('not_found', `Setup script not found: ${setupScript}`);
+  }
+  const profile: AuthProfile = {
+    name,
+    setupScript,
+    ttlMs: opts.ttlMs ?? existing?.ttlMs ?? DEFAULT_TTL_MS,
+    options: opts.options ?? existing?.options ?? {},
+    updatedAt: existing?.updatedAt ?? null,
+    lastSetupRunId: existing?.lastSetupRunId ?? null,
+  };
+  writeAuthProfile(profile);
+  await refresh(profile);
+  return { ...readAuthProfile(name)!, stale: false };
+}
+
+// Storage state file for a run, refreshed first if the profile is stale
+export async function authStatePath(name: string): Promise<string> {
+  const profile = readAuthProfile(name);
+  if (!profile) throw new ArtifactError('not_found', `Auth profile not found: ${name}`);
+  if (isStale(profile)) return refresh(profile);
+  return path.join(profileDir(name), STATE_FILE);
+}
+
+export function deleteAuthProfile(name: string): void {
+  const dir = profileDir(name);
+  if (!fs.existsSync(dir)) throw new ArtifactError('not_found', `Auth profile not found: ${name}`);
+  fs.rmSync(dir, { recursive: true, force: true });
+}
@@ -0,0 +1,259 @@
+// Agent configuration, shared by the CLI, the HTTP server and the MCP server.
+// Read from testing-agent.config.{ts,js,mjs,json} in the working directory, or
+// the file named by --config / TESTING_AGENT_CONFIG. Named environments (local,
+// staging, ...) add a base URL, run options and environment variables on top of
+// the file's defaults; CLI flags override both.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL, fileURLToPath } from 'node:url';
+import { z } from 'zod';
+import YAML from 'yaml';
+import { runOptionsSchema, setDefaultRunOptions, type RunOptions } from './options.js';
+
+const CONFIG_FILES = ['testing-agent.config.ts', 'testing-agent.config.js', 'testing-agent.config.mjs', 'testing-agent.config.json'];
+const DEFAULT_PORT = 4317;
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_MODEL = 'claude-3-7-sonnet-2025-02-19';
+const DEFAULT_AGENT_FILE = path.join(packageRoot(), 'agents', 'testing-agent.yml');
+
+// Nearest directory above this module with a package.json: the same from src/
+// under ts-node and from dist/src/ after a build
+function packageRoot(): string {
+  let dir = path.dirname(fileURLToPath(import.meta.url));
+  while (!fs.existsSync(path.join(dir, 'package.json'))) {
+    const parent = path.dirname(dir);
+    if (parent === dir) throw new Error(`package.json not found above ${fileURLToPath(import.meta.url)}`);
+    dir = parent;
+  }
+  return dir;
+}
+
+// Per-run choices (a login, a HAR to replay) are not defaults
+export const configRunOptionsSchema = runOptionsSchema.omit({ authProfile: true, replayFrom: true });
+
+export const environmentSchema = z.object({
+  baseURL: z.string().url().optional(),
+  // Set in process.env unless already defined there
+  env: z.record(z.string()).optional(),
+  run: configRunOptionsSchema.optional(),
+}).strict();
+
+export const configSchema = z.object({
+  port: z.number().int().min(1).max(65535).optional(),
+  // HTTP server interface; anything but loopback requires TESTING_AGENT_TOKEN
+  host: z.string().min(1).optional(),
+  model: z.string().min(1).optional(),
+  // Relative paths resolve against the config file's directory
+  runsDir: z.string().min(1).optional(),
+  agentFile: z.string().min(1).optional(),
+  // Saved auth profiles and their storage state (default: auth)
+  authDir: z.string().min(1).optional(),
+  // Approved visual baselines (default: baselines)
+  baselinesDir: z.string().min(1).optional(),
+  // Directories HTTP clients may run scripts from (default: the config's directory)
+  scriptRoots: z.array(z.string().min(1)).min(1).optional(),
+  // Whether HTTP clients may send inline source, which is arbitrary code. By
+  // default only a server on a loopback host without TESTING_AGENT_TOKEN takes
+  // it; set true to opt in anywhere, false to hold every client to scriptRoots.
+  allowInlineSource: z.boolean().optional(),
+  // JSON lines, one per HTTP request (default: audit.log)
+  auditLog: z.string().min(1).optional(),
+  run: configRunOptionsSchema.optional(),
+  defaultEnvironment: z.string().min(1).optional(),
+  environments: z.record(environmentSchema).optional(),
+}).strict();
+
+export type ConfigFile = z.infer<typeof configSchema>;
+
+export type AgentConfig = {
+  // The config file read, or null when running on defaults
+  file: string | null;
+  // Directory of the config file (else the working directory at load time);
+  // relative paths in the config resolve against it
+  root: string;
+  port: number;
+  host: string;
+  model: string;
+  runsDir: string;
+  agentFile: string;
+  authDir: string;
+  baselinesDir: string;
+  scriptRoots: string[];
+  // null: decided by the server (loopback host and no tokens)
+  allowInlineSource: boolean | null;
+  auditLog: string;
+  environment: string | null;
+  // Defaults every run starts from; explicit run options override them
+  run: RunOptions;
+};
+
+export type ConfigOverrides = {
+  file?: string;
+  environment?: string;
+  port?: number;
+  host?: string;
+  model?: string;
+  runsDir?: string;
+};
+
+// Typed helper for testing-agent.config.ts
+export function defineConfig(config: ConfigFile): ConfigFile {
+  return config;
+}
+
+let current: AgentConfig | null = null;
+
+function defaults(): AgentConfig {
+  return {
+    file: null,
+    root: process.cwd(),
+    port: DEFAULT_PORT,
+    host: DEFAULT_HOST,
+    model: process.env.CLAUDE_MODEL || DEFAULT_MODEL,
+    runsDir: path.resolve('runs'),
+    agentFile: DEFAULT_AGENT_FILE,
+    authDir: path.resolve('auth'),
+    baselinesDir: path.resolve('baselines'),
+    scriptRoots: [process.cwd()],
+    allowInlineSource: null,
+    auditLog: path.resolve('audit.log'),
+    environment: null,
+    run: {},
+  };
+}
+
+// The loaded config; defaults when loadConfig has not run (library use)
+export function getConfig(): AgentConfig {
+  return current ?? defaults();
+}
+
+export function runsDir(): string {
+  return getConfig().runsDir;
+}
+
+function findConfigFile(explicit: string | undefined): string | null {
+  const named = explicit || process.env.TESTING_AGENT_CONFIG;
+  if (named) {
+    const file = path.resolve(named);
+    if (!fs.existsSync(file)) throw new Error(`Config file not found: ${file}`);
+    return file;
+  }
+  for (const name of CONFIG_FILES) {
+    const file = path.resolve(name);
+    if (fs.existsSync(file)) return file;
+  }
+  return null;
+}
+
+async function readConfigFile(file: string): Promise<ConfigFile> {
+  let raw: unknown;
+  try {
+    if (file.endsWith('.json')) {
+      raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } else {
+      const mod = await import(pathToFileURL(file).href);
+      raw = mod.default ?? mod;
+    }
+  } catch (e) {
+    throw new Error(`Invalid config file ${file}: ${(e as Error).message}`);
+  }
+  const parsed = configSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+    throw new Error(`Invalid config file ${file}: ${issues}`);
+  }
+  return parsed.data;
+}
+
+// Read the config file, select an environment and apply overrides. Precedence
+// is CLI flag > environment variable > environment > config file > default.
+export async function loadConfig(overrides: ConfigOverrides = {}): Promise<AgentConfig> {
+  const file = findConfigFile(overrides.file);
+  const fromFile: ConfigFile = file ? await readConfigFile(file) : {};
+  const base = file ? path.dirname(file) : process.cwd();
+
+  const environment = overrides.environment || process.env.TESTING_AGENT_ENV || fromFile.defaultEnvironment || null;
+  const env = environment ? fromFile.environments?.[environment] : undefined;
+  if (environment && !env) {
+    const known = Object.keys(fromFile.environments ?? {});
+    throw new Error(`Unknown environment "${environment}"${known.length ? ` (defined: ${known.join(', ')})` : file ? ` (none defined in ${file})` : ' (no config file found)'}`);
+  }
+  for (const [key, value] of Object.entries(env?.env ?? {})) {
+    if (process.env[key] === undefined) process.env[key] = value;
+  }
+
+  const run: RunOptions = { ...fromFile.run, ...env?.run, ...(env?.baseURL ? { baseURL: env.baseURL } : {}) };
+  current = {
+    file,
+    root: base,
+    port: overrides.port ?? fromFile.port ?? DEFAULT_PORT,
+    host: overrides.host || fromFile.host || DEFAULT_HOST,
+    model: overrides.model || process.env.CLAUDE_MODEL || fromFile.model || DEFAULT_MODEL,
+    runsDir: overrides.runsDir ? path.resolve(overrides.runsDir) : path.resolve(base, fromFile.runsDir ?? 'runs'),
+    agentFile: fromFile.agentFile ? path.resolve(base, fromFile.agentFile) : DEFAULT_AGENT_FILE,
+    authDir: path.resolve(base, fromFile.authDir ?? 'auth'),
+    baselinesDir: path.resolve(base, fromFile.baselinesDir ?? 'baselines'),
+    scriptRoots: (fromFile.scriptRoots ?? ['.']).map((root) => path.resolve(base, root)),
+    allowInlineSource: fromFile.allowInlineSource ?? null,
+    auditLog: path.resolve(base, fromFile.auditLog ?? 'audit.log'),
+    environment,
+    run,
+  };
+  setDefaultRunOptions(run);
+  return current;
+}
+
+// Agent definition (agents/testing-agent.yml): the system prompt and the tool
+// schemas sent to the model. { $ref: name } is replaced with refs[name], so
+// schemas and enums kept in code are not copied into the file.
+
+const toolDefinitionSchema = z.object({
+  name: z.string().regex(/^[a-z][a-z0-9_]*$/),
+  description: z.string().min(1),
+  input_schema: z.object({ type: z.literal('object') }).passthrough(),
+}).strict();
+
+const agentDefinitionSchema = z.object({
+  name: z.string().min(1),
+  system_prompt: z.string().min(1),
+  tools: z.array(toolDefinitionSchema).min(1),
+}).strict();
+
+export type ToolDefinition = z.infer<typeof toolDefinitionSchema>;
+export type AgentDefinition = z.infer<typeof agentDefinitionSchema>;
+
+function resolveRefs(value: unknown, refs: Record<string, unknown>, where: string): unknown {
+  if (Array.isArray(value)) return value.map((v) => resolveRefs(v, refs, where));
+  if (!value || typeof value !== 'object') return value;
+  const obj = value as Record<string, unknown>;
+  if (typeof obj.$ref === 'string') {
+    if (!(obj.$ref in refs)) throw new Error(`${where}: unknown $ref "${obj.$ref}" (known: ${Object.keys(refs).join(', ')})`);
+    return refs[obj.$ref];
+  }
+  return Object.fromEntries(Object.entries(obj).map(([k, v]) => [k, resolveRefs(v, refs, where)]));
+}
+
+export function loadAgentDefinition(file: string, refs: Record<string, unknown> = {}): AgentDefinition {
+  if (!fs.existsSync(file)) throw new Error(`Agent definition not found: ${file}`);
+  let raw: unknown;
+  try {
+    raw = YAML.parse(fs.readFileSync(file, 'utf8'));
+  } catch (e) {
+    throw new Error(`Invalid agent definition ${file}: ${(e as Error).message}`);
+  }
+  const parsed = agentDefinitionSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+    throw new Error(`Invalid agent definition ${file}: ${issues}`);
+  }
+  const names = new Set<string>();
+  for (const tool of parsed.data.tools) {
+    if (names.has(tool.name)) throw new Error(`Invalid agent definition ${file}: duplicate tool ${tool.name}`);
+    names.add(tool.name);
+  }
+  return {
+    ...parsed.data,
+    tools: parsed.data.tools.map((t) => ({ ...t, input_schema: resolveRefs(t.input_schema, refs, `${file} ${t.name}`) as ToolDefinition['input_schema'] })),
+  };
+}
@@ -0,0 +1,186 @@
+// DOM snapshots captured at helpers.step boundaries and offline inspection of
+// them. Each element in the stored HTML carries a data-ta-node id pointing at
+// a record of its computed styles, box, visibility, attributes and text, so a
+// selector can be answered later without a browser.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { parseDocument } from 'htmlparser2';
+import { selectAll } from 'css-select';
+import type { AnyNode, Element as HtmlNode } from 'domhandler';
+import type { Page } from 'playwright';
+import { resolveRunDir, validateName, ArtifactError } from './artifacts.js';
+
+export const DOM_DIR = 'dom';
+const NODE_ATTR = 'data-ta-node';
+
+export type DomNode = {
+  node: number;
+  tag: string;
+  attributes: Record<string, string>;
+  text: string;
+  box: { x: number; y: number; width: number; height: number };
+  visible: boolean;
+  styles: Record<string, string>;
+};
+
+export type DomSnapshotMeta = {
+  name: string;
+  url: string;
+  title: string;
+  capturedAt: string;
+  truncated: boolean;
+  nodes: DomNode[];
+};
+
+export const inspectDomRequestSchema = z.object({
+  runId: z.string().min(1),
+  // Snapshot name, e.g. before_login, after_login or on_error_login
+  snapshot: z.string().min(1),
+  // CSS selector; omitted returns the accessibility tree instead
+  selector: z.string().min(1).optional(),
+  // Computed style properties to return (default: all captured)
+  properties: z.array(z.string().min(1)).optional(),
+  limit: z.number().int().positive().max(100).optional(),
+});
+
+export type InspectDomRequest = z.infer<typeof inspectDomRequestSchema>;
+
+export type InspectResult =
+  | { snapshot: string; url: string; title: string; aria: string | null }
+  | {
+      snapshot: string;
+      url: string;
+      title: string;
+      selector: string;
+      total: number;
+      truncated: boolean;
+      elements: Array<Omit<DomNode, 'node'>>;
+    };
+
+// Runs in the page. The live DOM is left untouched: node ids are written onto
+// a clone whose traversal order matches the original.
+function captureDom(maxNodes: number) {
+  const STYLE_PROPS = [
+    'display', 'visibility', 'opacity', 'position', 'top', 'right', 'bottom', 'left', 'z-index',
+    'width', 'height', 'margin', 'padding', 'border', 'box-sizing', 'overflow',
+    'flex-direction', 'justify-content', 'align-items', 'align-self', 'gap', 'grid-template-columns',
+    'float', 'text-align', 'vertical-align', 'line-height', 'font-family', 'font-size', 'font-weight',
+    'color', 'background-color', 'transform', 'pointer-events', 'cursor',
+  ];
+  const originals = [document.documentElement, ...Array.from(document.documentElement.querySelectorAll('*'))];
+  const clone = document.documentElement.cloneNode(true) as Element;
+  const clones = [clone, ...Array.from(clone.querySelectorAll('*'))];
+  const count = Math.min(originals.length, maxNodes);
+  const nodes = [];
+  for (let i = 0; i < count; i++) {
+    const el = originals[i];
+    clones[i].setAttribute('data-ta-node', String(i));
+    const r = el.getBoundingClientRect();
+    const cs = getComputedStyle(el);
+    const styles: Record<string, string> = {};
+    for (const p of STYLE_PROPS) styles[p] = cs.getPropertyValue(p);
+    const attributes: Record<string, string> = {};
+    for (const a of Array.from(el.attributes)) attributes[a.name] = a.value.slice(0, 200);
+    const visible = r.width > 0 && r.height > 0 && cs.visibility !== 'hidden' && cs.display !== 'none' && Number(cs.opacity) > 0;
+    nodes.push({
+      node: i,
+      tag: el.tagName.toLowerCase(),
+      attributes,
+      text: (el.textContent ?? '').replace(/\s+/g, ' ').trim().slice(0, 200),
+      box: { x: r.left + window.scrollX, y: r.top + window.scrollY, width: r.width, height: r.height },
+      visible,
+      styles,
+    });
+  }
+  // Scripts are inert in a snapshot and only add noise
+  for (const s of Array.from(clone.querySelectorAll('script'))) s.textContent = '';
+  return {
+    url: location.href,
+    title: document.title,
+    html: '<!DOCTYPE html>\n' + clone.outerHTML,
+    truncated: originals.length > maxNodes,
+    nodes,
+  };
+}
+
+export async function captureDomSnapshot(page: Page, artifactsDir: string, name: string, maxNodes = 3000): Promise<void> {
+  const dir = path.join(artifactsDir, DOM_DIR);
+  fs.mkdirSync(dir, { recursive: true });
+  const snap = await page.evaluate(captureDom, maxNodes);
+  const meta: DomSnapshotMeta = {
+    name,
+    url: snap.url,
+    title: snap.title,
+    capturedAt: new Date().toISOString(),
+    truncated: snap.truncated,
+    nodes: snap.nodes,
+  };
+  fs.writeFileSync(path.join(dir, `${name}.html`), snap.html);
+  fs.writeFileSync(path.join(dir, `${name}.json`), JSON.stringify(meta));
+  // Accessibility tree as Playwright's ARIA snapshot (YAML)
+  const aria = await page.locator('body').ariaSnapshot().catch(() => null);
+  if (aria !== null) fs.writeFileSync(path.join(dir, `${name}.aria.yml`), aria);
+}
+
+export function listDomSnapshots(artifactsDir: string): string[] {
+  const dir = path.join(artifactsDir, DOM_DIR);
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir).filter((f) => f.endsWith('.json')).map((f) => f.slice(0, -'.json'.length)).sort();
+}
+
+function snapshotFile(runId: string, snapshot: string, ext: string): string {
+  const dir = path.join(resolveRunDir(runId), DOM_DIR);
+  const file = path.join(dir, `${validateName(snapshot, 'snapshot name')}${ext}`);
+  if (!fs.existsSync(file)) {
+    const available = fs.existsSync(dir) ? listDomSnapshots(path.dirname(dir)).join(', ') : '';
+    throw new ArtifactError('not_found', `DOM snapshot ${snapshot} not found${available ? ` (available: ${available})` : ''}`);
+  }
+  return file;
+}
+
+// Query a stored snapshot with a CSS selector. `properties` narrows the
+// returned computed styles; `limit` caps the number of elements (default 10).
+export function inspectDom(input: unknown): InspectResult {
+  const parsed = inspectDomRequestSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new ArtifactError('invalid_argument', parsed.error.issues.map((i) => `${i.path.join('.') || 'input'}: ${i.message}`).join('; '));
+  }
+  const req = parsed.data;
+  const meta = JSON.parse(fs.readFileSync(snapshotFile(req.runId, req.snapshot, '.json'), 'utf8')) as DomSnapshotMeta;
+  if (!req.selector) {
+    const dir = path.join(resolveRunDir(req.runId), DOM_DIR);
+    const ariaFile = path.join(dir, `${req.snapshot}.aria.yml`);
+    const aria = fs.existsSync(ariaFile) ? fs.readFileSync(ariaFile, 'utf8') : null;
+    return { snapshot: req.snapshot, url: meta.url, title: meta.title, aria };
+  }
+
+  const doc = parseDocument(fs.readFileSync(snapshotFile(req.runId, req.snapshot, '.html'), 'utf8'));
+  let matches: HtmlNode[];
+  try {
+    matches = selectAll<AnyNode, HtmlNode>(req.selector, doc);
+  } catch (e) {
+    throw new ArtifactError('invalid_argument', `Invalid selector ${req.selector}: ${(e as Error).message}`);
+  }
+  const byId = new Map(meta.nodes.map((n) => [n.node, n]));
+  const elements = matches
+    .map((el) => byId.get(Number(el.attribs[NODE_ATTR])))
+    .filter((n): n is DomNode => n !== undefined)
+    .slice(0, req.limit ?? 10)
+    .map(({ node: _node, ...rest }) => ({
+      ...rest,
+      styles: req.properties?.length
+        ? Object.fromEntries(req.properties.map((p) => [p, rest.styles[p] ?? '']))
+        : rest.styles,
+    }));
+  return {
+    snapshot: req.snapshot,
+    url: meta.url,
+    title: meta.title,
+    selector: req.selector,
+    total: matches.length,
+    truncated: meta.truncated,
+    elements,
+  };
+}
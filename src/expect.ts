@@ -0,0 +1,201 @@
+// Assertion helpers for scripts (helpers.expect). Each check polls until it
+// passes or times out, and is recorded with expected vs actual. Hard
+// assertions throw; helpers.expect.soft records the failure and carries on,
+// and the run fails at the end.
+
+import type { Page, Locator } from 'playwright';
+import { maskJson, type Masker } from './secrets.js';
+
+export type AssertionResult = {
+  type: 'assertion';
+  assertion: 'visible' | 'text' | 'url' | 'count' | 'css' | 'noConsoleErrors' | 'request';
+  // Selector or locator description the assertion was made against
+  target?: string;
+  expected: unknown;
+  actual: unknown;
+  passed: boolean;
+  soft: boolean;
+  step?: string;
+  message?: string;
+  time: number;
+  durationMs: number;
+};
+
+export type ExpectTarget = string | Locator;
+
+export type ExpectOptions = {
+  // How long to keep retrying before failing (default 5000)
+  timeoutMs?: number;
+};
+
+export type Expect = {
+  visible(target: ExpectTarget, opts?: ExpectOptions): Promise<void>;
+  // Whitespace-normalized text of the first match equals `expected`, or matches it
+  text(target: ExpectTarget, expected: string | RegExp, opts?: ExpectOptions): Promise<void>;
+  url(expected: string | RegExp, opts?: ExpectOptions): Promise<void>;
+  count(target: ExpectTarget, expected: number, opts?: ExpectOptions): Promise<void>;
+  css(target: ExpectTarget, property: string, expected: string | RegExp, opts?: ExpectOptions): Promise<void>;
+  // No console errors or uncaught page exceptions so far
+  noConsoleErrors(): Promise<void>;
+  // A response was received for a URL matching `url` (substring or pattern)
+  request(url: string | RegExp, opts?: ExpectOptions & { status?: number; method?: string }): Promise<void>;
+};
+
+export type Expectations = Expect & { soft: Expect };
+
+export type ExpectContext = {
+  criticalErrors: string[];
+  currentStep: () => string | undefined;
+  record: (result: AssertionResult) => void;
+  // Hides secret values in recorded expected/actual values and messages
+  mask?: Masker;
+  // Signal of the step the assertion runs in; polling stops once it aborts
+  signal?: () => AbortSignal | undefined;
+};
+
+// Thrown by hard assertions; categorized as an 'assertion' failure
+export class AssertionFailedError extends Error {
+  constructor(message: string, public readonly result: AssertionResult) {
+    super(message);
+    this.name = 'AssertionError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const POLL_INTERVAL_MS = 100;
+
+type SeenResponse = { url: string; method: string; status: number };
+
+function matches(value: string | null, expected: string | RegExp): boolean {
+  if (value === null) return false;
+  return typeof expected === 'string' ? value === expected : expected.test(value);
+}
+
+function show(value: unknown): unknown {
+  return value instanceof RegExp ? String(value) : value;
+}
+
+// Resolve after `ms`, or reject with the signal's reason once it aborts
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+async function poll<T>(
+  read: () => Promise<T>,
+  ok: (v: T) => boolean,
+  timeoutMs: number,
+  signal: AbortSignal | undefined,
+): Promise<{ actual: T | null; passed: boolean }> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    signal?.throwIfAborted();
+    let actual: T | null = null;
+    try {
+      actual = await read();
+      if (ok(actual)) return { actual, passed: true };
+    } catch {
+      // element detached mid-read and the like: retry
+    }
+    signal?.throwIfAborted();
+    if (Date.now() >= deadline) return { actual, passed: false };
+    await sleep(POLL_INTERVAL_MS, signal);
+  }
+}
+
+export function createExpect(page: Page, ctx: ExpectContext): Expectations {
+  const mask = ctx.mask ?? ((text: string) => text);
+  const responses: SeenResponse[] = [];
+  page.on('response', (resp) => {
+    responses.push({ url: resp.url(), method: resp.request().method(), status: resp.status() });
+  });
+
+  const locate = (target: ExpectTarget) => (typeof target === 'string' ? page.locator(target) : target);
+  const describe = (target: ExpectTarget) => (typeof target === 'string' ? target : String(target));
+  const textOf = async (loc: Locator) =>
+    (await loc.count()) === 0 ? null : ((await loc.first().textContent()) ?? '').replace(/\s+/g, ' ').trim();
+
+  const build = (soft: boolean): Expect => {
+    // Poll `read` until `ok`, record the outcome and throw unless soft
+    const check = async <T>(
+      assertion: AssertionResult['assertion'],
+      target: string | undefined,
+      expected: unknown,
+      read: () => Promise<T>,
+      ok: (v: T) => boolean,
+      timeoutMs: number,
+    ) => {
+      const time = Date.now();
+      // An aborted step rejects with its reason; nothing is recorded
+      const { actual, passed } = await poll(read, ok, timeoutMs, ctx.signal?.());
+      const step = ctx.currentStep();
+      const result: AssertionResult = {
+        type: 'assertion',
+        assertion,
+        ...(target !== undefined ? { target: mask(target) } : {}),
+        expected: maskJson(show(expected), mask),
+        actual: maskJson(actual, mask),
+        passed,
+        soft,
+        ...(step ? { step } : {}),
+        time,
+        durationMs: Date.now() - time,
+      };
+      if (!passed) {
+        result.message = `expect.${assertion}(${result.target ?? ''}): expected ${JSON.stringify(result.expected)}, got ${JSON.stringify(result.actual)}`;
+      }
+      ctx.record(result);
+      if (!passed && !soft) throw new AssertionFailedError(result.message!, result);
+    };
+
+    return {
+      visible: (target, opts = {}) =>
+        check('visible', describe(target), true, () => locate(target).first().isVisible(), (v) => v, opts.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      text: (target, expected, opts = {}) =>
+        check('text', describe(target), expected, () => textOf(locate(target)), (v) => matches(v, expected), opts.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      url: (expected, opts = {}) =>
+        check('url', undefined, expected, async () => page.url(), (v) => matches(v, expected), opts.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      count: (target, expected, opts = {}) =>
+        check('count', describe(target), expected, () => locate(target).count(), (v) => v === expected, opts.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      css: (target, property, expected, opts = {}) =>
+        check(
+          'css',
+          `${describe(target)} ${property}`,
+          expected,
+          async () => {
+            const loc = locate(target);
+            if ((await loc.count()) === 0) return null;
+            return loc.first().evaluate((el, p) => getComputedStyle(el).getPropertyValue(p), property);
+          },
+          (v) => matches(v, expected),
+          opts.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+        ),
+      noConsoleErrors: () =>
+        check('noConsoleErrors', undefined, [], async () => [...ctx.criticalErrors], (v) => v.length === 0, 0),
+      request: (url, opts = {}) => {
+        const expected = { url: show(url), ...(opts.method ? { method: opts.method } : {}), ...(opts.status !== undefined ? { status: opts.status } : {}) };
+        const urlMatches = (u: string) => (typeof url === 'string' ? u.includes(url) : url.test(u));
+        return check(
+          'request',
+          undefined,
+          expected,
+          // Actual: every response to a matching URL, so a wrong status is visible
+          async () => responses.filter((r) => urlMatches(r.url) && (!opts.method || r.method.toUpperCase() === opts.method.toUpperCase())),
+          (seen) => seen.some((r) => opts.status === undefined || r.status === opts.status),
+          opts.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+        );
+      },
+    };
+  };
+
+  return Object.assign(build(false), { soft: build(true) });
+}
@@ -0,0 +1,56 @@
+// Turn whatever a run threw into a structured RunFailure: a category the
+// assistant can branch on, the (source-mapped) stack and the failing step.
+
+import path from 'node:path';
+import type { FailureCategory, RunFailure } from './manifest.js';
+import { ScriptLoadError, mapScriptStack } from './script.js';
+
+export type FailureContext = {
+  scriptPath: string;
+  artifactsDir: string;
+  // Innermost helpers.step that threw, if any
+  step?: string;
+  // The page emitted 'crash' during the run
+  crashed?: boolean;
+};
+
+const BROWSER_GONE = /Target (page, context or browser )?(has been )?closed|Target crashed|Page crashed|Browser has been closed|browser has disconnected|browserType\.launch/i;
+const NAVIGATION = /net::ERR_|NS_ERROR_|NS_BINDING_|\b(page|frame)\.(goto|reload|goBack|goForward|waitForURL):|Navigation (failed|to .* is interrupted)/;
+
+export function categorizeError(err: unknown, crashed = false): FailureCategory {
+  if (err instanceof ScriptLoadError) return err.category;
+  const e = (err ?? {}) as { name?: string; message?: string; code?: string };
+  const message = String(e.message ?? err);
+  if (e.name === 'AbortError') return 'cancelled';
+  if (crashed || BROWSER_GONE.test(message)) return 'browser-crash';
+  if (e.name === 'TimeoutError' || /Timeout \d+ms exceeded/.test(message)) return 'timeout';
+  if (e.name === 'AssertionError' || e.code === 'ERR_ASSERTION' || /^expect\(/.test(message)) return 'assertion';
+  if (NAVIGATION.test(message)) return 'navigation';
+  return 'error';
+}
+
+// First stack frame inside the user script
+function scriptLocation(stack: string, scriptPath: string): RunFailure['location'] {
+  const target = path.resolve(scriptPath);
+  const frame = /(?:file:\/\/)?([^\s()]+):(\d+):(\d+)/g;
+  for (const m of stack.matchAll(frame)) {
+    if (path.resolve(m[1]) === target) return { file: target, line: Number(m[2]), column: Number(m[3]) };
+  }
+  return undefined;
+}
+
+export function describeFailure(err: unknown, ctx: FailureContext): RunFailure {
+  // Import errors are wrapped; the original carries the useful stack
+  const origin = err instanceof ScriptLoadError && err.cause instanceof Error ? err.cause : err;
+  const message = err instanceof Error ? err.message : String(err);
+  const rawStack = origin instanceof Error ? origin.stack : undefined;
+  const stack = rawStack ? mapScriptStack(rawStack, ctx.artifactsDir) : undefined;
+  const location = stack ? scriptLocation(stack, ctx.scriptPath) : undefined;
+  return {
+    category: categorizeError(err, ctx.crashed),
+    message,
+    ...(stack ? { stack } : {}),
+    ...(ctx.step ? { step: ctx.step } : {}),
+    ...(location ? { location } : {}),
+  };
+}
@@ -1,36 +1,281 @@
 #!/usr/bin/env ts-node
+import fs from 'node:fs';
+import path from 'node:path';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
 import { runTest } from './tools.js';
 import type { Argv } from 'yargs';
-import { startAgentServer, startAgentWithTest } from './agent.js';
+import { startAgentServer, startAgentWithTest, applyRetention } from './agent.js';
+import { runSuite } from './suite.js';
+import { parseViewport, type RunOptions } from './options.js';
+import { listRuns, pruneRuns, formatRunsTable, flakeRates, formatFlakeTable } from './runs.js';
+import type { RunStatus } from './manifest.js';
+import { approveBaseline } from './visual.js';
+import { generateReport, reportFormats } from './report.js';
+import { setupAuthProfile, listAuthProfiles, deleteAuthProfile } from './auth.js';
+import { a11yImpacts, formatA11yCounts } from './a11y.js';
+import { getMetrics, formatRegressions, formatMetricsTable } from './metrics.js';
+import { loadConfig, getConfig, runsDir } from './config.js';
+
+type RunOptionArgs = {
+  headless?: boolean;
+  browser?: string;
+  viewport?: string;
+  device?: string;
+  locale?: string;
+  timezone?: string;
+  colorScheme?: string;
+  baseUrl?: string;
+  captureBodies?: boolean;
+  recordHar?: boolean;
+  replayFrom?: string;
+  timeout?: number;
+  stepTimeout?: number;
+  retries?: number;
+  authProfile?: string;
+  a11y?: boolean;
+  a11yFailOn?: string;
+};
+
+// Browser/context flags shared by every command that launches a run
+function withRunOptions<T>(y: Argv<T>) {
+  return y
+    .option('headless', { type: 'boolean', describe: 'Run headless (default: headed unless CI or no display)' })
+    .option('browser', { type: 'string', choices: ['chromium', 'firefox', 'webkit'], describe: 'Browser engine' })
+    .option('viewport', { type: 'string', describe: 'Viewport as WIDTHxHEIGHT, e.g. 1280x720' })
+    .option('device', { type: 'string', describe: 'Playwright device profile, e.g. "iPhone 13"' })
+    .option('locale', { type: 'string', describe: 'Locale, e.g. en-GB' })
+    .option('timezone', { type: 'string', describe: 'Timezone id, e.g. Europe/London' })
+    .option('color-scheme', { type: 'string', choices: ['light', 'dark', 'no-preference'], describe: 'Preferred color scheme' })
+    .option('base-url', { type: 'string', describe: 'Base URL for relative page.goto() calls' })
+    .option('capture-bodies', { type: 'boolean', describe: 'Store XHR/fetch response bodies in network.log' })
+    .option('record-har', { type: 'boolean', describe: 'Record network.har for later replay' })
+    .option('replay-from', { type: 'string', describe: 'Serve all requests from the HAR of this run id' })
+    .option('timeout', { type: 'number', describe: 'Fail the run after this many milliseconds (default 300000)' })
+    .option('step-timeout', { type: 'number', describe: 'Default timeout in milliseconds for each helpers.step' })
+    .option('retries', { type: 'number', describe: 'Rerun a failed script up to N times; pass-after-fail is FLAKY' })
+    .option('auth-profile', { type: 'string', describe: 'Start from the saved login of this auth profile' })
+    .option('a11y', { type: 'boolean', describe: 'Audit accessibility at the start and end of every helpers.step' })
+    .option('a11y-fail-on', { type: 'string', choices: [...a11yImpacts], describe: 'Fail the run on accessibility violations of this impact or worse (implies --a11y)' });
+}
+
+function toRunOptions(args: RunOptionArgs): RunOptions {
+  return {
+    headless: args.headless,
+    browser: args.browser as RunOptions['browser'],
+    viewport: args.viewport ? parseViewport(args.viewport) : undefined,
+    device: args.device,
+    locale: args.locale,
+    timezoneId: args.timezone,
+    colorScheme: args.colorScheme as RunOptions['colorScheme'],
+    baseURL: args.baseUrl,
+    captureResponseBodies: args.captureBodies,
+    recordHar: args.recordHar,
+    replayFrom: args.replayFrom,
+    timeoutMs: args.timeout,
+    stepTimeoutMs: args.stepTimeout,
+    retries: args.retries,
+    authProfile: args.authProfile,
+    a11y: args.a11y,
+    a11yFailOn: args.a11yFailOn as RunOptions['a11yFailOn'],
+  };
+}
 
 async function main() {
   await yargs(hideBin(process.argv))
+    // Config file, environment and the flags overriding them, for every command
+    .option('config', { type: 'string', describe: 'Config file (default: testing-agent.config.{ts,js,mjs,json})' })
+    .option('env', { type: 'string', describe: 'Named environment from the config file, e.g. staging' })
+    .option('runs-dir', { type: 'string', describe: 'Directory runs are recorded in (default: runs)' })
+    .option('model', { type: 'string', describe: 'Claude model used for the diagnosis' })
+    .middleware(async (args) => {
+      await loadConfig({
+        file: args.config as string | undefined,
+        environment: args.env as string | undefined,
+        runsDir: args.runsDir as string | undefined,
+        model: args.model as string | undefined,
+      });
+    })
     .command('test <script>', 'Run a Playwright test script with the Testing Agent', (y: Argv) =>
-      y.positional('script', { type: 'string', demandOption: true, describe: 'Path to test script exporting default async (page, context, helpers)' })
-    , async (args: { script: string }) => {
+      withRunOptions(y.positional('script', { type: 'string', demandOption: true, describe: 'Path to test script exporting default async (page, context, helpers)' }))
+    , async (args: { script: string } & RunOptionArgs) => {
       const scriptPath = String(args.script);
-      const result = await runTest(scriptPath);
+      const result = await runTest(scriptPath, toRunOptions(args));
       // TODO: Wire Claude Code SDK session here: post summary to conversation
       console.log(`[${result.status}] Run completed. Artifacts: ${result.artifactsDir}`);
+      if (result.attempts) {
+        console.log(`Attempts: ${result.attempts.map((a) => `${a.runId} ${a.status}`).join(', ')}`);
+      }
+      if (result.failure) {
+        const { category, step, location, message } = result.failure;
+        const where = location ? ` at ${location.file}:${location.line}:${location.column}` : '';
+        console.log(`Failure (${category})${step ? ` in step "${step}"` : ''}${where}: ${message}`);
+      }
       if (result.criticalErrors.length) {
         console.log('Critical console errors detected:');
         for (const err of result.criticalErrors) console.log(err);
       }
+      for (const d of result.visualDiffs.filter((v) => !v.passed)) {
+        console.log(`Visual diff over threshold: ${d.name} ${d.mismatchPercent}% (diff: ${d.diff})`);
+      }
+      if (result.perfRegressions?.length) {
+        console.log('Performance regressions:');
+        for (const line of formatRegressions(result.perfRegressions)) console.log(`  ${line}`);
+      }
+      if (result.a11y) console.log(`Accessibility: ${formatA11yCounts(result.a11y)} across ${result.a11y.audits} audit(s)`);
     })
+    .command(
+      'test-suite <pattern>',
+      'Run every script matching a directory or glob. Options: --workers <number>',
+      (y: Argv) =>
+        withRunOptions(
+          y.positional('pattern', { type: 'string', demandOption: true, describe: 'Directory or glob of test scripts' })
+           .option('workers', { type: 'number', default: 2, describe: 'Scripts to run in parallel' })
+        ),
+      async (args: { pattern: string; workers?: number } & RunOptionArgs) => {
+        const suite = await runSuite(String(args.pattern), { workers: args.workers, run: toRunOptions(args) });
+        for (const run of suite.runs) {
+          const where = run.runId ? path.join(runsDir(), run.runId) : run.error;
+          console.log(`[${run.status}] ${run.scriptPath} (${run.durationMs}ms) ${where}`);
+        }
+        console.log(`[${suite.status}] ${suite.passed}/${suite.total} passed${suite.flaky ? ` (${suite.flaky} flaky)` : ''}. Summary: ${suite.suiteDir}/suite.json`);
+        if (suite.status === 'FAIL') process.exitCode = 1;
+      }
+    )
+    .command(
+      'runs',
+      'List past runs. Options: --status, --script, --from, --to, --limit, --flake-rates; prune with --keep-last / --max-age-days',
+      (y: Argv) =>
+        y.option('status', { type: 'string', choices: ['PASS', 'FAIL', 'FLAKY'], describe: 'Only runs with this status' })
+         .option('script', { type: 'string', describe: 'Substring of the script path' })
+         .option('from', { type: 'string', describe: 'Only runs started at or after this ISO date' })
+         .option('to', { type: 'string', describe: 'Only runs started at or before this ISO date' })
+         .option('offset', { type: 'number', default: 0, describe: 'Skip this many runs' })
+         .option('limit', { type: 'number', default: 20, describe: 'Maximum runs to show' })
+         .option('keep-last', { type: 'number', describe: 'Prune: keep the newest N runs' })
+         .option('max-age-days', { type: 'number', describe: 'Prune: keep runs newer than this many days' })
+         .option('keep-failures', { type: 'boolean', default: true, describe: 'Prune: never delete failed runs' })
+         .option('flake-rates', { type: 'boolean', describe: 'Show per-script flake rates instead of the run list' }),
+      (args: { status?: string; script?: string; from?: string; to?: string; offset?: number; limit?: number; keepLast?: number; maxAgeDays?: number; keepFailures?: boolean; flakeRates?: boolean }) => {
+        if (args.keepLast !== undefined || args.maxAgeDays !== undefined) {
+          const deleted = pruneRuns({ keepLast: args.keepLast, maxAgeDays: args.maxAgeDays, keepFailures: args.keepFailures });
+          console.log(`Pruned ${deleted.length} run(s)${deleted.length ? `: ${deleted.join(', ')}` : ''}`);
+        }
+        if (args.flakeRates) {
+          console.log(formatFlakeTable(flakeRates({ script: args.script, from: args.from, to: args.to })));
+          return;
+        }
+        const page = listRuns({
+          status: args.status as RunStatus | undefined,
+          script: args.script,
+          from: args.from,
+          to: args.to,
+          offset: args.offset,
+          limit: args.limit,
+        });
+        console.log(formatRunsTable(page.runs));
+        console.log(`\nShowing ${page.runs.length} of ${page.total} run(s)`);
+      }
+    )
+    .command(
+      'approve <runId>',
+      'Approve a run\'s screenshots as the visual baseline for its script. Options: --name <screenshot> (repeatable)',
+      (y: Argv) =>
+        y.positional('runId', { type: 'string', demandOption: true, describe: 'Run whose screenshots become the baseline' })
+         .option('name', { type: 'string', array: true, describe: 'Only approve these screenshots (basename without .png)' }),
+      (args: { runId: string; name?: string[] }) => {
+        const { dir, approved } = approveBaseline(String(args.runId), args.name);
+        console.log(`Approved ${approved.length} screenshot(s) into ${dir}`);
+      }
+    )
+    .command(
+      'report <runId>',
+      'Write a report for a run or suite. Options: --format junit|json|markdown|html, --out <file>, --no-embed',
+      (y: Argv) =>
+        y.positional('runId', { type: 'string', demandOption: true, describe: 'Run id or suite id' })
+         .option('format', { type: 'string', choices: [...reportFormats], default: 'markdown', describe: 'Report format' })
+         .option('out', { type: 'string', describe: 'Write to this file instead of stdout' })
+         .option('embed', { type: 'boolean', default: true, describe: 'Embed step screenshots (markdown and html)' }),
+      (args: { runId: string; format?: string; out?: string; embed?: boolean }) => {
+        const report = generateReport({ runId: String(args.runId), format: args.format, embedScreenshots: args.embed });
+        if (args.out) {
+          fs.writeFileSync(args.out, report.body);
+          console.log(`Wrote ${args.format} report to ${args.out}`);
+        } else {
+          process.stdout.write(report.body);
+        }
+      }
+    )
+    .command(
+      'metrics <runId>',
+      'Show per-step performance metrics and regressions. Options: --step, --against <runId>, --budget <percent>, --json',
+      (y: Argv) =>
+        y.positional('runId', { type: 'string', demandOption: true, describe: 'Run id' })
+         .option('step', { type: 'string', describe: 'Only this step' })
+         .option('against', { type: 'string', describe: 'Compare against this run instead of recent passing runs' })
+         .option('budget', { type: 'number', describe: 'Regression budget in percent (default: the run\'s, 20)' })
+         .option('json', { type: 'boolean', describe: 'Print metrics.json' }),
+      (args: { runId: string; step?: string; against?: string; budget?: number; json?: boolean }) => {
+        const metrics = getMetrics({ runId: String(args.runId), step: args.step, against: args.against, budgetPercent: args.budget });
+        if (args.json) {
+          console.log(JSON.stringify(metrics, null, 2));
+          return;
+        }
+        console.log(formatMetricsTable(metrics.steps));
+        const against = metrics.baselineRunIds.length ? metrics.baselineRunIds.join(', ') : 'no previous passing runs';
+        console.log(`\nBaseline: ${against}; budget ${metrics.budgetPercent}%`);
+        if (metrics.regressions.length === 0) console.log('No regressions');
+        for (const line of formatRegressions(metrics.regressions)) console.log(`Regression: ${line}`);
+      }
+    )
+    .command(
+      'auth [name] [script]',
+      'Manage auth profiles. With a setup script: create/update the profile and log in; name only: log in again; no name: list. Options: --ttl <minutes>, --delete',
+      (y: Argv) =>
+        withRunOptions(
+          y.positional('name', { type: 'string', describe: 'Profile name' })
+           .positional('script', { type: 'string', describe: 'Setup script that logs in; its final storage state is saved' })
+           .option('ttl', { type: 'number', describe: 'Log in again when the saved state is older than this many minutes (default 720)' })
+           .option('delete', { type: 'boolean', describe: 'Delete the profile' })
+        ),
+      async (args: { name?: string; script?: string; ttl?: number; delete?: boolean } & RunOptionArgs) => {
+        if (!args.name) {
+          for (const p of listAuthProfiles()) {
+            console.log(`${p.name}\t${p.stale ? 'stale' : 'fresh'}\t${p.updatedAt ?? 'never'}\t${p.setupScript}`);
+          }
+          return;
+        }
+        if (args.delete) {
+          deleteAuthProfile(args.name);
+          console.log(`Deleted auth profile ${args.name}`);
+          return;
+        }
+        const { authProfile: _ignored, ...options } = toRunOptions(args);
+        const profile = await setupAuthProfile(args.name, {
+          setupScript: args.script,
+          ttlMs: args.ttl !== undefined ? args.ttl * 60 * 1000 : undefined,
+          // Keep the stored options unless new ones were given
+          options: Object.values(options).some((v) => v !== undefined) ? options : undefined,
+        });
+        console.log(`Saved auth profile ${profile.name} (setup run ${profile.lastSetupRunId})`);
+      }
+    )
     .command(
       'agent',
-      'Start agent HTTP runtime. Options: --port <number> [--script <path> to run immediately]',
+      'Start agent HTTP runtime. Options: --port <number> --host <address> [--script <path> to run immediately]. Runs are queued; set JOB_CONCURRENCY to run more than one at a time.',
       (y: Argv) =>
-        y.option('port', { type: 'number', default: 4317, describe: 'Port to listen on' })
-         .option('script', { type: 'string', describe: 'Optional script to run on startup' }),
-      async (args: { port?: number; script?: string }) => {
-        const port = Number(args.port ?? 4317);
-        startAgentServer(port);
+        withRunOptions(
+          y.option('port', { type: 'number', describe: 'Port to listen on (default: config port or 4317)' })
+           .option('host', { type: 'string', describe: 'Interface to bind (default: 127.0.0.1; others require TESTING_AGENT_TOKEN)' })
+           .option('script', { type: 'string', describe: 'Optional script to run on startup' })
+        ),
+      async (args: { port?: number; host?: string; script?: string } & RunOptionArgs) => {
+        const port = Number(args.port ?? getConfig().port);
+        startAgentServer(port, args.host ?? getConfig().host);
         if (args.script) {
           try {
-            await startAgentWithTest(String(args.script));
+            await startAgentWithTest(String(args.script), toRunOptions(args));
+            applyRetention();
           } catch (e) {
             console.error(e);
           }
@@ -0,0 +1,201 @@
+// Action recording for the page handed to user scripts. Page and locator
+// methods are wrapped in proxies so every click, fill, navigation and wait is
+// logged to actions.json with its selector, arguments, duration and outcome.
+
+import type { Page, Locator, Dialog, Frame } from 'playwright';
+
+export type InstrumentedAction =
+  | {
+      type: 'action' | 'goto' | 'wait';
+      method: string;
+      selector?: string;
+      args: unknown[];
+      time: number;
+      durationMs: number;
+      outcome: 'ok' | 'error';
+      error?: string;
+    }
+  | { type: 'navigated'; url: string; time: number }
+  | { type: 'dialog'; dialogType: string; message: string; time: number };
+
+const ACTION_METHODS = new Set([
+  'click', 'dblclick', 'tap', 'hover', 'focus', 'blur', 'fill', 'clear', 'type', 'pressSequentially',
+  'press', 'selectOption', 'check', 'uncheck', 'setChecked', 'setInputFiles', 'dragTo', 'dragAndDrop',
+]);
+const GOTO_METHODS = new Set(['goto', 'reload', 'goBack', 'goForward']);
+const WAIT_METHODS = new Set([
+  'waitFor', 'waitForSelector', 'waitForURL', 'waitForLoadState', 'waitForTimeout',
+  'waitForFunction', 'waitForResponse', 'waitForRequest', 'waitForEvent',
+]);
+// Methods returning a Locator, whose result is wrapped so chains stay recorded
+const LOCATOR_FACTORIES = new Set([
+  'locator', 'getByRole', 'getByText', 'getByLabel', 'getByPlaceholder', 'getByAltText',
+  'getByTitle', 'getByTestId', 'first', 'last', 'nth', 'filter', 'and', 'or',
+]);
+// Methods whose text argument is typed into the page and may be a secret
+const TEXT_INPUT_METHODS = new Set(['fill', 'type', 'pressSequentially']);
+
+const SECRET_HINT = /pass(word|wd|code)?|secret|token|api[-_]?key|otp|\bpin\b|credential|card|cvv|ssn/i;
+const SECRET_QUERY_KEYS = /^(access_?token|token|key|api_?key|secret|password|code|sig|signature|auth)$/i;
+const MAX_ARG_LENGTH = 200;
+
+export const MASK = '***';
+
+function maskUrl(value: string): string {
+  try {
+    const url = new URL(value);
+    let changed = false;
+    for (const key of Array.from(url.searchParams.keys())) {
+      if (SECRET_QUERY_KEYS.test(key)) {
+        url.searchParams.set(key, MASK);
+        changed = true;
+      }
+    }
+    if (url.password) {
+      url.password = MASK;
+      changed = true;
+    }
+    return changed ? url.toString() : value;
+  } catch {
+    return value;
+  }
+}
+
+function serializeArg(value: unknown, depth = 0): unknown {
+  if (value === null || value === undefined) return value ?? null;
+  if (typeof value === 'string') return value.length > MAX_ARG_LENGTH ? `${value.slice(0, MAX_ARG_LENGTH)}…` : value;
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  if (typeof value === 'function') return '[function]';
+  if (value instanceof RegExp) return String(value);
+  if (Array.isArray(value)) return depth > 2 ? '[array]' : value.map((v) => serializeArg(v, depth + 1));
+  if (typeof value === 'object') {
+    if (depth > 2) return '[object]';
+    // Locators passed as arguments (e.g. dragTo) are recorded by their description
+    if ((value as object).toString !== Object.prototype.toString) return String(value);
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) out[k] = serializeArg(v, depth + 1);
+    return out;
+  }
+  return String(value);
+}
+
+// Mask text typed into secret-looking fields and secret-looking URL parameters
+export function maskArgs(method: string, selector: string | undefined, args: unknown[]): unknown[] {
+  const secretField = selector !== undefined && SECRET_HINT.test(selector);
+  return args.map((arg, i) => {
+    if (typeof arg === 'string') {
+      if (TEXT_INPUT_METHODS.has(method) && secretField && i === 0) return MASK;
+      if (GOTO_METHODS.has(method) || method === 'waitForURL') return serializeArg(maskUrl(arg));
+    }
+    return serializeArg(arg);
+  });
+}
+
+function categorize(method: string): 'action' | 'goto' | 'wait' | null {
+  if (ACTION_METHODS.has(method)) return 'action';
+  if (GOTO_METHODS.has(method)) return 'goto';
+  if (WAIT_METHODS.has(method)) return 'wait';
+  return null;
+}
+
+type RecordFn = (a: InstrumentedAction) => void;
+
+// Signal of the code making a call (its helpers.step). Once it aborts, that
+// code's calls reject instead of acting on the page, and calls it is still
+// awaiting reject at once; the browser-side operation is left to time out.
+export type CallSignal = () => AbortSignal | undefined;
+
+function abortable<T>(work: Promise<T>, signal: AbortSignal): Promise<T> {
+  let onAbort: (() => void) | undefined;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+  return Promise.race([work, aborted]).finally(() => signal.removeEventListener('abort', onAbort!));
+}
+
+function recordCall<T>(
+  record: RecordFn,
+  signal: AbortSignal | undefined,
+  type: 'action' | 'goto' | 'wait',
+  method: string,
+  selector: string | undefined,
+  args: unknown[],
+  call: () => T,
+): T {
+  const time = Date.now();
+  const entry = { type, method, selector, args: maskArgs(method, selector, args), time };
+  const done = (outcome: 'ok' | 'error', error?: unknown) =>
+    record({ ...entry, durationMs: Date.now() - time, outcome, ...(error !== undefined ? { error: String(error) } : {}) });
+  let result: T;
+  try {
+    signal?.throwIfAborted();
+    result = call();
+  } catch (e) {
+    done('error', e);
+    throw e;
+  }
+  if (result instanceof Promise) {
+    return (signal ? abortable(result, signal) : result).then(
+      (v) => { done('ok'); return v; },
+      (e) => { done('error', e); throw e; },
+    ) as T;
+  }
+  done('ok');
+  return result;
+}
+
+function instrumentLocator(locator: Locator, record: RecordFn, callSignal?: CallSignal): Locator {
+  const selector = String(locator);
+  return new Proxy(locator, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      if (typeof prop !== 'string' || typeof value !== 'function') return value;
+      const type = categorize(prop);
+      if (type) {
+        return (...args: unknown[]) => recordCall(record, callSignal?.(), type, prop, selector, args, () => value.apply(target, args));
+      }
+      if (LOCATOR_FACTORIES.has(prop)) {
+        return (...args: unknown[]) => instrumentLocator(value.apply(target, args) as Locator, record, callSignal);
+      }
+      return value.bind(target);
+    },
+  });
+}
+
+// Wrap `page` so calls made by the user script are recorded. Navigations and
+// dialogs are observed via events; dialogs nobody else handles are dismissed.
+export function instrumentPage(page: Page, record: RecordFn, callSignal?: CallSignal): Page {
+  page.on('framenavigated', (frame: Frame) => {
+    if (frame === page.mainFrame()) record({ type: 'navigated', url: maskUrl(frame.url()), time: Date.now() });
+  });
+  page.on('dialog', (dialog: Dialog) => {
+    record({ type: 'dialog', dialogType: dialog.type(), message: dialog.message(), time: Date.now() });
+    // Attaching a listener disables Playwright's auto-dismiss, so restore it
+    // unless the script registered its own handler
+    setTimeout(() => {
+      const listeners = (page as unknown as { listenerCount(event: string): number }).listenerCount('dialog');
+      if (listeners <= 1) dialog.dismiss().catch(() => { /* already handled */ });
+    }, 0);
+  });
+
+  return new Proxy(page, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      if (typeof prop !== 'string' || typeof value !== 'function') return value;
+      const type = categorize(prop);
+      if (type) {
+        return (...args: unknown[]) => {
+          // Page-level actions take the selector as their first argument
+          const selector = type === 'action' || prop === 'waitForSelector' ? String(args[0]) : undefined;
+          const rest = selector !== undefined ? args.slice(1) : args;
+          return recordCall(record, callSignal?.(), type, prop, selector, rest, () => value.apply(target, args));
+        };
+      }
+      if (LOCATOR_FACTORIES.has(prop)) {
+        return (...args: unknown[]) => instrumentLocator(value.apply(target, args) as Locator, record, callSignal);
+      }
+      return value.bind(target);
+    },
+  });
+}
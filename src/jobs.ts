@@ -0,0 +1,202 @@
+// In-process job queue for every run and suite the agent starts over HTTP or
+// MCP (/run-test, /run-suite, run_test and run_suite wait for their job;
+// POST /runs and start_run return it). At most JOB_CONCURRENCY jobs
+// (default 1) run at a time; the rest wait in FIFO order. Each job keeps its
+// progress events so late subscribers can replay them.
+
+import { EventEmitter } from 'node:events';
+import crypto from 'node:crypto';
+import type { RunEvent } from './tools.js';
+
+export type JobState = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export type JobEvent =
+  | RunEvent
+  | { type: 'job:state'; state: JobState; time: number };
+
+export type JobInfo = {
+  jobId: string;
+  // What the job runs, e.g. the script path
+  label: string;
+  state: JobState;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  // Run ids of the attempts started so far
+  runIds: string[];
+  result?: unknown;
+  error?: string;
+};
+
+export type JobContext = {
+  signal: AbortSignal;
+  emit: (event: RunEvent) => void;
+};
+
+type Job = JobInfo & {
+  work: (ctx: JobContext) => Promise<unknown>;
+  controller: AbortController;
+  events: JobEvent[];
+  emitter: EventEmitter;
+  done: Promise<void>;
+  resolveDone: () => void;
+};
+
+const MAX_FINISHED_JOBS = 200;
+const MAX_EVENTS_PER_JOB = 2000;
+
+const jobs = new Map<string, Job>();
+const queue: Job[] = [];
+let running = 0;
+
+export function jobConcurrency(): number {
+  const n = Number(process.env.JOB_CONCURRENCY);
+  return Number.isInteger(n) && n > 0 ? n : 1;
+}
+
+function info(job: Job): JobInfo {
+  const { jobId, label, state, createdAt, startedAt, finishedAt, runIds, result, error } = job;
+  return {
+    jobId, label, state, createdAt, startedAt, finishedAt, runIds,
+    ...(result !== undefined ? { result } : {}),
+    ...(error !== undefined ? { error } : {}),
+  };
+}
+
+function record(job: Job, event: JobEvent): void {
+  if (job.events.length < MAX_EVENTS_PER_JOB) job.events.push(event);
+  job.emitter.emit('event', event);
+}
+
+function setState(job: Job, state: JobState): void {
+  job.state = state;
+  record(job, { type: 'job:state', state, time: Date.now() });
+  if (state !== 'queued' && state !== 'running') {
+    job.finishedAt = new Date().toISOString();
+    job.resolveDone();
+    job.emitter.emit('done');
+    evictFinished();
+  }
+}
+
+// Forget the oldest finished jobs beyond MAX_FINISHED_JOBS
+function evictFinished(): void {
+  const finished = Array.from(jobs.values()).filter((j) => j.finishedAt !== null);
+  for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) jobs.delete(job.jobId);
+}
+
+function pump(): void {
+  while (running < jobConcurrency() && queue.length > 0) {
+    const job = queue.shift()!;
+    running++;
+    job.startedAt = new Date().toISOString();
+    setState(job, 'running');
+    const emit = (event: RunEvent) => {
+      if (event.type === 'run:start') job.runIds.push(event.runId);
+      record(job, event);
+    };
+    job.work({ signal: job.controller.signal, emit })
+      .then((result) => {
+        job.result = result;
+        setState(job, job.controller.signal.aborted ? 'cancelled' : 'succeeded');
+      })
+      .catch((e) => {
+        job.error = String(e);
+        setState(job, job.controller.signal.aborted ? 'cancelled' : 'failed');
+      })
+      .finally(() => {
+        running--;
+        pump();
+      });
+  }
+}
+
+// One-line description of an event, used for MCP progress messages
+export function describeJobEvent(event: JobEvent): string {
+  switch (event.type) {
+    case 'job:state': return `job ${event.state}`;
+    case 'run:start': return `run ${event.runId} started${event.attempt ? ` (attempt ${event.attempt})` : ''}`;
+    case 'run:end': return `run ${event.runId} ${event.status}`;
+    case 'step:start': return `step "${event.name}" started`;
+    case 'step:end': return `step "${event.name}" passed`;
+    case 'step:error': return `step "${event.name}" failed: ${event.error}`;
+    case 'screenshot': return `screenshot ${event.name}`;
+    case 'console:error': return `console error: ${event.message}`;
+  }
+}
+
+export function enqueueJob(label: string, work: (ctx: JobContext) => Promise<unknown>): JobInfo {
+  let resolveDone!: () => void;
+  const done = new Promise<void>((resolve) => {
+    resolveDone = resolve;
+  });
+  const job: Job = {
+    jobId: crypto.randomUUID(),
+    label,
+    state: 'queued',
+    createdAt: new Date().toISOString(),
+    startedAt: null,
+    finishedAt: null,
+    runIds: [],
+    work,
+    controller: new AbortController(),
+    events: [],
+    emitter: new EventEmitter(),
+    done,
+    resolveDone,
+  };
+  jobs.set(job.jobId, job);
+  queue.push(job);
+  record(job, { type: 'job:state', state: 'queued', time: Date.now() });
+  pump();
+  return info(job);
+}
+
+export function getJob(jobId: string): JobInfo | null {
+  const job = jobs.get(jobId);
+  return job ? info(job) : null;
+}
+
+export function listJobs(): JobInfo[] {
+  return Array.from(jobs.values()).map(info);
+}
+
+// Cancel a queued job outright, or abort a running one (its run fails with
+// category 'cancelled'). Finished jobs are returned unchanged.
+export function cancelJob(jobId: string): JobInfo | null {
+  const job = jobs.get(jobId);
+  if (!job) return null;
+  if (job.state === 'queued') {
+    queue.splice(queue.indexOf(job), 1);
+    job.controller.abort();
+    setState(job, 'cancelled');
+  } else if (job.state === 'running') {
+    job.controller.abort();
+  }
+  return info(job);
+}
+
+export async function waitForJob(jobId: string): Promise<JobInfo | null> {
+  const job = jobs.get(jobId);
+  if (!job) return null;
+  await job.done;
+  return info(job);
+}
+
+// Replay the job's events so far, then deliver new ones until it finishes.
+// Returns an unsubscribe function; `onDone` runs once the job has finished.
+export function subscribeJob(jobId: string, onEvent: (event: JobEvent) => void, onDone: () => void): (() => void) | null {
+  const job = jobs.get(jobId);
+  if (!job) return null;
+  for (const event of job.events) onEvent(event);
+  if (job.finishedAt !== null) {
+    onDone();
+    return () => { /* nothing to remove */ };
+  }
+  job.emitter.on('event', onEvent);
+  job.emitter.once('done', onDone);
+  return () => {
+    job.emitter.off('event', onEvent);
+    job.emitter.off('done', onDone);
+  };
+}
@@ -0,0 +1,87 @@
+// Multi-turn tool loop for the Messages API. The client is an interface so the
+// loop can run against the Anthropic SDK or a local fake model.
+
+import type Anthropic from '@anthropic-ai/sdk';
+
+type MessageParam = Anthropic.Messages.MessageParam;
+type ToolResultBlockParam = Anthropic.Messages.ToolResultBlockParam;
+
+// The slice of the Anthropic client the loop needs; `new Anthropic()` satisfies it
+export type ModelClient = {
+  messages: {
+    create(body: Anthropic.Messages.MessageCreateParamsNonStreaming): PromiseLike<Anthropic.Messages.Message>;
+  };
+};
+
+// Tool handlers return the tool_result content; throwing marks the result as an error
+export type ToolExecutor = (name: string, input: unknown) => Promise<ToolResultBlockParam['content']>;
+
+export type ToolLoopOptions = {
+  client: ModelClient;
+  model: string;
+  system: string;
+  tools: Anthropic.Messages.Tool[];
+  messages: MessageParam[];
+  execute: ToolExecutor;
+  maxIterations?: number;
+  // Total input + output tokens across all turns
+  maxTotalTokens?: number;
+  maxTokensPerTurn?: number;
+};
+
+export type ToolLoopResult = {
+  text: string;
+  stopReason: Anthropic.Messages.StopReason | 'max_iterations' | 'token_budget' | null;
+  iterations: number;
+  usage: { inputTokens: number; outputTokens: number };
+  messages: MessageParam[];
+};
+
+export async function runToolLoop(opts: ToolLoopOptions): Promise<ToolLoopResult> {
+  const maxIterations = opts.maxIterations ?? 8;
+  const maxTotalTokens = opts.maxTotalTokens ?? 100_000;
+  const messages = [...opts.messages];
+  const usage = { inputTokens: 0, outputTokens: 0 };
+  let text = '';
+
+  for (let i = 1; i <= maxIterations; i++) {
+    const response = await opts.client.messages.create({
+      model: opts.model,
+      max_tokens: opts.maxTokensPerTurn ?? 1024,
+      system: opts.system,
+      tools: opts.tools,
+      messages,
+    });
+    usage.inputTokens += response.usage?.input_tokens ?? 0;
+    usage.outputTokens += response.usage?.output_tokens ?? 0;
+    messages.push({ role: 'assistant', content: response.content });
+
+    const turnText = response.content
+      .filter((b): b is Anthropic.Messages.TextBlock => b.type === 'text')
+      .map((b) => b.text)
+      .join('\n')
+      .trim();
+    if (turnText) text = turnText;
+
+    if (response.stop_reason !== 'tool_use') {
+      return { text, stopReason: response.stop_reason, iterations: i, usage, messages };
+    }
+    if (usage.inputTokens + usage.outputTokens >= maxTotalTokens) {
+      return { text, stopReason: 'token_budget', iterations: i, usage, messages };
+    }
+
+    // All tool results for this turn go back in a single user message
+    const results: ToolResultBlockParam[] = [];
+    for (const block of response.content) {
+      if (block.type !== 'tool_use') continue;
+      try {
+        results.push({ type: 'tool_result', tool_use_id: block.id, content: await opts.execute(block.name, block.input) });
+      } catch (e) {
+        results.push({ type: 'tool_result', tool_use_id: block.id, content: String(e), is_error: true });
+      }
+    }
+    messages.push({ role: 'user', content: results });
+  }
+
+  return { text, stopReason: 'max_iterations', iterations: maxIterations, usage, messages };
+}
@@ -0,0 +1,156 @@
+// Versioned run manifest (run.json). Written once at the end of runTest so a
+// run's status, timing and artifacts stay queryable after the process exits.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import type { ResolvedRunOptions } from './options.js';
+import type { VisualDiff } from './visual.js';
+import type { AssertionResult } from './expect.js';
+import type { A11ySummary } from './a11y.js';
+import type { PerfRegression } from './metrics.js';
+
+export const MANIFEST_FILE = 'run.json';
+export const MANIFEST_VERSION = 1;
+
+export type ArtifactKind = 'screenshot' | 'console' | 'network' | 'actions' | 'trace' | 'har' | 'a11y' | 'metrics' | 'dom' | 'other';
+
+export type ArtifactEntry = {
+  name: string;
+  kind: ArtifactKind;
+  size: number;
+  sha256: string;
+};
+
+export type StepOutcome = {
+  name: string;
+  status: 'passed' | 'failed';
+  startedAt: string;
+  durationMs: number;
+  error?: string;
+};
+
+// Why a run failed. 'compile' and 'script-load' mean no test code ran;
+// 'error' covers anything not recognised as one of the other categories.
+export type FailureCategory =
+  | 'compile'
+  | 'script-load'
+  | 'assertion'
+  | 'timeout'
+  | 'navigation'
+  | 'browser-crash'
+  | 'cancelled'
+  | 'error';
+
+export type RunFailure = {
+  category: FailureCategory;
+  message: string;
+  // Source-mapped for inline scripts
+  stack?: string;
+  // helpers.step the error was thrown in
+  step?: string;
+  // First stack frame inside the user script
+  location?: { file: string; line: number; column: number };
+};
+
+// FLAKY: failed at least once, then passed on retry
+export type RunStatus = 'PASS' | 'FAIL' | 'FLAKY';
+
+export type AttemptOutcome = {
+  runId: string;
+  status: 'PASS' | 'FAIL';
+  failure?: RunFailure;
+};
+
+export type RunManifest = {
+  version: typeof MANIFEST_VERSION;
+  runId: string;
+  status: RunStatus;
+  scriptPath: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  options: ResolvedRunOptions;
+  criticalErrors: string[];
+  steps: StepOutcome[];
+  // helpers.expect results; absent in manifests written before assertions existed
+  assertions?: AssertionResult[];
+  // Absent in manifests written before visual regression existed
+  visual?: VisualDiff[];
+  // Present when the run audited accessibility
+  a11y?: A11ySummary;
+  // Present when step metrics were recorded (metrics.json); empty when within budget
+  perfRegressions?: PerfRegression[];
+  failure?: RunFailure;
+  // Retries: every attempt is its own run. The final attempt lists all of
+  // them; earlier attempts point at the final one.
+  attempt?: number;
+  attempts?: AttemptOutcome[];
+  supersededBy?: string;
+  artifacts: ArtifactEntry[];
+};
+
+export function artifactKind(fileName: string): ArtifactKind {
+  if (fileName.startsWith('dom/')) return 'dom';
+  if (fileName.endsWith('.png')) return 'screenshot';
+  if (fileName === 'console.log') return 'console';
+  if (fileName === 'network.log') return 'network';
+  if (fileName === 'actions.json') return 'actions';
+  if (fileName === 'trace.zip') return 'trace';
+  if (fileName === 'network.har') return 'har';
+  if (fileName === 'a11y.json') return 'a11y';
+  if (fileName === 'metrics.json') return 'metrics';
+  return 'other';
+}
+
+// Describe every file in the run directory except the manifest itself.
+// Files in subdirectories (dom/, diffs/) are named by relative path, e.g.
+// dom/before_login.html.
+export function listArtifacts(dir: string, prefix = ''): ArtifactEntry[] {
+  return fs.readdirSync(path.join(dir, prefix), { withFileTypes: true })
+    .flatMap((e): ArtifactEntry[] => {
+      const name = prefix ? `${prefix}/${e.name}` : e.name;
+      if (e.isDirectory()) return listArtifacts(dir, name);
+      if (!e.isFile() || name === MANIFEST_FILE) return [];
+      const data = fs.readFileSync(path.join(dir, name));
+      return [{
+        name,
+        kind: artifactKind(name),
+        size: data.length,
+        sha256: crypto.createHash('sha256').update(data).digest('hex'),
+      }];
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function writeManifest(dir: string, manifest: Omit<RunManifest, 'version' | 'artifacts'>): RunManifest {
+  const full: RunManifest = { version: MANIFEST_VERSION, ...manifest, artifacts: listArtifacts(dir) };
+  fs.writeFileSync(path.join(dir, MANIFEST_FILE), JSON.stringify(full, null, 2));
+  return full;
+}
+
+// Re-list artifacts after files are added to a finished run (e.g. diagnosis.md)
+export function refreshManifestArtifacts(dir: string): void {
+  const manifest = readManifest(dir);
+  if (!manifest) return;
+  manifest.artifacts = listArtifacts(dir);
+  fs.writeFileSync(path.join(dir, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+}
+
+// Merge fields into an existing manifest (e.g. the outcome of later retries)
+export function patchManifest(dir: string, patch: Partial<Omit<RunManifest, 'version' | 'runId'>>): void {
+  const manifest = readManifest(dir);
+  if (!manifest) return;
+  fs.writeFileSync(path.join(dir, MANIFEST_FILE), JSON.stringify({ ...manifest, ...patch }, null, 2));
+}
+
+// Returns null for runs recorded before manifests existed
+export function readManifest(dir: string): RunManifest | null {
+  const file = path.join(dir, MANIFEST_FILE);
+  if (!fs.existsSync(file)) return null;
+  const parsed = JSON.parse(fs.readFileSync(file, 'utf8')) as RunManifest;
+  if (parsed.version !== MANIFEST_VERSION) {
+    throw new Error(`Unsupported run manifest version ${String(parsed.version)} in ${file}`);
+  }
+  return parsed;
+}
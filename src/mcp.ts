@@ -1,68 +1,73 @@
 // MCP server exposing run_test and get_artifact as tools over stdio.
 // This allows Claude Code (IDE) to connect without an Anthropic API key.
 
-import fs from 'node:fs';
-import path from 'node:path';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
-import { startAgentWithTest, buildArtifactIndex, type ArtifactIndex } from './agent.js';
-
-// Local helper: ensure the run directory exists
-function ensureRunDir(runId: string): string {
-  const dir = path.resolve('runs', runId);
-  if (!fs.existsSync(dir)) {
-    throw new Error(`Run not found: ${runId}`);
-  }
-  return dir;
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ServerRequest, ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+import { startAgentWithTest, enqueueRun, enqueueSuite } from './agent.js';
+import { getJob, cancelJob, waitForJob, subscribeJob, describeJobEvent, type JobInfo } from './jobs.js';
+import { scriptRefOf, type ScriptRef } from './script.js';
+import { runOptionsSchema, visualMaskSchema, visualThresholdSchema, type RunOptions, type VisualMask } from './options.js';
+import { compareScreenshots, renderVisualDiffContent } from './visual.js';
+import { inspectDom, inspectDomRequestSchema, type InspectDomRequest } from './dom.js';
+import { listRuns, flakeRates, type RunFilter } from './runs.js';
+import { generateReport, getReportRequestSchema, type GetReportRequest } from './report.js';
+import { queryTrace, queryTraceRequestSchema, renderTraceContent, type QueryTraceRequest } from './trace.js';
+import { openSession, navigate, click, fill, evaluate, snapshot, screenshot, closeSession, closeAllSessions } from './sessions.js';
+import { getMetrics, getMetricsRequestSchema, type GetMetricsRequest } from './metrics.js';
+import { loadConfig } from './config.js';
+import { getArtifactForModel, getArtifactRequestSchema, renderArtifactContent, renderArtifactError, type GetArtifactRequest } from './artifacts.js';
+
+const runArgsShape = {
+  scriptPath: z.string().min(1).optional(),
+  // Inline TS/JS source, stored in the run directory as script.ts
+  source: z.string().min(1).optional(),
+  options: runOptionsSchema.optional(),
+  replayFrom: z.string().min(1).optional(),
+};
+
+type RunArgs = { scriptPath?: string; source?: string; options?: RunOptions; replayFrom?: string };
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// Wait for a queued job. Progress is streamed when the client asked for it,
+// and the job is cancelled with the request.
+async function awaitJob(job: JobInfo, extra: ToolExtra): Promise<JobInfo | null> {
+  const progressToken = extra._meta?.progressToken;
+  let progress = 0;
+  const unsubscribe = progressToken === undefined ? null : subscribeJob(job.jobId, (event) => {
+    extra.sendNotification({
+      method: 'notifications/progress',
+      params: { progressToken, progress: ++progress, message: describeJobEvent(event) },
+    }).catch(() => { /* client gone */ });
+  }, () => { /* completion is the tool result */ });
+  const onAbort = () => cancelJob(job.jobId);
+  extra.signal.addEventListener('abort', onAbort, { once: true });
+
+  const done = await waitForJob(job.jobId);
+  unsubscribe?.();
+  extra.signal.removeEventListener('abort', onAbort);
+  return done;
 }
 
-// Local helper: implement get_artifact behavior mirroring HTTP endpoints
-async function getArtifact(args: { runId: string; kind: string; name?: string; grep?: string; limit?: number }): Promise<string> {
-  const dir = ensureRunDir(args.runId);
-  switch (args.kind) {
-    case 'index': {
-      const idx: ArtifactIndex = buildArtifactIndex(dir);
-      return JSON.stringify(idx);
-    }
-    case 'screenshot': {
-      if (!args.name) return JSON.stringify({ error: 'name is required for screenshot' });
-      const file = path.join(dir, `${args.name}.png`);
-      if (!fs.existsSync(file)) return JSON.stringify({ error: 'screenshot not found' });
-      return JSON.stringify({ path: file });
-    }
-    case 'console':
-    case 'network':
-    case 'actions': {
-      const kind = args.kind as 'console' | 'network' | 'actions';
-      const fileName = kind === 'console' ? 'console.log' : kind === 'network' ? 'network.log' : 'actions.json';
-      const file = path.join(dir, fileName);
-      if (!fs.existsSync(file)) return JSON.stringify({ error: 'log not found' });
-      const grep = args.grep?.toLowerCase();
-      const limit = args.limit && Number.isFinite(args.limit) ? Number(args.limit) : undefined;
-      if (kind === 'actions') {
-        const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
-        let items = Array.isArray(parsed) ? parsed : parsed?.actions ?? [];
-        if (grep) items = items.filter((x: unknown) => JSON.stringify(x).toLowerCase().includes(grep));
-        if (limit) items = items.slice(-limit);
-        return JSON.stringify(items);
-      }
-      let lines = fs.readFileSync(file, 'utf8').split('\n');
-      if (grep) lines = lines.filter((l) => l.toLowerCase().includes(grep));
-      if (limit) lines = lines.slice(-limit);
-      return lines.join('\n');
-    }
-    case 'trace': {
-      const file = path.join(dir, 'trace.zip');
-      if (!fs.existsSync(file)) return JSON.stringify({ error: 'trace not found' });
-      return JSON.stringify({ path: file });
-    }
-    default:
-      return JSON.stringify({ error: 'invalid kind' });
-  }
+// Tool result for a finished run
+function runPayload(result: Awaited<ReturnType<typeof startAgentWithTest>>) {
+  return {
+    status: result.status,
+    runId: result.runId,
+    artifactsDir: result.artifactsDir,
+    index: result.index,
+    criticalErrors: result.criticalErrors,
+    ...(result.failure ? { failure: result.failure } : {}),
+    ...(result.attempts ? { attempts: result.attempts } : {}),
+  };
 }
 
 async function main() {
+  // No flags over stdio: TESTING_AGENT_CONFIG and TESTING_AGENT_ENV select the config
+  await loadConfig();
   const server = new McpServer({
     name: 'testing-agent-mcp',
     version: '0.1.0',
@@ -71,38 +76,228 @@ async function main() {
   // Tool: run_test
   server.tool(
     'run_test',
-    { scriptPath: z.string().min(1) },
-    async ({ scriptPath }: { scriptPath: string }) => {
-      const result = await startAgentWithTest(scriptPath);
-      const payload = {
-        status: result.status,
-        runId: result.runId,
-        artifactsDir: result.artifactsDir,
-        index: result.index,
-        criticalErrors: result.criticalErrors,
-      };
-      return { content: [{ type: 'text', text: JSON.stringify(payload) }] };
+    runArgsShape,
+    async (args: RunArgs, extra: ToolExtra) => {
+      let script: ScriptRef;
+      try {
+        script = scriptRefOf(args);
+      } catch (e) {
+        return { content: [{ type: 'text', text: (e as Error).message }], isError: true };
+      }
+      const { options, replayFrom } = args;
+      const done = await awaitJob(enqueueRun(script, replayFrom ? { ...options, replayFrom } : options), extra);
+      if (done?.state !== 'succeeded') {
+        return { content: [{ type: 'text', text: done?.error ?? `run ${done?.state ?? 'lost'}` }], isError: true };
+      }
+      const result = done.result as Awaited<ReturnType<typeof startAgentWithTest>>;
+      return { content: [{ type: 'text', text: JSON.stringify(runPayload(result)) }] };
     }
   );
 
-  // Tool: get_artifact
+  // Async runs: start_run queues and returns a job id; poll get_job, stop with cancel_job
   server.tool(
-    'get_artifact',
+    'start_run',
+    runArgsShape,
+    async (args: RunArgs) => {
+      try {
+        const job = enqueueRun(scriptRefOf(args), args.replayFrom ? { ...args.options, replayFrom: args.replayFrom } : args.options);
+        return { content: [{ type: 'text', text: JSON.stringify(job) }] };
+      } catch (e) {
+        return { content: [{ type: 'text', text: (e as Error).message }], isError: true };
+      }
+    }
+  );
+
+  server.tool('get_job', { jobId: z.string().min(1) }, async ({ jobId }: { jobId: string }) => {
+    const job = getJob(jobId);
+    if (!job) return { content: [{ type: 'text', text: `job ${jobId} not found` }], isError: true };
+    // A finished run job carries the same payload as run_test
+    const view = job.state === 'succeeded' ? { ...job, result: runPayload(job.result as Awaited<ReturnType<typeof startAgentWithTest>>) } : job;
+    return { content: [{ type: 'text', text: JSON.stringify(view) }] };
+  });
+
+  server.tool('cancel_job', { jobId: z.string().min(1) }, async ({ jobId }: { jobId: string }) => {
+    const job = cancelJob(jobId);
+    if (!job) return { content: [{ type: 'text', text: `job ${jobId} not found` }], isError: true };
+    return { content: [{ type: 'text', text: JSON.stringify(job) }] };
+  });
+
+  // Tool: run_suite
+  server.tool(
+    'run_suite',
+    { pattern: z.string().min(1), workers: z.number().int().positive().optional(), options: runOptionsSchema.optional() },
+    async ({ pattern, workers, options }: { pattern: string; workers?: number; options?: RunOptions }, extra: ToolExtra) => {
+      let job: JobInfo;
+      try {
+        job = enqueueSuite(pattern, { workers, run: options });
+      } catch (e) {
+        return { content: [{ type: 'text', text: (e as Error).message }], isError: true };
+      }
+      const done = await awaitJob(job, extra);
+      if (done?.state !== 'succeeded') {
+        return { content: [{ type: 'text', text: done?.error ?? `suite ${done?.state ?? 'lost'}` }], isError: true };
+      }
+      return { content: [{ type: 'text', text: JSON.stringify(done.result) }] };
+    }
+  );
+
+  // Tool: list_runs
+  server.tool(
+    'list_runs',
+    {
+      status: z.enum(['PASS', 'FAIL', 'FLAKY']).optional(),
+      script: z.string().optional(),
+      from: z.string().optional(),
+      to: z.string().optional(),
+      offset: z.number().int().nonnegative().optional(),
+      limit: z.number().int().positive().optional(),
+    },
+    async (filter: RunFilter) => {
+      return { content: [{ type: 'text', text: JSON.stringify(listRuns(filter)) }] };
+    }
+  );
+
+  // Tool: flake_rates
+  server.tool(
+    'flake_rates',
+    { script: z.string().optional(), from: z.string().optional(), to: z.string().optional() },
+    async (filter: { script?: string; from?: string; to?: string }) => {
+      return { content: [{ type: 'text', text: JSON.stringify(flakeRates(filter)) }] };
+    }
+  );
+
+  // Tool: compare_screenshots
+  server.tool(
+    'compare_screenshots',
     {
       runId: z.string().min(1),
-      kind: z.enum(['screenshot', 'console', 'network', 'actions', 'trace', 'index']),
-      name: z.string().optional(),
-      grep: z.string().optional(),
-      limit: z.number().optional(),
+      name: z.string().min(1),
+      against: z.string().min(1).optional(),
+      threshold: visualThresholdSchema.optional(),
+      masks: z.array(visualMaskSchema).optional(),
     },
-    async ({ runId, kind, name, grep, limit }: { runId: string; kind: 'screenshot'|'console'|'network'|'actions'|'trace'|'index'; name?: string; grep?: string; limit?: number }) => {
-      const out = await getArtifact({ runId, kind, name, grep, limit });
-      return { content: [{ type: 'text', text: out }] };
+    async (args: { runId: string; name: string; against?: string; threshold?: number; masks?: VisualMask[] }) => {
+      try {
+        return { content: renderVisualDiffContent(args.runId, compareScreenshots(args)) };
+      } catch (e) {
+        return { content: [{ type: 'text', text: renderArtifactError(e) }], isError: true };
+      }
+    }
+  );
+
+  // Tool: inspect_dom
+  server.tool(
+    'inspect_dom',
+    inspectDomRequestSchema.shape,
+    async (args: InspectDomRequest) => {
+      try {
+        return { content: [{ type: 'text', text: JSON.stringify(inspectDom(args)) }] };
+      } catch (e) {
+        return { content: [{ type: 'text', text: renderArtifactError(e) }], isError: true };
+      }
+    }
+  );
+
+  // Tool: get_report (screenshots are not embedded unless asked for)
+  server.tool(
+    'get_report',
+    getReportRequestSchema.shape,
+    async (args: GetReportRequest) => {
+      try {
+        return { content: [{ type: 'text', text: generateReport(args, { embedScreenshots: false }).body }] };
+      } catch (e) {
+        return { content: [{ type: 'text', text: renderArtifactError(e) }], isError: true };
+      }
+    }
+  );
+
+  // Tool: get_metrics
+  server.tool(
+    'get_metrics',
+    getMetricsRequestSchema.shape,
+    async (args: GetMetricsRequest) => {
+      try {
+        return { content: [{ type: 'text', text: JSON.stringify(getMetrics(args)) }] };
+      } catch (e) {
+        return { content: [{ type: 'text', text: renderArtifactError(e) }], isError: true };
+      }
+    }
+  );
+
+  // Tool: query_trace
+  server.tool(
+    'query_trace',
+    queryTraceRequestSchema.shape,
+    async (args: QueryTraceRequest) => {
+      try {
+        return { content: renderTraceContent(queryTrace(args)) };
+      } catch (e) {
+        return { content: [{ type: 'text', text: renderArtifactError(e) }], isError: true };
+      }
+    }
+  );
+
+  // Live sessions: open a browser, drive it one command at a time, close it.
+  // Each session records into runs/<sessionId> like a scripted run.
+  const sessionTool = async <T>(fn: () => Promise<T>) => {
+    try {
+      return { content: [{ type: 'text' as const, text: JSON.stringify(await fn()) }] };
+    } catch (e) {
+      return { content: [{ type: 'text' as const, text: renderArtifactError(e) }], isError: true };
+    }
+  };
+  const sessionId = z.string().min(1);
+
+  server.tool('open_session', { options: runOptionsSchema.optional() }, ({ options }: { options?: RunOptions }) =>
+    sessionTool(() => openSession(options)));
+
+  server.tool('navigate', { sessionId, url: z.string().min(1) }, (args: { sessionId: string; url: string }) =>
+    sessionTool(() => navigate(args.sessionId, args.url)));
+
+  server.tool('click', { sessionId, selector: z.string().min(1) }, (args: { sessionId: string; selector: string }) =>
+    sessionTool(() => click(args.sessionId, args.selector)));
+
+  server.tool('fill', { sessionId, selector: z.string().min(1), value: z.string() }, (args: { sessionId: string; selector: string; value: string }) =>
+    sessionTool(() => fill(args.sessionId, args.selector, args.value)));
+
+  server.tool('evaluate', { sessionId, expression: z.string().min(1) }, (args: { sessionId: string; expression: string }) =>
+    sessionTool(() => evaluate(args.sessionId, args.expression)));
+
+  server.tool('snapshot', { sessionId, name: z.string().min(1).optional() }, (args: { sessionId: string; name?: string }) =>
+    sessionTool(() => snapshot(args.sessionId, args.name)));
+
+  server.tool('screenshot', { sessionId, name: z.string().min(1).optional() }, async (args: { sessionId: string; name?: string }) => {
+    try {
+      const name = await screenshot(args.sessionId, args.name);
+      return { content: renderArtifactContent(getArtifactForModel({ runId: args.sessionId, kind: 'screenshot', name })) };
+    } catch (e) {
+      return { content: [{ type: 'text', text: renderArtifactError(e) }], isError: true };
+    }
+  });
+
+  server.tool('close_session', { sessionId }, (args: { sessionId: string }) =>
+    sessionTool(() => closeSession(args.sessionId)));
+
+  // Tool: get_artifact
+  server.tool(
+    'get_artifact',
+    getArtifactRequestSchema.shape,
+    async (args: GetArtifactRequest) => {
+      try {
+        // Screenshots come back as MCP image content alongside a text summary
+        return { content: renderArtifactContent(getArtifactForModel(args)) };
+      } catch (e) {
+        return { content: [{ type: 'text', text: renderArtifactError(e) }], isError: true };
+      }
     }
   );
 
   // Start stdio transport
   const transport = new StdioServerTransport();
+  // Leave no browsers behind when the client disconnects
+  transport.onclose = () => {
+    closeAllSessions().finally(() => process.exit(0));
+  };
   await server.connect(transport);
 }
 
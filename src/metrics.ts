@@ -0,0 +1,368 @@
+// Performance metrics per helpers.step: navigation timing, web vitals (FCP,
+// LCP, CLS and an INP-style worst interaction), long tasks, JS heap and, on
+// Chromium, CDP performance counters for main-thread time. Stored in
+// metrics.json and compared against recent passing runs of the same script;
+// metrics over the budget are flagged as regressions (they do not fail the run).
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import type { Page, BrowserContext, CDPSession } from 'playwright';
+import { resolveRunDir, ArtifactError } from './artifacts.js';
+import { recentRuns, formatTable } from './runs.js';
+
+export const METRICS_FILE = 'metrics.json';
+export const METRICS_VERSION = 1;
+// Passing runs of the same script the baseline is the median of
+const BASELINE_RUNS = 5;
+
+export type StepMetrics = {
+  step: string;
+  url: string;
+  // The step's own work, without its screenshots and snapshots
+  durationMs: number;
+  // Document the step ended on, in ms from its navigation start
+  navigation: { ttfbMs: number; domContentLoadedMs: number; loadMs: number } | null;
+  // Page-level values for that document: CLS sums layout shifts without recent
+  // input; inpMs is the slowest interaction
+  webVitals: { fcpMs: number | null; lcpMs: number | null; cls: number; inpMs: number | null };
+  // Tasks over 50ms during the step
+  longTasks: { count: number; totalMs: number };
+  jsHeapUsedBytes: number | null;
+  // Chromium only: main-thread time during the step
+  cpu: { taskMs: number; scriptMs: number; layoutMs: number; recalcStyleMs: number } | null;
+};
+
+export type PerfRegression = {
+  step: string;
+  metric: string;
+  value: number;
+  // Median of the baseline runs
+  baseline: number;
+  // null when the baseline is zero
+  changePercent: number | null;
+};
+
+export type MetricsComparison = {
+  budgetPercent: number;
+  baselineRunIds: string[];
+  regressions: PerfRegression[];
+};
+
+export type MetricsFile = {
+  version: typeof METRICS_VERSION;
+  runId: string;
+  scriptPath: string;
+  steps: StepMetrics[];
+} & MetricsComparison;
+
+// In-page counters kept by the init script, reset with every document
+type PageCounters = {
+  lcp: number | null;
+  cls: number;
+  inp: number | null;
+  longTaskCount: number;
+  longTaskMs: number;
+};
+
+type StepSample = {
+  timeOrigin: number;
+  longTaskCount: number;
+  longTaskMs: number;
+  cdp: Record<string, number> | null;
+  time: number;
+};
+
+export type PerfProbe = {
+  page: Page;
+  // Chromium only
+  cdp: CDPSession | null;
+};
+
+// Fields of the entry types observed below that lib.dom does not declare on
+// PerformanceEntry (LargestContentfulPaint, LayoutShift, PerformanceEventTiming)
+type ObservedEntry = PerformanceEntry & {
+  renderTime?: number;
+  loadTime?: number;
+  value?: number;
+  hadRecentInput?: boolean;
+  interactionId?: number;
+};
+
+// Runs in every document before its scripts: observe what the Performance
+// API only reports to observers
+function observePerformance(): void {
+  const counters: PageCounters = { lcp: null, cls: 0, inp: null, longTaskCount: 0, longTaskMs: 0 };
+  (window as unknown as { __taPerf: PageCounters }).__taPerf = counters;
+  const observe = (type: string, onEntry: (entry: ObservedEntry) => void, extra: Record<string, unknown> = {}) => {
+    try {
+      new PerformanceObserver((list) => list.getEntries().forEach((e) => onEntry(e as ObservedEntry)))
+        .observe({ type, buffered: true, ...extra } as PerformanceObserverInit);
+    } catch {
+      // entry type not supported by this engine
+    }
+  };
+  observe('largest-contentful-paint', (e) => { counters.lcp = e.renderTime || e.loadTime || e.startTime; });
+  observe('layout-shift', (e) => { if (!e.hadRecentInput) counters.cls += e.value ?? 0; });
+  observe('event', (e) => {
+    if (e.interactionId) counters.inp = Math.max(counters.inp ?? 0, e.duration);
+  }, { durationThreshold: 16 });
+  observe('longtask', (e) => {
+    counters.longTaskCount++;
+    counters.longTaskMs += e.duration;
+  });
+}
+
+export async function openPerfProbe(context: BrowserContext, page: Page, engine: string): Promise<PerfProbe> {
+  let cdp: CDPSession | null = null;
+  if (engine === 'chromium') {
+    cdp = await context.newCDPSession(page);
+    await cdp.send('Performance.enable');
+  }
+  return { page, cdp };
+}
+
+// Call before the first page is opened so every document is observed
+export function installPerfObservers(context: BrowserContext): Promise<void> {
+  return context.addInitScript(observePerformance);
+}
+
+async function cdpMetrics(probe: PerfProbe): Promise<Record<string, number> | null> {
+  if (!probe.cdp) return null;
+  const { metrics } = await probe.cdp.send('Performance.getMetrics');
+  return Object.fromEntries(metrics.map((m) => [m.name, m.value]));
+}
+
+function readCounters(page: Page) {
+  return page.evaluate(() => {
+    const perf = (window as unknown as { __taPerf?: PageCounters }).__taPerf;
+    const nav = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+    const fcp = performance.getEntriesByName('first-contentful-paint')[0];
+    const memory = (performance as unknown as { memory?: { usedJSHeapSize: number } }).memory;
+    return {
+      timeOrigin: performance.timeOrigin,
+      url: location.href,
+      counters: perf ?? null,
+      navigation: nav ? { ttfbMs: nav.responseStart, domContentLoadedMs: nav.domContentLoadedEventEnd, loadMs: nav.loadEventEnd } : null,
+      fcpMs: fcp ? fcp.startTime : null,
+      heap: memory ? memory.usedJSHeapSize : null,
+    };
+  });
+}
+
+export async function sampleStepStart(probe: PerfProbe): Promise<StepSample> {
+  const [page, cdp] = await Promise.all([readCounters(probe.page), cdpMetrics(probe)]);
+  return {
+    timeOrigin: page.timeOrigin,
+    longTaskCount: page.counters?.longTaskCount ?? 0,
+    longTaskMs: page.counters?.longTaskMs ?? 0,
+    cdp,
+    time: Date.now(),
+  };
+}
+
+const round = (n: number, digits = 1) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+export async function measureStep(probe: PerfProbe, step: string, start: StepSample): Promise<StepMetrics> {
+  const durationMs = Date.now() - start.time;
+  const [page, cdp] = await Promise.all([readCounters(probe.page), cdpMetrics(probe)]);
+  const counters = page.counters ?? { lcp: null, cls: 0, inp: null, longTaskCount: 0, longTaskMs: 0 };
+  // After a navigation the counters started from zero in the new document
+  const sameDocument = page.timeOrigin === start.timeOrigin;
+  const cdpDelta = (name: string) => round(((cdp?.[name] ?? 0) - (start.cdp?.[name] ?? 0)) * 1000);
+  const navigation = page.navigation && page.navigation.loadMs > 0 ? page.navigation : null;
+  return {
+    step,
+    url: page.url,
+    durationMs,
+    navigation: navigation && {
+      ttfbMs: round(navigation.ttfbMs),
+      domContentLoadedMs: round(navigation.domContentLoadedMs),
+      loadMs: round(navigation.loadMs),
+    },
+    webVitals: {
+      fcpMs: page.fcpMs === null ? null : round(page.fcpMs),
+      lcpMs: counters.lcp === null ? null : round(counters.lcp),
+      cls: round(counters.cls, 4),
+      inpMs: counters.inp === null ? null : round(counters.inp),
+    },
+    longTasks: {
+      count: counters.longTaskCount - (sameDocument ? start.longTaskCount : 0),
+      totalMs: round(counters.longTaskMs - (sameDocument ? start.longTaskMs : 0)),
+    },
+    jsHeapUsedBytes: cdp?.JSHeapUsedSize ?? page.heap,
+    cpu: cdp && start.cdp
+      ? {
+        taskMs: cdpDelta('TaskDuration'),
+        scriptMs: cdpDelta('ScriptDuration'),
+        layoutMs: cdpDelta('LayoutDuration'),
+        recalcStyleMs: cdpDelta('RecalcStyleDuration'),
+      }
+      : null,
+  };
+}
+
+// Compared metrics, with the smallest absolute change that counts so noise
+// on small values is not flagged
+const COMPARED: { metric: string; value: (m: StepMetrics) => number | null | undefined; floor: number }[] = [
+  { metric: 'durationMs', value: (m) => m.durationMs, floor: 100 },
+  { metric: 'navigation.ttfbMs', value: (m) => m.navigation?.ttfbMs, floor: 50 },
+  { metric: 'navigation.loadMs', value: (m) => m.navigation?.loadMs, floor: 100 },
+  { metric: 'webVitals.fcpMs', value: (m) => m.webVitals.fcpMs, floor: 100 },
+  { metric: 'webVitals.lcpMs', value: (m) => m.webVitals.lcpMs, floor: 100 },
+  { metric: 'webVitals.cls', value: (m) => m.webVitals.cls, floor: 0.05 },
+  { metric: 'webVitals.inpMs', value: (m) => m.webVitals.inpMs, floor: 50 },
+  { metric: 'longTasks.totalMs', value: (m) => m.longTasks.totalMs, floor: 50 },
+  { metric: 'jsHeapUsedBytes', value: (m) => m.jsHeapUsedBytes, floor: 1024 * 1024 },
+  { metric: 'cpu.taskMs', value: (m) => m.cpu?.taskMs, floor: 50 },
+  { metric: 'cpu.scriptMs', value: (m) => m.cpu?.scriptMs, floor: 50 },
+];
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Steps keyed by name and occurrence, so a step repeated in a loop is
+// compared with the same repetition
+function keyed(steps: StepMetrics[]): Map<string, StepMetrics> {
+  const seen = new Map<string, number>();
+  const out = new Map<string, StepMetrics>();
+  for (const s of steps) {
+    const n = (seen.get(s.step) ?? 0) + 1;
+    seen.set(s.step, n);
+    out.set(`${s.step}#${n}`, s);
+  }
+  return out;
+}
+
+export function compareMetrics(steps: StepMetrics[], baselines: MetricsFile[], budgetPercent: number): MetricsComparison {
+  const regressions: PerfRegression[] = [];
+  const baselineSteps = baselines.map((b) => keyed(b.steps));
+  for (const [key, current] of keyed(steps)) {
+    for (const { metric, value, floor } of COMPARED) {
+      const v = value(current);
+      if (v === null || v === undefined) continue;
+      const previous = baselineSteps.map((b) => b.get(key)).map((s) => (s ? value(s) : null)).filter((x): x is number => typeof x === 'number');
+      if (previous.length === 0) continue;
+      const base = median(previous);
+      if (v - base < floor || v <= base * (1 + budgetPercent / 100)) continue;
+      regressions.push({
+        step: current.step,
+        metric,
+        value: v,
+        baseline: round(base, 4),
+        changePercent: base > 0 ? round(((v - base) / base) * 100) : null,
+      });
+    }
+  }
+  return { budgetPercent, baselineRunIds: baselines.map((b) => b.runId), regressions };
+}
+
+export function readMetrics(artifactsDir: string): MetricsFile | null {
+  const file = path.join(artifactsDir, METRICS_FILE);
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as MetricsFile;
+}
+
+// Metrics of the most recent passing runs of a script, newest first. Stops
+// reading manifests once it has enough.
+function baselineMetrics(scriptPath: string, excludeRunId: string): MetricsFile[] {
+  const out: MetricsFile[] = [];
+  for (const run of recentRuns()) {
+    if (out.length >= BASELINE_RUNS) break;
+    if (run.runId === excludeRunId || run.scriptPath !== scriptPath || (run.status !== 'PASS' && run.status !== 'FLAKY')) continue;
+    const metrics = readMetrics(resolveRunDir(run.runId));
+    if (metrics) out.push(metrics);
+  }
+  return out;
+}
+
+// Write metrics.json for a finished run, compared against its script's history
+export function writeMetrics(artifactsDir: string, runId: string, scriptPath: string, steps: StepMetrics[], budgetPercent: number): MetricsFile {
+  const metrics: MetricsFile = {
+    version: METRICS_VERSION,
+    runId,
+    scriptPath,
+    steps,
+    ...compareMetrics(steps, baselineMetrics(scriptPath, runId), budgetPercent),
+  };
+  fs.writeFileSync(path.join(artifactsDir, METRICS_FILE), JSON.stringify(metrics, null, 2));
+  return metrics;
+}
+
+export const getMetricsRequestSchema = z.object({
+  runId: z.string().min(1),
+  // Only this step
+  step: z.string().min(1).optional(),
+  // Compare against this run instead of the recent history of the script
+  against: z.string().min(1).optional(),
+  budgetPercent: z.number().positive().optional(),
+});
+
+export type GetMetricsRequest = z.infer<typeof getMetricsRequestSchema>;
+
+// Stored metrics; a different baseline or budget recomputes the comparison
+export function getMetrics(input: unknown): MetricsFile {
+  const parsed = getMetricsRequestSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new ArtifactError('invalid_argument', parsed.error.issues.map((i) => `${i.path.join('.') || 'input'}: ${i.message}`).join('; '));
+  }
+  const req = parsed.data;
+  const metrics = readMetrics(resolveRunDir(req.runId));
+  if (!metrics) {
+    throw new ArtifactError('not_found', `run ${req.runId} has no ${METRICS_FILE} (metrics are recorded per helpers.step)`);
+  }
+  let result = metrics;
+  if (req.against || req.budgetPercent !== undefined) {
+    let baselines: MetricsFile[];
+    if (req.against) {
+      const against = readMetrics(resolveRunDir(req.against));
+      if (!against) throw new ArtifactError('not_found', `run ${req.against} has no ${METRICS_FILE}`);
+      baselines = [against];
+    } else {
+      // Baseline runs deleted since are left out
+      baselines = metrics.baselineRunIds
+        .map((id) => {
+          try {
+            return readMetrics(resolveRunDir(id));
+          } catch {
+            return null;
+          }
+        })
+        .filter((m): m is MetricsFile => m !== null);
+    }
+    result = { ...metrics, ...compareMetrics(metrics.steps, baselines, req.budgetPercent ?? metrics.budgetPercent) };
+  }
+  if (!req.step) return result;
+  const steps = result.steps.filter((s) => s.step === req.step);
+  if (steps.length === 0) {
+    throw new ArtifactError('not_found', `step "${req.step}" not found (steps: ${[...new Set(result.steps.map((s) => s.step))].join(', ')})`);
+  }
+  return { ...result, steps, regressions: result.regressions.filter((r) => r.step === req.step) };
+}
+
+export function formatMetricsTable(steps: StepMetrics[]): string {
+  const ms = (v: number | null | undefined) => (v === null || v === undefined ? '-' : `${Math.round(v)}ms`);
+  return formatTable([
+    ['STEP', 'DURATION', 'LOAD', 'FCP', 'LCP', 'CLS', 'INP', 'LONG TASKS', 'CPU', 'HEAP'],
+    ...steps.map((s) => [
+      s.step,
+      ms(s.durationMs),
+      ms(s.navigation?.loadMs),
+      ms(s.webVitals.fcpMs),
+      ms(s.webVitals.lcpMs),
+      String(s.webVitals.cls),
+      ms(s.webVitals.inpMs),
+      `${s.longTasks.count} (${ms(s.longTasks.totalMs)})`,
+      ms(s.cpu?.taskMs),
+      s.jsHeapUsedBytes === null ? '-' : `${(s.jsHeapUsedBytes / 1024 / 1024).toFixed(1)}MB`,
+    ]),
+  ]);
+}
+
+// "checkout durationMs 2400 vs 1500 (+60%)", one per regression
+export function formatRegressions(regressions: PerfRegression[]): string[] {
+  return regressions.map((r) => `${r.step} ${r.metric} ${r.value} vs ${r.baseline}${r.changePercent === null ? '' : ` (+${r.changePercent}%)`}`);
+}
@@ -0,0 +1,136 @@
+// Structured network capture for network.log (one JSON entry per line) and
+// the filters get_artifact applies to it.
+
+import fs from 'node:fs';
+import type { Page, Request as PwRequest } from 'playwright';
+import { maskJson } from './secrets.js';
+
+export type NetworkEntry = {
+  time: string;
+  method: string;
+  url: string;
+  resourceType: string;
+  status?: number;
+  statusText?: string;
+  failure?: string;
+  durationMs?: number;
+  timing?: ReturnType<PwRequest['timing']>;
+  requestHeaders?: Record<string, string>;
+  responseHeaders?: Record<string, string>;
+  body?: string;
+  bodyTruncated?: boolean;
+};
+
+export type NetworkCaptureOptions = {
+  captureBodies: boolean;
+  maxBodyBytes: number;
+  // Applied to every string of each entry, e.g. to hide secret values
+  mask?: (line: string) => string;
+};
+
+export type NetworkFilter = {
+  statusMin?: number;
+  statusMax?: number;
+  method?: string;
+  resourceType?: string;
+  // Substring of the URL (case-insensitive)
+  url?: string;
+  // Only requests that failed outright (no response)
+  failed?: boolean;
+};
+
+const SENSITIVE_HEADERS = /^(authorization|proxy-authorization|cookie|set-cookie|x-api-key|x-auth-token)$/i;
+const BODY_TYPES = new Set(['xhr', 'fetch']);
+
+function maskHeaders(headers: Record<string, string>): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(headers)) out[k] = SENSITIVE_HEADERS.test(k) ? '***' : v;
+  return out;
+}
+
+// Total duration from Playwright's resource timing (-1 marks unavailable phases)
+function durationOf(timing: ReturnType<PwRequest['timing']>): number | undefined {
+  return timing.responseEnd >= 0 ? Math.round(timing.responseEnd) : undefined;
+}
+
+export function attachNetworkCapture(page: Page, logPath: string, opts: NetworkCaptureOptions): void {
+  const mask = opts.mask ?? ((line: string) => line);
+  const write = (entry: NetworkEntry) => fs.appendFileSync(logPath, JSON.stringify(maskJson(entry, mask)) + '\n');
+
+  page.on('requestfinished', async (req) => {
+    try {
+      const resp = await req.response();
+      const timing = req.timing();
+      const entry: NetworkEntry = {
+        time: new Date().toISOString(),
+        method: req.method(),
+        url: req.url(),
+        resourceType: req.resourceType(),
+        status: resp?.status(),
+        statusText: resp?.statusText(),
+        durationMs: durationOf(timing),
+        timing,
+        requestHeaders: maskHeaders(await req.allHeaders()),
+        responseHeaders: resp ? maskHeaders(await resp.allHeaders()) : undefined,
+      };
+      if (resp && opts.captureBodies && BODY_TYPES.has(req.resourceType())) {
+        const body = await resp.body().catch(() => null);
+        if (body) {
+          entry.body = body.subarray(0, opts.maxBodyBytes).toString('utf8');
+          entry.bodyTruncated = body.length > opts.maxBodyBytes;
+        }
+      }
+      write(entry);
+    } catch (e) {
+      // ignore network logging errors
+    }
+  });
+
+  page.on('requestfailed', async (req) => {
+    try {
+      const timing = req.timing();
+      write({
+        time: new Date().toISOString(),
+        method: req.method(),
+        url: req.url(),
+        resourceType: req.resourceType(),
+        failure: req.failure()?.errorText ?? 'unknown',
+        durationMs: durationOf(timing),
+        timing,
+        requestHeaders: maskHeaders(await req.allHeaders()),
+      });
+    } catch (e) {
+      // ignore network logging errors
+    }
+  });
+}
+
+export function hasNetworkFilter(f: NetworkFilter): boolean {
+  return f.statusMin !== undefined || f.statusMax !== undefined || !!f.method || !!f.resourceType || !!f.url || f.failed !== undefined;
+}
+
+// Keep network.log lines matching every given filter; unparseable lines are
+// dropped. Throws on an invalid filter (callers report it as a bad argument).
+export function filterNetworkLines(lines: string[], f: NetworkFilter): string[] {
+  for (const key of ['statusMin', 'statusMax'] as const) {
+    if (f[key] !== undefined && !Number.isInteger(f[key])) throw new Error(`${key} must be an integer`);
+  }
+  const url = f.url?.toLowerCase();
+  return lines.filter((line) => {
+    if (!line.trim()) return false;
+    let entry: Partial<NetworkEntry>;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      return false;
+    }
+    if (!entry || typeof entry !== 'object') return false;
+    if (f.failed !== undefined && (entry.failure !== undefined) !== f.failed) return false;
+    if (f.statusMin !== undefined && (entry.status === undefined || entry.status < f.statusMin)) return false;
+    if (f.statusMax !== undefined && (entry.status === undefined || entry.status > f.statusMax)) return false;
+    if (f.method && String(entry.method).toUpperCase() !== f.method.toUpperCase()) return false;
+    if (f.resourceType && entry.resourceType !== f.resourceType) return false;
+    if (url && !String(entry.url ?? '').toLowerCase().includes(url)) return false;
+    return true;
+  });
+}
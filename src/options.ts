@@ -0,0 +1,177 @@
+// Browser and context options for a run. The resolved options are written to
+// options.json in the run directory so a run can be reproduced exactly.
+
+import { z } from 'zod';
+import { chromium, firefox, webkit, devices, type Browser, type BrowserContextOptions } from 'playwright';
+import { a11yImpacts } from './a11y.js';
+
+export const regionSchema = z.object({
+  x: z.number().nonnegative(),
+  y: z.number().nonnegative(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+});
+
+// A region to ignore in visual diffs: page coordinates in CSS pixels, or a #id /
+// [data-testid] selector resolved from the screenshot's recorded element boxes
+export const visualMaskSchema = z.union([regionSchema, z.string().min(1)]);
+
+export type VisualMask = z.infer<typeof visualMaskSchema>;
+
+// Max % of pixels that may differ before a visual comparison fails
+export const visualThresholdSchema = z.number().min(0).max(100);
+
+export const runOptionsSchema = z.object({
+  headless: z.boolean().optional(),
+  browser: z.enum(['chromium', 'firefox', 'webkit']).optional(),
+  viewport: z.object({ width: z.number().int().positive(), height: z.number().int().positive() }).optional(),
+  device: z.string().min(1).optional(),
+  locale: z.string().min(1).optional(),
+  timezoneId: z.string().min(1).optional(),
+  colorScheme: z.enum(['light', 'dark', 'no-preference']).optional(),
+  baseURL: z.string().url().optional(),
+  // Store XHR/fetch response bodies in network.log, truncated to maxResponseBodyBytes
+  captureResponseBodies: z.boolean().optional(),
+  maxResponseBodyBytes: z.number().int().positive().optional(),
+  // Record network.har next to trace.zip; replay serves every request from a prior run's HAR
+  recordHar: z.boolean().optional(),
+  replayFrom: z.string().min(1).optional(),
+  // Screenshots differing from the script's baseline by more than this
+  // percentage of pixels fail the run (default 0.1)
+  visualThreshold: visualThresholdSchema.optional(),
+  visualMasks: z.array(visualMaskSchema).optional(),
+  // Whole-run limit (default 5 minutes) and default limit per helpers.step (none by default)
+  timeoutMs: z.number().int().positive().optional(),
+  stepTimeoutMs: z.number().int().positive().optional(),
+  // Rerun a failed script up to this many times; each attempt is its own run
+  retries: z.number().int().min(0).max(10).optional(),
+  // Start from the storage state of this auth profile (see auth.ts)
+  authProfile: z.string().min(1).optional(),
+  // Accessibility audit at the start and end of every helpers.step; violations
+  // of a11yFailOn impact or worse fail the run (see a11y.ts). a11yFailOn turns
+  // the step audits on unless a11y is explicitly false.
+  a11y: z.boolean().optional(),
+  a11yFailOn: z.enum(a11yImpacts).optional(),
+  // Flag step metrics this many percent worse than recent passing runs of
+  // the script as regressions (default 20, see metrics.ts)
+  perfBudgetPercent: z.number().positive().optional(),
+}).strict();
+
+export type RunOptions = z.infer<typeof runOptionsSchema>;
+
+export type ResolvedRunOptions = RunOptions & {
+  headless: boolean;
+  browser: NonNullable<RunOptions['browser']>;
+  captureResponseBodies: boolean;
+  maxResponseBodyBytes: number;
+  recordHar: boolean;
+  visualThreshold: number;
+  timeoutMs: number;
+  retries: number;
+  a11y: boolean;
+  perfBudgetPercent: number;
+};
+
+// JSON schema of RunOptions for the Anthropic tool definitions
+export const runOptionsJsonSchema = {
+  type: 'object',
+  nullable: true,
+  description: 'Browser/context options: headless, browser engine, viewport, device profile, locale, timezone, color scheme, base URL',
+  properties: {
+    headless: { type: 'boolean' },
+    browser: { type: 'string', enum: ['chromium', 'firefox', 'webkit'] },
+    viewport: {
+      type: 'object',
+      properties: { width: { type: 'number' }, height: { type: 'number' } },
+      required: ['width', 'height'],
+    },
+    device: { type: 'string', description: 'Playwright device name, e.g. "iPhone 13"' },
+    locale: { type: 'string' },
+    timezoneId: { type: 'string' },
+    colorScheme: { type: 'string', enum: ['light', 'dark', 'no-preference'] },
+    baseURL: { type: 'string' },
+    captureResponseBodies: { type: 'boolean', description: 'Store XHR/fetch response bodies in network.log' },
+    maxResponseBodyBytes: { type: 'number', description: 'Truncate captured bodies to this size (default 65536)' },
+    recordHar: { type: 'boolean', description: 'Record network.har for later replay' },
+    replayFrom: { type: 'string', description: 'Run id whose HAR serves all requests (offline, deterministic rerun)' },
+    visualThreshold: { type: 'number', description: 'Max % of pixels that may differ from the baseline before the run fails (default 0.1)' },
+    visualMasks: {
+      type: 'array',
+      description: 'Regions ignored in visual diffs: {x,y,width,height} or a #id / [data-testid] selector',
+      items: {},
+    },
+    timeoutMs: { type: 'number', description: 'Fail the run after this many milliseconds (default 300000)' },
+    stepTimeoutMs: { type: 'number', description: 'Default timeout for each helpers.step' },
+    retries: { type: 'number', description: 'Rerun a failed script up to this many times; pass-after-fail is reported as FLAKY' },
+    authProfile: { type: 'string', description: 'Start logged in, from the saved storage state of this auth profile' },
+    a11y: { type: 'boolean', description: 'Audit accessibility (axe-core) at the start and end of every helpers.step (default: on when a11yFailOn is set)' },
+    a11yFailOn: { type: 'string', enum: [...a11yImpacts], description: 'Fail the run on accessibility violations of this impact or worse; implies a11y' },
+    perfBudgetPercent: { type: 'number', description: 'Flag step metrics this many percent worse than recent passing runs as regressions (default 20)' },
+  },
+  additionalProperties: false,
+};
+
+// Headed by default so developers can watch the run, except where there is
+// no display to open a window on (CI, headless Linux containers).
+function defaultHeadless(): boolean {
+  if (process.env.CI) return true;
+  return process.platform === 'linux' && !process.env.DISPLAY && !process.env.WAYLAND_DISPLAY;
+}
+
+// Defaults from the config file and environment (see config.ts)
+let defaultRunOptions: RunOptions = {};
+
+export function setDefaultRunOptions(options: RunOptions): void {
+  defaultRunOptions = runOptionsSchema.parse(options);
+}
+
+export function resolveRunOptions(options: RunOptions = {}): ResolvedRunOptions {
+  const parsed: RunOptions = { ...defaultRunOptions };
+  for (const [key, value] of Object.entries(runOptionsSchema.parse(options))) {
+    if (value !== undefined) (parsed as Record<string, unknown>)[key] = value;
+  }
+  if (parsed.device && !devices[parsed.device]) {
+    throw new Error(`Unknown device profile: ${parsed.device}`);
+  }
+  const deviceEngine = parsed.device ? devices[parsed.device].defaultBrowserType : undefined;
+  return {
+    ...parsed,
+    headless: parsed.headless ?? defaultHeadless(),
+    browser: parsed.browser ?? deviceEngine ?? 'chromium',
+    captureResponseBodies: parsed.captureResponseBodies ?? false,
+    maxResponseBodyBytes: parsed.maxResponseBodyBytes ?? 64 * 1024,
+    recordHar: parsed.recordHar ?? false,
+    visualThreshold: parsed.visualThreshold ?? 0.1,
+    timeoutMs: parsed.timeoutMs ?? 5 * 60 * 1000,
+    retries: parsed.retries ?? 0,
+    a11y: parsed.a11y ?? parsed.a11yFailOn !== undefined,
+    perfBudgetPercent: parsed.perfBudgetPercent ?? 20,
+  };
+}
+
+export function launchBrowser(options: ResolvedRunOptions): Promise<Browser> {
+  const engine = options.browser === 'firefox' ? firefox : options.browser === 'webkit' ? webkit : chromium;
+  return engine.launch({ headless: options.headless });
+}
+
+export function contextOptions(options: ResolvedRunOptions): BrowserContextOptions {
+  // Device profile first so explicit options override it
+  const base: BrowserContextOptions = options.device ? { ...devices[options.device] } : {};
+  // Firefox does not support isMobile
+  if (options.browser === 'firefox') delete base.isMobile;
+  return {
+    ...base,
+    ...(options.viewport ? { viewport: options.viewport } : {}),
+    ...(options.locale ? { locale: options.locale } : {}),
+    ...(options.timezoneId ? { timezoneId: options.timezoneId } : {}),
+    ...(options.colorScheme ? { colorScheme: options.colorScheme } : {}),
+    ...(options.baseURL ? { baseURL: options.baseURL } : {}),
+  };
+}
+
+// Parse a "1280x720" CLI value into a viewport
+export function parseViewport(value: string): { width: number; height: number } {
+  const m = /^(\d+)x(\d+)$/.exec(value.trim());
+  if (!m) throw new Error(`Invalid viewport "${value}", expected WIDTHxHEIGHT`);
+  return { width: Number(m[1]), height: Number(m[2]) };
+}
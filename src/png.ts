@@ -0,0 +1,133 @@
+// Small PNG transforms: crop, downscale and fit under a byte budget when
+// returning screenshots to a model, and pixel diffs for visual regression.
+
+import { PNG } from 'pngjs';
+
+export type Region = { x: number; y: number; width: number; height: number };
+
+export function decodePng(buf: Buffer): PNG {
+  return PNG.sync.read(buf);
+}
+
+export function encodePng(png: PNG): Buffer {
+  return PNG.sync.write(png);
+}
+
+export function cropPng(src: PNG, region: Region): PNG {
+  const x = Math.max(0, Math.floor(region.x));
+  const y = Math.max(0, Math.floor(region.y));
+  const width = Math.min(src.width - x, Math.ceil(region.width));
+  const height = Math.min(src.height - y, Math.ceil(region.height));
+  if (width <= 0 || height <= 0) {
+    throw new Error(`Region ${JSON.stringify(region)} is outside the ${src.width}x${src.height} image`);
+  }
+  const out = new PNG({ width, height });
+  PNG.bitblt(src, out, x, y, width, height, 0, 0);
+  return out;
+}
+
+// Box-filter downscale; images already within the size are returned as-is
+export function scalePng(src: PNG, maxWidth: number): PNG {
+  if (src.width <= maxWidth) return src;
+  const ratio = src.width / maxWidth;
+  const width = Math.max(1, Math.round(src.width / ratio));
+  const height = Math.max(1, Math.round(src.height / ratio));
+  const out = new PNG({ width, height });
+  for (let oy = 0; oy < height; oy++) {
+    const y0 = Math.floor(oy * ratio);
+    const y1 = Math.min(src.height, Math.max(y0 + 1, Math.floor((oy + 1) * ratio)));
+    for (let ox = 0; ox < width; ox++) {
+      const x0 = Math.floor(ox * ratio);
+      const x1 = Math.min(src.width, Math.max(x0 + 1, Math.floor((ox + 1) * ratio)));
+      const sum = [0, 0, 0, 0];
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * src.width + sx) * 4;
+          for (let c = 0; c < 4; c++) sum[c] += src.data[i + c];
+        }
+      }
+      const n = (y1 - y0) * (x1 - x0);
+      const o = (oy * width + ox) * 4;
+      for (let c = 0; c < 4; c++) out.data[o + c] = Math.round(sum[c] / n);
+    }
+  }
+  return out;
+}
+
+// Shrink by a quarter at a time until the encoded image fits in maxBytes
+export function fitPng(src: PNG, maxBytes: number): Buffer {
+  let png = src;
+  let buf = encodePng(png);
+  while (buf.length > maxBytes && png.width > 64) {
+    png = scalePng(png, Math.floor(png.width * 0.75));
+    buf = encodePng(png);
+  }
+  if (buf.length > maxBytes) {
+    throw new Error(`Screenshot cannot be reduced below ${maxBytes} bytes`);
+  }
+  return buf;
+}
+
+export type DiffResult = {
+  diff: PNG;
+  width: number;
+  height: number;
+  mismatchedPixels: number;
+  comparedPixels: number;
+  mismatchPercent: number;
+};
+
+// Per-pixel comparison. Pixels whose largest channel difference exceeds
+// `tolerance` (0-255) count as mismatched and are painted red in the diff;
+// masked regions are skipped and tinted yellow. A size change counts the
+// non-overlapping area as mismatched.
+export function diffPng(a: PNG, b: PNG, opts: { tolerance?: number; masks?: Region[] } = {}): DiffResult {
+  const tolerance = opts.tolerance ?? 24;
+  const width = Math.max(a.width, b.width);
+  const height = Math.max(a.height, b.height);
+  const diff = new PNG({ width, height });
+  const masks = opts.masks ?? [];
+  const masked = (x: number, y: number) =>
+    masks.some((m) => x >= m.x && x < m.x + m.width && y >= m.y && y < m.y + m.height);
+
+  let mismatched = 0;
+  let compared = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      if (masked(x, y)) {
+        diff.data.set([255, 230, 120, 255], o);
+        continue;
+      }
+      compared++;
+      const inA = x < a.width && y < a.height;
+      const inB = x < b.width && y < b.height;
+      if (!inA || !inB) {
+        mismatched++;
+        diff.data.set([255, 0, 0, 255], o);
+        continue;
+      }
+      const ia = (y * a.width + x) * 4;
+      const ib = (y * b.width + x) * 4;
+      let delta = 0;
+      for (let c = 0; c < 4; c++) delta = Math.max(delta, Math.abs(a.data[ia + c] - b.data[ib + c]));
+      if (delta > tolerance) {
+        mismatched++;
+        diff.data.set([255, 0, 0, 255], o);
+      } else {
+        // Faded grayscale of the original for context
+        const gray = Math.round(0.3 * a.data[ia] + 0.59 * a.data[ia + 1] + 0.11 * a.data[ia + 2]);
+        const faded = 255 - Math.round((255 - gray) * 0.25);
+        diff.data.set([faded, faded, faded, 255], o);
+      }
+    }
+  }
+  return {
+    diff,
+    width,
+    height,
+    mismatchedPixels: mismatched,
+    comparedPixels: compared,
+    mismatchPercent: compared ? (mismatched / compared) * 100 : 0,
+  };
+}
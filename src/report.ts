@@ -0,0 +1,555 @@
+// Reports for CI and PR comments: JUnit XML, a stable JSON document, and
+// self-contained Markdown/HTML with step screenshots embedded. Markdown
+// without images doubles as a compact run summary for the assistant.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { readManifest, type RunStatus, type RunFailure, type AttemptOutcome } from './manifest.js';
+import { resolveRunDir, buildArtifactIndex, ArtifactError } from './artifacts.js';
+import { decodePng, encodePng, scalePng } from './png.js';
+import type { NetworkEntry } from './network.js';
+import type { AssertionResult } from './expect.js';
+import type { VisualDiff } from './visual.js';
+import type { SuiteResult } from './suite.js';
+
+export const REPORT_SCHEMA_VERSION = 1;
+
+export const reportFormats = ['junit', 'json', 'markdown', 'html'] as const;
+
+export type ReportFormat = (typeof reportFormats)[number];
+
+export const getReportRequestSchema = z.object({
+  // A run id or a suite id
+  runId: z.string().min(1),
+  format: z.enum(reportFormats).default('markdown'),
+  // Inline step screenshots as data: URIs (Markdown and HTML only)
+  embedScreenshots: z.boolean().optional(),
+});
+
+export type GetReportRequest = z.input<typeof getReportRequestSchema>;
+
+export type ReportStep = {
+  name: string;
+  status: 'passed' | 'failed';
+  startedAt: string;
+  durationMs: number;
+  error: string | null;
+  // Screenshots taken in or around the step (before_/after_/on_error_ included)
+  screenshots: string[];
+};
+
+export type NetworkFailure = {
+  method: string;
+  url: string;
+  // Absent when the request failed without a response
+  status: number | null;
+  failure: string | null;
+};
+
+export type RunReport = {
+  schemaVersion: typeof REPORT_SCHEMA_VERSION;
+  type: 'run';
+  runId: string;
+  // null for legacy runs without run.json
+  status: RunStatus | null;
+  scriptPath: string | null;
+  startedAt: string | null;
+  durationMs: number | null;
+  failure: RunFailure | null;
+  attempts: AttemptOutcome[];
+  steps: ReportStep[];
+  // Failed first
+  assertions: AssertionResult[];
+  consoleErrors: string[];
+  networkFailures: NetworkFailure[];
+  visual: VisualDiff[];
+  // Screenshots not taken inside any step
+  screenshots: string[];
+};
+
+export type SuiteReport = {
+  schemaVersion: typeof REPORT_SCHEMA_VERSION;
+  type: 'suite';
+  suiteId: string;
+  pattern: string;
+  status: 'PASS' | 'FAIL';
+  startedAt: string;
+  durationMs: number;
+  total: number;
+  passed: number;
+  failed: number;
+  flaky: number;
+  runs: Array<{ scriptPath: string; status: RunStatus; error: string | null; run: RunReport | null }>;
+};
+
+export type Report = RunReport | SuiteReport;
+
+export type ReportOptions = {
+  // Default true
+  embedScreenshots?: boolean;
+};
+
+export type RenderedReport = { contentType: string; body: string };
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  junit: 'application/xml',
+  json: 'application/json',
+  markdown: 'text/markdown',
+  html: 'text/html',
+};
+
+const MAX_NETWORK_FAILURES = 50;
+const MAX_CONSOLE_ERRORS = 20;
+const MAX_STACK_LINES = 15;
+// Embedded screenshots are downscaled to keep reports a reasonable size
+const EMBED_MAX_WIDTH = 640;
+
+type Action = { type: string; name?: string };
+
+function readActions(dir: string): Action[] {
+  const file = path.join(dir, 'actions.json');
+  if (!fs.existsSync(file)) return [];
+  try {
+    const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+    return Array.isArray(parsed) ? parsed : parsed?.actions ?? [];
+  } catch {
+    return [];
+  }
+}
+
+// Screenshots per step name. The before_/after_/on_error_ captures belong to
+// their step; anything else to the innermost step open when it was taken.
+function screenshotsByStep(actions: Action[], stepNames: Set<string>): { byStep: Map<string, string[]>; unattached: string[] } {
+  const byStep = new Map<string, string[]>();
+  const unattached: string[] = [];
+  const open: string[] = [];
+  for (const a of actions) {
+    if (!a.name) continue;
+    if (a.type === 'step:start') open.push(a.name);
+    else if (a.type === 'step:end' || a.type === 'step:error') open.splice(open.lastIndexOf(a.name), 1);
+    else if (a.type === 'screenshot') {
+      const own = /^(?:before|after|on_error)_(.+)$/.exec(a.name)?.[1];
+      const step = own && stepNames.has(own) ? own : open[open.length - 1];
+      if (step) byStep.set(step, [...(byStep.get(step) ?? []), a.name]);
+      else unattached.push(a.name);
+    }
+  }
+  return { byStep, unattached };
+}
+
+function readNetworkFailures(dir: string): NetworkFailure[] {
+  const file = path.join(dir, 'network.log');
+  if (!fs.existsSync(file)) return [];
+  const out: NetworkFailure[] = [];
+  for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+    if (!line.trim()) continue;
+    let entry: Partial<NetworkEntry>;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (entry.failure === undefined && (entry.status === undefined || entry.status < 400)) continue;
+    out.push({ method: entry.method ?? '', url: entry.url ?? '', status: entry.status ?? null, failure: entry.failure ?? null });
+    if (out.length >= MAX_NETWORK_FAILURES) break;
+  }
+  return out;
+}
+
+export function buildRunReport(dir: string): RunReport {
+  const manifest = readManifest(dir);
+  const index = buildArtifactIndex(dir);
+  const steps = [...index.steps].sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+  const { byStep, unattached } = screenshotsByStep(readActions(dir), new Set(steps.map((s) => s.name)));
+  const attached = new Set(Array.from(byStep.values()).flat());
+  return {
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    type: 'run',
+    runId: index.runId,
+    status: index.status,
+    scriptPath: index.scriptPath,
+    startedAt: index.startedAt,
+    durationMs: index.durationMs,
+    failure: manifest?.failure ?? null,
+    attempts: manifest?.attempts ?? [],
+    steps: steps.map((s) => ({
+      name: s.name,
+      status: s.status,
+      startedAt: s.startedAt,
+      durationMs: s.durationMs,
+      error: s.error ?? null,
+      screenshots: byStep.get(s.name) ?? [],
+    })),
+    assertions: index.assertions,
+    consoleErrors: index.criticalErrors,
+    networkFailures: readNetworkFailures(dir),
+    visual: index.visual,
+    // Legacy runs without actions.json still list what is on disk
+    screenshots: [...unattached, ...index.screenshots.filter((s) => !attached.has(s) && !unattached.includes(s))],
+  };
+}
+
+function buildSuiteReport(suite: SuiteResult): SuiteReport {
+  return {
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    type: 'suite',
+    suiteId: suite.suiteId,
+    pattern: suite.pattern,
+    status: suite.status,
+    startedAt: suite.startedAt,
+    durationMs: suite.durationMs,
+    total: suite.total,
+    passed: suite.passed,
+    failed: suite.failed,
+    flaky: suite.flaky,
+    runs: suite.runs.map((entry) => {
+      let run: RunReport | null = null;
+      try {
+        if (entry.runId) run = buildRunReport(resolveRunDir(entry.runId));
+      } catch {
+        // the run was pruned or deleted since
+      }
+      return { scriptPath: entry.scriptPath, status: entry.status, error: entry.error ?? null, run };
+    }),
+  };
+}
+
+// Report for a run id, or for a suite id (suite directories hold suite.json)
+export function buildReport(id: string): Report {
+  const dir = resolveRunDir(id);
+  const suiteFile = path.join(dir, 'suite.json');
+  if (fs.existsSync(suiteFile)) {
+    return buildSuiteReport(JSON.parse(fs.readFileSync(suiteFile, 'utf8')) as SuiteResult);
+  }
+  return buildRunReport(dir);
+}
+
+export function generateReport(input: unknown, defaults: ReportOptions = {}): RenderedReport {
+  const parsed = getReportRequestSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new ArtifactError('invalid_argument', parsed.error.issues.map((i) => `${i.path.join('.') || 'input'}: ${i.message}`).join('; '));
+  }
+  const { runId, format, embedScreenshots } = parsed.data;
+  const report = buildReport(runId);
+  return { contentType: CONTENT_TYPES[format], body: renderReport(report, format, { ...defaults, ...(embedScreenshots !== undefined ? { embedScreenshots } : {}) }) };
+}
+
+export function renderReport(report: Report, format: ReportFormat, opts: ReportOptions = {}): string {
+  const runs = report.type === 'run' ? [report] : report.runs.map((r) => r.run).filter((r): r is RunReport => r !== null);
+  const images = (opts.embedScreenshots ?? true) ? embedScreenshots(runs) : new Map<string, string>();
+  switch (format) {
+    case 'json':
+      return JSON.stringify(report, null, 2);
+    case 'junit':
+      return renderJunit(report);
+    case 'markdown':
+      return renderMarkdown(report, images);
+    case 'html':
+      return renderHtml(report, images);
+  }
+}
+
+// data: URIs keyed by `${runId}/${screenshot}`
+function embedScreenshots(runs: RunReport[]): Map<string, string> {
+  const out = new Map<string, string>();
+  for (const run of runs) {
+    let dir: string;
+    try {
+      dir = resolveRunDir(run.runId);
+    } catch {
+      continue;
+    }
+    for (const name of [...run.steps.flatMap((s) => s.screenshots), ...run.screenshots]) {
+      try {
+        const png = scalePng(decodePng(fs.readFileSync(path.join(dir, `${name}.png`))), EMBED_MAX_WIDTH);
+        out.set(`${run.runId}/${name}`, `data:image/png;base64,${encodePng(png).toString('base64')}`);
+      } catch {
+        // missing or unreadable screenshot: leave it out
+      }
+    }
+  }
+  return out;
+}
+
+// Why a run failed, one line each: the thrown error, failed assertions,
+// console errors and visual diffs over threshold
+function failureReasons(run: RunReport): string[] {
+  const reasons: string[] = [];
+  if (run.failure) reasons.push(`${run.failure.category}: ${run.failure.message}`);
+  // Soft assertion failures are already listed in the failure message
+  const listed = run.failure?.category === 'assertion' ? run.failure.message : '';
+  for (const a of run.assertions) if (!a.passed && !(a.message && listed.includes(a.message))) reasons.push(a.message ?? a.assertion);
+  if (run.consoleErrors.length) reasons.push(`${run.consoleErrors.length} console error(s)`);
+  for (const d of run.visual) if (!d.passed) reasons.push(`visual diff ${d.name}: ${d.mismatchPercent}% over ${d.threshold}%`);
+  return reasons;
+}
+
+function scriptLabel(run: { scriptPath: string | null; runId: string }): string {
+  return run.scriptPath ? path.relative(process.cwd(), run.scriptPath) : run.runId;
+}
+
+function seconds(ms: number | null): string {
+  return ((ms ?? 0) / 1000).toFixed(3);
+}
+
+// ---- JUnit XML ----
+
+function xml(value: string): string {
+  return value
+    // Characters XML 1.0 cannot represent at all
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// One <testsuite> per run and one <testcase> per step. A failure outside any
+// step (or a run without steps) gets a testcase named after the script.
+function junitSuite(run: RunReport | null, scriptPath: string, status: RunStatus | null, error: string | null): { xml: string; tests: number; failures: number } {
+  const label = run ? scriptLabel(run) : path.relative(process.cwd(), scriptPath);
+  const cases: Array<{ name: string; time: string; failure?: { type: string; message: string; body: string } }> = [];
+  if (run) {
+    for (const step of run.steps) {
+      const failed = run.assertions.filter((a) => !a.passed && a.step === step.name);
+      const thrown = step.status === 'failed' ? step.error ?? 'step failed' : null;
+      const messages = [...(thrown ? [thrown] : []), ...failed.map((a) => a.message ?? a.assertion)];
+      cases.push({
+        name: step.name,
+        time: seconds(step.durationMs),
+        ...(messages.length ? {
+          failure: {
+            type: thrown && run.failure?.step === step.name ? run.failure.category : 'assertion',
+            message: messages[0],
+            body: [...messages, ...(thrown && run.failure?.step === step.name && run.failure.stack ? [run.failure.stack] : [])].join('\n'),
+          },
+        } : {}),
+      });
+    }
+  }
+  const stepFailed = cases.some((c) => c.failure);
+  if (status === 'FAIL' && !stepFailed) {
+    const reasons = run ? failureReasons(run) : [error ?? 'run failed'];
+    cases.push({
+      name: label,
+      time: seconds(run?.durationMs ?? 0),
+      failure: { type: run?.failure?.category ?? 'error', message: reasons[0] ?? 'run failed', body: [...reasons, ...(run?.failure?.stack ? [run.failure.stack] : [])].join('\n') },
+    });
+  } else if (cases.length === 0) {
+    cases.push({ name: label, time: seconds(run?.durationMs ?? 0) });
+  }
+
+  const failures = cases.filter((c) => c.failure).length;
+  const props = [
+    ...(run ? [['runId', run.runId]] : []),
+    ['status', status ?? 'UNKNOWN'],
+    ...(run?.attempts.length ? [['attempts', String(run.attempts.length)]] : []),
+  ];
+  const lines = [
+    `  <testsuite name="${xml(label)}" tests="${cases.length}" failures="${failures}" errors="0" skipped="0" time="${seconds(run?.durationMs ?? 0)}"${run?.startedAt ? ` timestamp="${run.startedAt.slice(0, 19)}"` : ''}>`,
+    '    <properties>',
+    ...props.map(([name, value]) => `      <property name="${name}" value="${xml(value)}"/>`),
+    '    </properties>',
+    ...cases.map((c) => {
+      const open = `    <testcase classname="${xml(label)}" name="${xml(c.name)}" time="${c.time}"`;
+      if (!c.failure) return `${open}/>`;
+      return `${open}>\n      <failure type="${xml(c.failure.type)}" message="${xml(c.failure.message)}">${xml(c.failure.body)}</failure>\n    </testcase>`;
+    }),
+    ...(run?.consoleErrors.length ? [`    <system-err>${xml(run.consoleErrors.join('\n'))}</system-err>`] : []),
+    '  </testsuite>',
+  ];
+  return { xml: lines.join('\n'), tests: cases.length, failures };
+}
+
+function renderJunit(report: Report): string {
+  const suites = report.type === 'run'
+    ? [junitSuite(report, report.scriptPath ?? report.runId, report.status, null)]
+    : report.runs.map((r) => junitSuite(r.run, r.scriptPath, r.status, r.error));
+  const name = report.type === 'run' ? report.runId : report.suiteId;
+  const tests = suites.reduce((n, s) => n + s.tests, 0);
+  const failures = suites.reduce((n, s) => n + s.failures, 0);
+  const time = seconds(report.durationMs);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${xml(name)}" tests="${tests}" failures="${failures}" errors="0" time="${time}">`,
+    ...suites.map((s) => s.xml),
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+// ---- Markdown ----
+
+function mdCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+function fence(text: string): string {
+  const ticks = /`{3,}/.test(text) ? '~~~~' : '```';
+  return `${ticks}\n${text}\n${ticks}`;
+}
+
+function clip(lines: string[], max: number): string[] {
+  return lines.length > max ? [...lines.slice(0, max), `... ${lines.length - max} more`] : lines;
+}
+
+function markdownRun(run: RunReport, images: Map<string, string>, level: number): string {
+  const h = '#'.repeat(level);
+  const out: string[] = [];
+  out.push(`${h} ${run.status ?? 'UNKNOWN'} ${scriptLabel(run)}`);
+  out.push('');
+  const meta = [`Run \`${run.runId}\``];
+  if (run.startedAt) meta.push(`started ${run.startedAt}`);
+  if (run.durationMs !== null) meta.push(`${(run.durationMs / 1000).toFixed(1)}s`);
+  out.push(meta.join(', '));
+  if (run.attempts.length) out.push(`\nAttempts: ${run.attempts.map((a) => `\`${a.runId}\` ${a.status}`).join(', ')}`);
+
+  if (run.failure) {
+    const { category, step, location, message, stack } = run.failure;
+    const where = location ? ` at \`${path.relative(process.cwd(), location.file)}:${location.line}:${location.column}\`` : '';
+    out.push('', `${h}# Failure`, '', `**${category}**${step ? ` in step "${step}"` : ''}${where}: ${message}`);
+    if (stack) out.push('', fence(clip(stack.split('\n'), MAX_STACK_LINES).join('\n')));
+  }
+
+  if (run.assertions.length) {
+    const failed = run.assertions.filter((a) => !a.passed);
+    out.push('', `${h}# Assertions`, '', `${failed.length} failed, ${run.assertions.length - failed.length} passed`);
+    if (failed.length) out.push('', ...failed.map((a) => `- ${a.soft ? '(soft) ' : ''}${a.step ? `[${a.step}] ` : ''}${a.message ?? a.assertion}`));
+  }
+
+  if (run.steps.length) {
+    out.push('', `${h}# Steps`, '', '| Step | Status | Duration | Screenshots |', '| --- | --- | --- | --- |');
+    for (const s of run.steps) {
+      const status = s.status === 'failed' ? `failed: ${s.error ?? ''}` : 'passed';
+      out.push(`| ${mdCell(s.name)} | ${mdCell(status)} | ${(s.durationMs / 1000).toFixed(1)}s | ${mdCell(s.screenshots.join(', '))} |`);
+    }
+  }
+
+  const shots = [...run.steps.flatMap((s) => s.screenshots), ...run.screenshots].filter((n) => images.has(`${run.runId}/${n}`));
+  if (shots.length) {
+    out.push('', `${h}# Screenshots`);
+    for (const name of shots) out.push('', `**${name}**`, '', `![${name}](${images.get(`${run.runId}/${name}`)})`);
+  } else if (run.screenshots.length) {
+    out.push('', `Other screenshots: ${run.screenshots.join(', ')}`);
+  }
+
+  if (run.consoleErrors.length) {
+    out.push('', `${h}# Console errors`, '', fence(clip(run.consoleErrors, MAX_CONSOLE_ERRORS).join('\n')));
+  }
+
+  if (run.networkFailures.length) {
+    out.push('', `${h}# Network failures`, '');
+    for (const f of run.networkFailures) out.push(`- ${f.method} ${f.url} → ${f.status ?? f.failure}`);
+  }
+
+  const overThreshold = run.visual.filter((d) => !d.passed);
+  if (overThreshold.length) {
+    out.push('', `${h}# Visual diffs`, '');
+    for (const d of overThreshold) out.push(`- ${d.name}: ${d.mismatchPercent}% against ${d.against} (threshold ${d.threshold}%)`);
+  }
+  return out.join('\n');
+}
+
+function renderMarkdown(report: Report, images: Map<string, string>): string {
+  if (report.type === 'run') return `${markdownRun(report, images, 1)}\n`;
+  const out = [
+    `# ${report.status} suite ${report.suiteId}`,
+    '',
+    `\`${report.pattern}\`: ${report.passed}/${report.total} passed${report.flaky ? ` (${report.flaky} flaky)` : ''}, ${report.failed} failed, ${(report.durationMs / 1000).toFixed(1)}s`,
+    '',
+    '| Script | Status | Run |',
+    '| --- | --- | --- |',
+    ...report.runs.map((r) => `| ${mdCell(path.relative(process.cwd(), r.scriptPath))} | ${r.status} | ${r.run ? `\`${r.run.runId}\`` : mdCell(r.error ?? '-')} |`),
+  ];
+  // Failures first, so a truncated comment still shows what broke
+  const runs = report.runs.map((r) => r.run).filter((r): r is RunReport => r !== null);
+  const ordered = [...runs.filter((r) => r.status === 'FAIL'), ...runs.filter((r) => r.status !== 'FAIL')];
+  for (const run of ordered) out.push('', markdownRun(run, images, 2));
+  return `${out.join('\n')}\n`;
+}
+
+// ---- HTML ----
+
+function html(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const HTML_STYLE = `body{font-family:system-ui,sans-serif;margin:2rem;color:#1f2328}
+h1,h2,h3{margin:1.2em 0 .4em}table{border-collapse:collapse}td,th{border:1px solid #d0d7de;padding:4px 8px;text-align:left;vertical-align:top}
+pre{background:#f6f8fa;padding:8px;overflow:auto}.PASS{color:#1a7f37}.FAIL{color:#cf222e}.FLAKY{color:#9a6700}
+figure{display:inline-block;margin:0 1rem 1rem 0}figcaption{font-size:.85em;color:#59636e}img{max-width:640px;border:1px solid #d0d7de}`;
+
+function htmlRun(run: RunReport, images: Map<string, string>, level: number): string {
+  const h = (n: number, text: string, cls = '') => `<h${level + n}${cls ? ` class="${cls}"` : ''}>${text}</h${level + n}>`;
+  const out: string[] = [];
+  out.push(h(0, `${html(run.status ?? 'UNKNOWN')} ${html(scriptLabel(run))}`, run.status ?? ''));
+  out.push(`<p>Run <code>${html(run.runId)}</code>${run.startedAt ? `, started ${html(run.startedAt)}` : ''}${run.durationMs !== null ? `, ${(run.durationMs / 1000).toFixed(1)}s` : ''}</p>`);
+  if (run.attempts.length) out.push(`<p>Attempts: ${run.attempts.map((a) => `<code>${html(a.runId)}</code> <span class="${a.status}">${a.status}</span>`).join(', ')}</p>`);
+
+  if (run.failure) {
+    const { category, step, location, message, stack } = run.failure;
+    const where = location ? ` at <code>${html(`${path.relative(process.cwd(), location.file)}:${location.line}:${location.column}`)}</code>` : '';
+    out.push(h(1, 'Failure'), `<p><strong>${html(category)}</strong>${step ? ` in step "${html(step)}"` : ''}${where}: ${html(message)}</p>`);
+    if (stack) out.push(`<pre>${html(stack)}</pre>`);
+  }
+
+  if (run.assertions.length) {
+    out.push(h(1, 'Assertions'), '<table><tr><th>Result</th><th>Assertion</th><th>Step</th><th>Expected</th><th>Actual</th></tr>');
+    for (const a of run.assertions) {
+      const result = a.passed ? 'passed' : a.soft ? 'failed (soft)' : 'failed';
+      out.push(`<tr><td class="${a.passed ? 'PASS' : 'FAIL'}">${result}</td><td>${html(`${a.assertion}${a.target ? ` ${a.target}` : ''}`)}</td><td>${html(a.step ?? '')}</td><td><code>${html(JSON.stringify(a.expected))}</code></td><td><code>${html(JSON.stringify(a.actual) ?? '')}</code></td></tr>`);
+    }
+    out.push('</table>');
+  }
+
+  if (run.steps.length) {
+    out.push(h(1, 'Steps'));
+    for (const s of run.steps) {
+      out.push(h(2, `${html(s.name)} <span class="${s.status === 'passed' ? 'PASS' : 'FAIL'}">${s.status}</span> <small>${(s.durationMs / 1000).toFixed(1)}s</small>`));
+      if (s.error) out.push(`<pre>${html(s.error)}</pre>`);
+      out.push(...s.screenshots.map((n) => htmlFigure(run, n, images)));
+    }
+  }
+  if (run.screenshots.length) out.push(h(1, 'Screenshots'), ...run.screenshots.map((n) => htmlFigure(run, n, images)));
+
+  if (run.consoleErrors.length) out.push(h(1, 'Console errors'), `<pre>${html(run.consoleErrors.join('\n'))}</pre>`);
+
+  if (run.networkFailures.length) {
+    out.push(h(1, 'Network failures'), '<table><tr><th>Method</th><th>URL</th><th>Result</th></tr>');
+    for (const f of run.networkFailures) out.push(`<tr><td>${html(f.method)}</td><td>${html(f.url)}</td><td>${html(String(f.status ?? f.failure))}</td></tr>`);
+    out.push('</table>');
+  }
+
+  const overThreshold = run.visual.filter((d) => !d.passed);
+  if (overThreshold.length) {
+    out.push(h(1, 'Visual diffs'), '<ul>', ...overThreshold.map((d) => `<li>${html(d.name)}: ${d.mismatchPercent}% against ${html(d.against)} (threshold ${d.threshold}%)</li>`), '</ul>');
+  }
+  return out.join('\n');
+}
+
+function htmlFigure(run: RunReport, name: string, images: Map<string, string>): string {
+  const src = images.get(`${run.runId}/${name}`);
+  if (!src) return `<p><code>${html(name)}.png</code></p>`;
+  return `<figure><img src="${src}" alt="${html(name)}"><figcaption>${html(name)}</figcaption></figure>`;
+}
+
+function renderHtml(report: Report, images: Map<string, string>): string {
+  const title = report.type === 'run' ? `${report.status ?? 'UNKNOWN'} ${scriptLabel(report)}` : `${report.status} suite ${report.suiteId}`;
+  let body: string;
+  if (report.type === 'run') {
+    body = htmlRun(report, images, 1);
+  } else {
+    const rows = report.runs.map((r) => `<tr><td>${html(path.relative(process.cwd(), r.scriptPath))}</td><td class="${r.status}">${r.status}</td><td>${r.run ? `<code>${html(r.run.runId)}</code>` : html(r.error ?? '-')}</td></tr>`);
+    const runs = report.runs.map((r) => r.run).filter((r): r is RunReport => r !== null);
+    body = [
+      `<h1 class="${report.status}">${html(title)}</h1>`,
+      `<p><code>${html(report.pattern)}</code>: ${report.passed}/${report.total} passed${report.flaky ? ` (${report.flaky} flaky)` : ''}, ${report.failed} failed, ${(report.durationMs / 1000).toFixed(1)}s</p>`,
+      '<table><tr><th>Script</th><th>Status</th><th>Run</th></tr>',
+      ...rows,
+      '</table>',
+      ...[...runs.filter((r) => r.status === 'FAIL'), ...runs.filter((r) => r.status !== 'FAIL')].map((r) => htmlRun(r, images, 2)),
+    ].join('\n');
+  }
+  return `<!doctype html>\n<html>\n<head>\n<meta charset="utf-8">\n<title>${html(title)}</title>\n<style>${HTML_STYLE}</style>\n</head>\n<body>\n${body}\n</body>\n</html>\n`;
+}
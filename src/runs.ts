@@ -0,0 +1,237 @@
+// Run history: list, filter, delete and prune run directories under runs/.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { readManifest, type RunStatus } from './manifest.js';
+import { ArtifactError, resolveRunDir } from './artifacts.js';
+import { runsDir } from './config.js';
+
+export type RunSummary = {
+  runId: string;
+  status: RunStatus | null;
+  scriptPath: string | null;
+  startedAt: string;
+  durationMs: number | null;
+  criticalErrors: number;
+  // Earlier attempt of a retried run; the final attempt carries the outcome
+  supersededBy?: string;
+};
+
+export type RunFilter = {
+  status?: RunStatus;
+  // Case-insensitive substring of the script path
+  script?: string;
+  // ISO dates, inclusive
+  from?: string;
+  to?: string;
+  offset?: number;
+  limit?: number;
+};
+
+export type RunPage = {
+  total: number;
+  offset: number;
+  limit: number;
+  runs: RunSummary[];
+};
+
+export type FlakeRate = {
+  scriptPath: string;
+  // Final outcomes only; earlier attempts of retried runs are not counted
+  runs: number;
+  passed: number;
+  failed: number;
+  flaky: number;
+  // flaky / runs
+  flakeRate: number;
+};
+
+export type RetentionPolicy = {
+  keepLast?: number;
+  maxAgeDays?: number;
+  // Failed runs are kept regardless of age unless this is false
+  keepFailures?: boolean;
+};
+
+function summarize(runId: string, dir: string): RunSummary {
+  try {
+    const manifest = readManifest(dir);
+    if (manifest) {
+      return {
+        runId,
+        status: manifest.status,
+        scriptPath: manifest.scriptPath,
+        startedAt: manifest.startedAt,
+        durationMs: manifest.durationMs,
+        criticalErrors: manifest.criticalErrors.length,
+        ...(manifest.supersededBy ? { supersededBy: manifest.supersededBy } : {}),
+      };
+    }
+  } catch {
+    // unreadable manifest: fall through to a legacy summary
+  }
+  return {
+    runId,
+    status: null,
+    scriptPath: null,
+    startedAt: fs.statSync(dir).mtime.toISOString(),
+    durationMs: null,
+    criticalErrors: 0,
+  };
+}
+
+// All runs, newest first. Suite directories are not runs and are skipped.
+export function allRuns(): RunSummary[] {
+  const root = runsDir();
+  if (!fs.existsSync(root)) return [];
+  return fs.readdirSync(root, { withFileTypes: true })
+    .filter((e) => e.isDirectory() && !fs.existsSync(path.join(root, e.name, 'suite.json')))
+    .map((e) => summarize(e.name, path.join(root, e.name)))
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+// Runs newest first by directory modification time (when the run last wrote
+// an artifact), summarized one at a time so callers can stop early
+export function* recentRuns(): Generator<RunSummary> {
+  const root = runsDir();
+  if (!fs.existsSync(root)) return;
+  const dirs = fs.readdirSync(root, { withFileTypes: true })
+    .filter((e) => e.isDirectory())
+    .map((e) => ({ name: e.name, dir: path.join(root, e.name), mtimeMs: fs.statSync(path.join(root, e.name)).mtimeMs }))
+    .sort((a, b) => b.mtimeMs - a.mtimeMs);
+  for (const { name, dir } of dirs) {
+    if (!fs.existsSync(path.join(dir, 'suite.json'))) yield summarize(name, dir);
+  }
+}
+
+// ISO form of a from/to filter; an unparseable date is a 400
+function filterDate(value: string | undefined, key: 'from' | 'to'): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw new ArtifactError('invalid_argument', `${key} is not a valid date: ${value}`);
+  return date.toISOString();
+}
+
+export function listRuns(filter: RunFilter = {}): RunPage {
+  const script = filter.script?.toLowerCase();
+  const from = filterDate(filter.from, 'from');
+  const to = filterDate(filter.to, 'to');
+  const matched = allRuns().filter((r) => {
+    if (filter.status && r.status !== filter.status) return false;
+    if (script && !(r.scriptPath ?? '').toLowerCase().includes(script)) return false;
+    if (from && r.startedAt < from) return false;
+    if (to && r.startedAt > to) return false;
+    return true;
+  });
+  const offset = Math.max(0, filter.offset ?? 0);
+  const limit = Math.max(1, filter.limit ?? 50);
+  return { total: matched.length, offset, limit, runs: matched.slice(offset, offset + limit) };
+}
+
+// Per-script pass/fail/flaky counts over the run history, flakiest first.
+// `script`, `from` and `to` narrow the history as in listRuns.
+export function flakeRates(filter: Pick<RunFilter, 'script' | 'from' | 'to'> = {}): FlakeRate[] {
+  const { runs } = listRuns({ ...filter, limit: Number.MAX_SAFE_INTEGER });
+  const byScript = new Map<string, FlakeRate>();
+  for (const r of runs) {
+    if (!r.scriptPath || !r.status || r.supersededBy) continue;
+    const rate = byScript.get(r.scriptPath) ?? { scriptPath: r.scriptPath, runs: 0, passed: 0, failed: 0, flaky: 0, flakeRate: 0 };
+    rate.runs++;
+    if (r.status === 'PASS') rate.passed++;
+    else if (r.status === 'FAIL') rate.failed++;
+    else rate.flaky++;
+    rate.flakeRate = Number((rate.flaky / rate.runs).toFixed(4));
+    byScript.set(r.scriptPath, rate);
+  }
+  return Array.from(byScript.values()).sort((a, b) => b.flakeRate - a.flakeRate || a.scriptPath.localeCompare(b.scriptPath));
+}
+
+export function formatFlakeTable(rates: FlakeRate[]): string {
+  const rows = [
+    ['SCRIPT', 'RUNS', 'PASS', 'FAIL', 'FLAKY', 'FLAKE RATE'],
+    ...rates.map((r) => [
+      path.relative(process.cwd(), r.scriptPath),
+      String(r.runs),
+      String(r.passed),
+      String(r.failed),
+      String(r.flaky),
+      `${(r.flakeRate * 100).toFixed(1)}%`,
+    ]),
+  ];
+  return formatTable(rows);
+}
+
+export function deleteRun(runId: string): void {
+  fs.rmSync(resolveRunDir(runId), { recursive: true, force: true });
+}
+
+// Run ids listed in suite.json files; a suite's report links to them
+function suiteRunIds(): Set<string> {
+  const root = runsDir();
+  const ids = new Set<string>();
+  if (!fs.existsSync(root)) return ids;
+  for (const entry of fs.readdirSync(root, { withFileTypes: true })) {
+    const file = path.join(root, entry.name, 'suite.json');
+    if (!entry.isDirectory() || !fs.existsSync(file)) continue;
+    try {
+      const suite = JSON.parse(fs.readFileSync(file, 'utf8')) as { runs?: { runId: string | null }[] };
+      for (const r of suite.runs ?? []) if (r.runId) ids.add(r.runId);
+    } catch {
+      // unreadable suite.json: nothing to protect
+    }
+  }
+  return ids;
+}
+
+// Delete runs outside the policy. A run survives if it is among the newest
+// `keepLast`, younger than `maxAgeDays`, or failed (unless keepFailures is false).
+// Runs listed in `inUse` (still being written) or in a suite.json are never
+// deleted. With neither limit set nothing is deleted. Returns the deleted run ids.
+export function pruneRuns(policy: RetentionPolicy, inUse: Iterable<string> = []): string[] {
+  if (policy.keepLast === undefined && policy.maxAgeDays === undefined) return [];
+  const protectedIds = new Set([...inUse, ...suiteRunIds()]);
+  const keepFailures = policy.keepFailures ?? true;
+  const cutoff = policy.maxAgeDays !== undefined
+    ? new Date(Date.now() - policy.maxAgeDays * 24 * 60 * 60 * 1000).toISOString()
+    : undefined;
+  const deleted: string[] = [];
+  allRuns().forEach((r, i) => {
+    if (policy.keepLast !== undefined && i < policy.keepLast) return;
+    if (cutoff && r.startedAt >= cutoff) return;
+    if (keepFailures && r.status === 'FAIL') return;
+    if (protectedIds.has(r.runId)) return;
+    deleteRun(r.runId);
+    deleted.push(r.runId);
+  });
+  return deleted;
+}
+
+// Retention from the environment (RUNS_KEEP_LAST, RUNS_MAX_AGE_DAYS), applied after queued runs
+export function retentionFromEnv(): RetentionPolicy {
+  const num = (v: string | undefined) => (v && Number.isFinite(Number(v)) ? Number(v) : undefined);
+  return {
+    keepLast: num(process.env.RUNS_KEEP_LAST),
+    maxAgeDays: num(process.env.RUNS_MAX_AGE_DAYS),
+  };
+}
+
+// Left-aligned columns; the first row is the header
+export function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, c) => Math.max(...rows.map((row) => row[c].length)));
+  return rows.map((row) => row.map((cell, c) => cell.padEnd(widths[c])).join('  ').trimEnd()).join('\n');
+}
+
+export function formatRunsTable(runs: RunSummary[]): string {
+  const rows = [
+    ['RUN ID', 'STATUS', 'STARTED', 'DURATION', 'ERRORS', 'SCRIPT'],
+    ...runs.map((r) => [
+      r.runId,
+      r.status ?? '-',
+      r.startedAt.replace('T', ' ').slice(0, 19),
+      r.durationMs === null ? '-' : `${(r.durationMs / 1000).toFixed(1)}s`,
+      String(r.criticalErrors),
+      r.scriptPath ? path.relative(process.cwd(), r.scriptPath) : '-',
+    ]),
+  ];
+  return formatTable(rows);
+}
@@ -0,0 +1,174 @@
+// Loading the user's test script, either from a path on disk or from inline
+// source. Inline source is kept in the run directory as script.ts and
+// transpiled to script.mjs next to it, so the run records exactly what ran.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import ts from 'typescript';
+import type { FailureCategory } from './manifest.js';
+
+export const INLINE_SCRIPT_FILE = 'script.ts';
+const COMPILED_SCRIPT_FILE = 'script.mjs';
+const SOURCE_MAP_FILE = 'script.mjs.map';
+
+// Inline TypeScript/JavaScript source with the same default-export contract as a script file
+export type InlineScript = { source: string };
+
+export type ScriptRef = string | InlineScript;
+
+// The script could not be compiled or imported; no test code ran
+export class ScriptLoadError extends Error {
+  constructor(public readonly category: FailureCategory, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ScriptLoadError';
+  }
+}
+
+export function isInlineScript(script: ScriptRef): script is InlineScript {
+  return typeof script !== 'string';
+}
+
+// run_test input: exactly one of scriptPath or inline source
+export function scriptRefOf(args: { scriptPath?: unknown; source?: unknown }): ScriptRef {
+  const hasPath = typeof args.scriptPath === 'string' && args.scriptPath.length > 0;
+  const hasSource = typeof args.source === 'string' && args.source.length > 0;
+  if (hasPath === hasSource) throw new Error('Provide exactly one of scriptPath or source');
+  return hasPath ? (args.scriptPath as string) : { source: args.source as string };
+}
+
+// Path recorded in the manifest: the script itself, or the stored copy of inline source
+export function scriptPathOf(script: ScriptRef, artifactsDir: string): string {
+  return isInlineScript(script) ? path.join(artifactsDir, INLINE_SCRIPT_FILE) : path.resolve(script);
+}
+
+// Whether a manifest's scriptPath is the stored copy of inline source
+export function isInlineScriptPath(scriptPath: string, artifactsDir: string): boolean {
+  return path.resolve(scriptPath) === path.join(path.resolve(artifactsDir), INLINE_SCRIPT_FILE);
+}
+
+// Transpile to an ES module. Only syntax errors are reported; type errors do
+// not stop a test from running.
+export function transpileScript(source: string): { code: string; map: string; errors: string[] } {
+  const out = ts.transpileModule(source, {
+    fileName: INLINE_SCRIPT_FILE,
+    reportDiagnostics: true,
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.ES2022,
+      esModuleInterop: true,
+      sourceMap: true,
+    },
+  });
+  const errors = (out.diagnostics ?? [])
+    .filter((d) => d.category === ts.DiagnosticCategory.Error)
+    .map((d) => {
+      const message = ts.flattenDiagnosticMessageText(d.messageText, '\n');
+      if (!d.file || d.start === undefined) return message;
+      const { line, character } = d.file.getLineAndCharacterOfPosition(d.start);
+      return `${INLINE_SCRIPT_FILE}:${line + 1}:${character + 1} ${message}`;
+    });
+  const code = out.outputText.replace(/\/\/# sourceMappingURL=.*$/m, `//# sourceMappingURL=${SOURCE_MAP_FILE}`);
+  return { code, map: out.sourceMapText ?? '', errors };
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Decode a source map's mappings into, per generated line, segments of
+// [generatedColumn, sourceLine, sourceColumn] (all zero-based)
+function decodeMappings(mappings: string): Array<Array<[number, number, number]>> {
+  const lines: Array<Array<[number, number, number]>> = [];
+  let srcLine = 0;
+  let srcCol = 0;
+  for (const line of mappings.split(';')) {
+    const segments: Array<[number, number, number]> = [];
+    let genCol = 0;
+    for (const seg of line.split(',')) {
+      if (!seg) continue;
+      const fields: number[] = [];
+      let value = 0;
+      let shift = 0;
+      for (const ch of seg) {
+        const digit = BASE64.indexOf(ch);
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+          shift += 5;
+        } else {
+          fields.push(value & 1 ? -(value >>> 1) : value >>> 1);
+          value = 0;
+          shift = 0;
+        }
+      }
+      genCol += fields[0];
+      if (fields.length >= 4) {
+        srcLine += fields[2];
+        srcCol += fields[3];
+        segments.push([genCol, srcLine, srcCol]);
+      }
+    }
+    lines.push(segments);
+  }
+  return lines;
+}
+
+// Rewrite script.mjs:line:col frames of an inline script's stack to the
+// matching positions in script.ts. Other stacks are returned unchanged.
+export function mapScriptStack(stack: string, artifactsDir: string): string {
+  const mapFile = path.join(artifactsDir, SOURCE_MAP_FILE);
+  if (!fs.existsSync(mapFile)) return stack;
+  let lines: ReturnType<typeof decodeMappings>;
+  try {
+    lines = decodeMappings((JSON.parse(fs.readFileSync(mapFile, 'utf8')) as { mappings: string }).mappings);
+  } catch {
+    return stack;
+  }
+  const compiled = path.join(artifactsDir, COMPILED_SCRIPT_FILE);
+  const source = path.join(artifactsDir, INLINE_SCRIPT_FILE);
+  const frame = /(?:file:\/\/)?([^\s()]*script\.mjs):(\d+):(\d+)/g;
+  return stack.replace(frame, (match, file: string, line: string, col: string) => {
+    if (path.resolve(file) !== compiled) return match;
+    const segments = lines[Number(line) - 1] ?? [];
+    let hit: [number, number, number] | undefined;
+    for (const seg of segments) {
+      if (seg[0] <= Number(col) - 1) hit = seg;
+      else break;
+    }
+    hit ??= segments[0];
+    return hit ? `${source}:${hit[1] + 1}:${hit[2] + 1}` : match;
+  });
+}
+
+// Avoid importing node:url types by constructing file URL href manually
+export function toFileHref(p: string): string {
+  const abs = path.isAbsolute(p) ? p : path.resolve(p);
+  const withSlashes = abs.replace(/\\/g, '/');
+  // Ensure leading slash on Windows paths
+  const prefix = withSlashes.startsWith('/') ? '' : '/';
+  return `file://${prefix}${withSlashes}`;
+}
+
+// Import the script and return its exported test function
+export async function loadScript(script: ScriptRef, artifactsDir: string): Promise<(...args: unknown[]) => unknown> {
+  let file: string;
+  if (isInlineScript(script)) {
+    fs.writeFileSync(path.join(artifactsDir, INLINE_SCRIPT_FILE), script.source);
+    const { code, map, errors } = transpileScript(script.source);
+    if (errors.length > 0) throw new ScriptLoadError('compile', errors.join('\n'));
+    file = path.join(artifactsDir, COMPILED_SCRIPT_FILE);
+    fs.writeFileSync(file, code);
+    fs.writeFileSync(path.join(artifactsDir, SOURCE_MAP_FILE), map);
+  } else {
+    file = script;
+  }
+
+  let mod: Record<string, unknown>;
+  try {
+    mod = await import(toFileHref(file));
+  } catch (e) {
+    throw new ScriptLoadError('script-load', `Failed to import test script: ${(e as Error)?.message ?? String(e)}`, { cause: e });
+  }
+  const candidate = mod.default ?? mod.run ?? mod.runner;
+  if (typeof candidate !== 'function') {
+    throw new ScriptLoadError('script-load', 'Test script must export default async function (page, context, helpers)');
+  }
+  return candidate as (...args: unknown[]) => unknown;
+}
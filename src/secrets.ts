@@ -0,0 +1,79 @@
+// Secrets for test scripts: TA_SECRET_<NAME> environment variables and a local
+// secrets file (secrets.json, or the file named by TESTING_AGENT_SECRETS_FILE).
+// Scripts read them with helpers.secret(name); their values are masked in
+// console.log, network.log, actions.json and recorded assertions.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { MASK } from './instrument.js';
+
+export const SECRET_ENV_PREFIX = 'TA_SECRET_';
+const DEFAULT_SECRETS_FILE = 'secrets.json';
+// Shorter values would mask ordinary text all over the logs
+const MIN_MASKED_LENGTH = 4;
+
+export type Secrets = Record<string, string>;
+
+export type Masker = (text: string) => string;
+
+function secretsFile(): string {
+  return path.resolve(process.env.TESTING_AGENT_SECRETS_FILE || DEFAULT_SECRETS_FILE);
+}
+
+// Environment variables override the secrets file
+export function loadSecrets(): Secrets {
+  const out: Secrets = {};
+  const file = secretsFile();
+  if (fs.existsSync(file)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (e) {
+      throw new Error(`Invalid secrets file ${file}: ${(e as Error).message}`);
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error(`Invalid secrets file ${file}: expected an object of name/value strings`);
+    }
+    for (const [name, value] of Object.entries(parsed)) {
+      if (typeof value === 'string') out[name] = value;
+    }
+  }
+  for (const [key, value] of Object.entries(process.env)) {
+    if (key.startsWith(SECRET_ENV_PREFIX) && value) out[key.slice(SECRET_ENV_PREFIX.length)] = value;
+  }
+  return out;
+}
+
+// Replace every secret value with *** in raw, JSON-escaped and URL-encoded form
+export function createMasker(secrets: Secrets): Masker {
+  const forms = new Set<string>();
+  for (const value of Object.values(secrets)) {
+    if (value.length < MIN_MASKED_LENGTH) continue;
+    forms.add(value);
+    forms.add(JSON.stringify(value).slice(1, -1));
+    forms.add(encodeURIComponent(value));
+  }
+  if (forms.size === 0) return (text) => text;
+  // Longest first so a secret containing another is masked whole
+  const sorted = Array.from(forms).sort((a, b) => b.length - a.length);
+  return (text) => sorted.reduce((out, form) => out.split(form).join(MASK), text);
+}
+
+// A JSON-compatible copy of `value` with every string masked. Masking the
+// serialized text instead would also hit digits of numbers for a numeric
+// secret, and could break the JSON.
+export function maskJson<T>(value: T, mask: Masker): T {
+  if (value === undefined) return value;
+  return JSON.parse(JSON.stringify(value), (_key, v: unknown) => (typeof v === 'string' ? mask(v) : v));
+}
+
+// helpers.secret: a missing secret is an error rather than an empty login
+export function secretGetter(secrets: Secrets): (name: string) => string {
+  return (name) => {
+    const value = secrets[name];
+    if (value === undefined) {
+      throw new Error(`Unknown secret "${name}": set ${SECRET_ENV_PREFIX}${name} or add it to ${DEFAULT_SECRETS_FILE}`);
+    }
+    return value;
+  };
+}
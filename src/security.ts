@@ -0,0 +1,152 @@
+// Hardening for the HTTP runtime: bearer-token auth, the script allowlist and
+// an audit log of every request. Tokens come from TESTING_AGENT_TOKEN, either
+// one token or comma-separated name:token pairs so the audit log can tell
+// callers apart.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { ArtifactError, artifactErrorBody, artifactErrorStatus } from './artifacts.js';
+import { isInlineScript, type ScriptRef } from './script.js';
+import { getConfig } from './config.js';
+
+export const TOKEN_ENV = 'TESTING_AGENT_TOKEN';
+// Shorter tokens are guessable
+const MIN_TOKEN_LENGTH = 16;
+
+export type ApiToken = { name: string; token: string };
+
+export type AuditEntry = {
+  time: string;
+  // Token name, or "anonymous" when no tokens are configured
+  user: string | null;
+  ip: string | null;
+  method: string;
+  path: string;
+  status: number;
+  durationMs: number;
+  // What was run, added by the route
+  script?: string;
+  jobId?: string;
+  runId?: string;
+  sessionId?: string;
+};
+
+export function loadApiTokens(value = process.env[TOKEN_ENV]): ApiToken[] {
+  if (!value) return [];
+  return value.split(',').map((s) => s.trim()).filter(Boolean).map((entry) => {
+    const i = entry.indexOf(':');
+    const token = i > 0 ? { name: entry.slice(0, i), token: entry.slice(i + 1) } : { name: 'default', token: entry };
+    if (token.token.length < MIN_TOKEN_LENGTH) {
+      throw new Error(`${TOKEN_ENV}: token "${token.name}" must be at least ${MIN_TOKEN_LENGTH} characters`);
+    }
+    return token;
+  });
+}
+
+export function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || /^127\./.test(host);
+}
+
+function matchToken(tokens: ApiToken[], presented: string): ApiToken | undefined {
+  const given = Buffer.from(presented);
+  return tokens.find((t) => {
+    const expected = Buffer.from(t.token);
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+  });
+}
+
+function sendSecurityError(res: Response, e: ArtifactError) {
+  res.status(artifactErrorStatus(e)).json({ error: artifactErrorBody(e) });
+}
+
+// 401 unless the request carries "Authorization: Bearer <token>". With no
+// tokens configured every request passes; startAgentServer only allows that
+// on a loopback host.
+export function requireBearerToken(tokens: ApiToken[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (tokens.length === 0) {
+      res.locals.user = 'anonymous';
+      return next();
+    }
+    const m = /^Bearer\s+(\S+)$/i.exec(req.get('authorization') ?? '');
+    const match = m ? matchToken(tokens, m[1]) : undefined;
+    if (!match) {
+      res.set('WWW-Authenticate', 'Bearer');
+      return sendSecurityError(res, new ArtifactError('unauthorized', m ? 'invalid bearer token' : 'missing bearer token'));
+    }
+    res.locals.user = match.name;
+    next();
+  };
+}
+
+// Note what a request ran, for its audit entry
+export function recordAudit(res: Response, fields: Pick<AuditEntry, 'script' | 'jobId' | 'runId' | 'sessionId'>): void {
+  res.locals.audit = { ...res.locals.audit, ...fields };
+}
+
+export function scriptLabel(script: ScriptRef): string {
+  return isInlineScript(script) ? '<inline source>' : path.resolve(script);
+}
+
+// Log every request to the console and append it to the audit log once the
+// response is done (or the client went away, for event streams)
+export function auditRequests(file: string) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  return (req: Request, res: Response, next: NextFunction) => {
+    const start = Date.now();
+    res.on('close', () => {
+      const entry: AuditEntry = {
+        time: new Date(start).toISOString(),
+        user: res.locals.user ?? null,
+        ip: req.ip ?? null,
+        method: req.method,
+        path: req.path,
+        status: res.statusCode,
+        durationMs: Date.now() - start,
+        ...res.locals.audit,
+      };
+      // Async with an error callback: a full disk or a removed directory must
+      // not take the server down with an uncaught exception
+      fs.appendFile(file, `${JSON.stringify(entry)}\n`, (e) => {
+        // eslint-disable-next-line no-console
+        if (e) console.error(`[agent] audit log ${file} not written: ${e.message}`);
+      });
+      // eslint-disable-next-line no-console
+      console.log(`[agent] ${entry.method} ${entry.path} ${entry.status} ${entry.durationMs}ms user=${entry.user ?? '-'}${entry.script ? ` script=${entry.script}` : ''}`);
+    });
+    next();
+  };
+}
+
+function realpathIfExists(p: string): string {
+  return fs.existsSync(p) ? fs.realpathSync(p) : p;
+}
+
+// 403 unless the path lies under one of the configured script roots.
+// Symlinks are resolved so a link inside a root cannot point outside it.
+export function assertPathAllowed(p: string, what: string): void {
+  const target = realpathIfExists(path.resolve(p));
+  const roots = getConfig().scriptRoots.map(realpathIfExists);
+  const inside = roots.some((root) => {
+    const rel = path.relative(root, target);
+    return !path.isAbsolute(rel) && rel.split(path.sep)[0] !== '..';
+  });
+  if (!inside) {
+    throw new ArtifactError('forbidden', `${what} ${path.resolve(p)} is outside the allowed script roots (${roots.join(', ')})`);
+  }
+}
+
+// Inline source unless the config says otherwise: only for a server that
+// nobody else can reach, i.e. on a loopback host with no tokens
+export function inlineSourceAllowed(host: string, tokens: ApiToken[]): boolean {
+  return getConfig().allowInlineSource ?? (isLoopbackHost(host) && tokens.length === 0);
+}
+
+export function assertScriptAllowed(script: ScriptRef, allowInlineSource: boolean): void {
+  if (!isInlineScript(script)) return assertPathAllowed(script, 'script');
+  if (!allowInlineSource) {
+    throw new ArtifactError('forbidden', 'inline source is disabled; set allowInlineSource: true in the config to accept it');
+  }
+}
@@ -0,0 +1,261 @@
+// Live browser sessions driven one command at a time (MCP and HTTP). Each
+// session records into its own run directory with the same layout as a
+// scripted run: actions.json, console.log, network.log, trace.zip, run.json.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Browser, BrowserContext, Page } from 'playwright';
+import { resolveRunOptions, launchBrowser, contextOptions, type RunOptions, type ResolvedRunOptions } from './options.js';
+import { createRunDir, attachConsoleCapture, collectElementBoxes, harOf, HAR_FILE } from './tools.js';
+import { instrumentPage, maskArgs, type InstrumentedAction } from './instrument.js';
+import { attachNetworkCapture } from './network.js';
+import { captureDomSnapshot } from './dom.js';
+import { writeManifest } from './manifest.js';
+import { ArtifactError, validateName } from './artifacts.js';
+import { loadSecrets, createMasker, maskJson, type Masker } from './secrets.js';
+import { authStatePath } from './auth.js';
+
+// Recorded as the manifest's scriptPath so sessions can be told apart from scripted runs
+export const SESSION_SCRIPT = '<session>';
+
+export type SessionInfo = {
+  sessionId: string;
+  artifactsDir: string;
+  url: string;
+  openedAt: string;
+  lastUsedAt: string;
+  idleTimeoutMs: number;
+};
+
+type Session = {
+  id: string;
+  dir: string;
+  options: ResolvedRunOptions;
+  browser: Browser;
+  context: BrowserContext;
+  // Instrumented page: calls made through it land in actions.json
+  page: Page;
+  actions: InstrumentedAction[];
+  criticalErrors: string[];
+  // Hides secret values in the session's logs
+  mask: Masker;
+  openedAt: Date;
+  lastUsedAt: Date;
+  timer?: NodeJS.Timeout;
+  counter: number;
+};
+
+const sessions = new Map<string, Session>();
+
+// Idle sessions are closed after SESSION_IDLE_TIMEOUT_MS (default 10 minutes)
+function idleTimeoutMs(): number {
+  const n = Number(process.env.SESSION_IDLE_TIMEOUT_MS);
+  return Number.isFinite(n) && n > 0 ? n : 10 * 60 * 1000;
+}
+
+function info(s: Session): SessionInfo {
+  return {
+    sessionId: s.id,
+    artifactsDir: s.dir,
+    url: s.page.url(),
+    openedAt: s.openedAt.toISOString(),
+    lastUsedAt: s.lastUsedAt.toISOString(),
+    idleTimeoutMs: idleTimeoutMs(),
+  };
+}
+
+function armIdleTimer(s: Session): NodeJS.Timeout {
+  const timer = setTimeout(() => {
+    closeSession(s.id).catch(() => { /* already closed */ });
+  }, idleTimeoutMs());
+  // A pending idle timer must not keep the process alive
+  timer.unref();
+  return timer;
+}
+
+// Look up a session and reset its idle timer
+function touch(sessionId: string): Session {
+  const s = sessions.get(sessionId);
+  if (!s) throw new ArtifactError('not_found', `session ${sessionId} not found (closed or timed out)`);
+  s.lastUsedAt = new Date();
+  clearTimeout(s.timer);
+  s.timer = armIdleTimer(s);
+  return s;
+}
+
+// actions.json is rewritten after every command so it can be read mid-session
+function persistActions(s: Session): void {
+  fs.writeFileSync(path.join(s.dir, 'actions.json'), JSON.stringify(maskJson(s.actions, s.mask), null, 2));
+}
+
+export async function openSession(options: RunOptions = {}): Promise<SessionInfo> {
+  const resolved = resolveRunOptions(options);
+  const replayHar = resolved.replayFrom ? harOf(resolved.replayFrom) : null;
+  const storageState = resolved.authProfile ? await authStatePath(resolved.authProfile) : null;
+  const mask = createMasker(loadSecrets());
+
+  const browser = await launchBrowser(resolved);
+  const { runId, dir } = createRunDir('session-');
+  try {
+    const context = await browser.newContext({
+      ...contextOptions(resolved),
+      ...(storageState ? { storageState } : {}),
+      ...(resolved.recordHar ? { recordHar: { path: path.join(dir, HAR_FILE), content: 'embed' as const } } : {}),
+    });
+    if (replayHar) await context.routeFromHAR(replayHar, { notFound: 'abort' });
+    const raw = await context.newPage();
+    const criticalErrors: string[] = [];
+    attachConsoleCapture(raw, path.join(dir, 'console.log'), criticalErrors, undefined, mask);
+    attachNetworkCapture(raw, path.join(dir, 'network.log'), {
+      captureBodies: resolved.captureResponseBodies,
+      maxBodyBytes: resolved.maxResponseBodyBytes,
+      mask,
+    });
+    await context.tracing.start({ screenshots: true, snapshots: true });
+
+    const actions: InstrumentedAction[] = [];
+    const now = new Date();
+    const session: Session = {
+      id: runId,
+      dir,
+      options: resolved,
+      browser,
+      context,
+      page: instrumentPage(raw, (a) => actions.push(a)),
+      actions,
+      criticalErrors,
+      mask,
+      openedAt: now,
+      lastUsedAt: now,
+      counter: 0,
+    };
+    session.timer = armIdleTimer(session);
+    sessions.set(runId, session);
+    persistActions(session);
+    return info(session);
+  } catch (e) {
+    await browser.close().catch(() => { /* ignore */ });
+    throw e;
+  }
+}
+
+export function listSessions(): SessionInfo[] {
+  return Array.from(sessions.values()).map(info);
+}
+
+// Run a command against a session; errors are recorded but still thrown
+async function command<T>(sessionId: string, fn: (s: Session) => Promise<T>): Promise<T> {
+  const s = touch(sessionId);
+  try {
+    return await fn(s);
+  } finally {
+    persistActions(s);
+  }
+}
+
+// Only web pages: file:, chrome: and similar URLs would let any caller read
+// the host's files through snapshots and screenshots. Relative URLs resolve
+// against baseURL as page.goto does.
+export function assertNavigableUrl(url: string, baseURL?: string): void {
+  let parsed: URL;
+  try {
+    parsed = new URL(url, baseURL);
+  } catch {
+    throw new ArtifactError('invalid_argument', `invalid URL: ${url}`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:' && parsed.href !== 'about:blank') {
+    throw new ArtifactError('invalid_argument', `only http(s) URLs and about:blank can be opened, not ${parsed.protocol} URLs`);
+  }
+}
+
+export function navigate(sessionId: string, url: string): Promise<SessionInfo> {
+  return command(sessionId, async (s) => {
+    assertNavigableUrl(url, s.options.baseURL);
+    await s.page.goto(url);
+    return info(s);
+  });
+}
+
+export function click(sessionId: string, selector: string): Promise<SessionInfo> {
+  return command(sessionId, async (s) => {
+    await s.page.locator(selector).click();
+    return info(s);
+  });
+}
+
+export function fill(sessionId: string, selector: string, value: string): Promise<SessionInfo> {
+  return command(sessionId, async (s) => {
+    await s.page.locator(selector).fill(value);
+    return info(s);
+  });
+}
+
+// Evaluate a JavaScript expression in the page and return its JSON-serializable result
+export function evaluate(sessionId: string, expression: string): Promise<unknown> {
+  return command(sessionId, async (s) => {
+    const time = Date.now();
+    const base = { type: 'action' as const, method: 'evaluate', args: maskArgs('evaluate', undefined, [expression]), time };
+    try {
+      const result = await s.page.evaluate(expression);
+      s.actions.push({ ...base, durationMs: Date.now() - time, outcome: 'ok' });
+      return result;
+    } catch (e) {
+      s.actions.push({ ...base, durationMs: Date.now() - time, outcome: 'error', error: String(e) });
+      throw e;
+    }
+  });
+}
+
+// DOM + accessibility snapshot under dom/<name>, queryable with inspect_dom
+export function snapshot(sessionId: string, name?: string): Promise<{ sessionId: string; snapshot: string; url: string; aria: string | null }> {
+  return command(sessionId, async (s) => {
+    const snap = name === undefined ? `snapshot_${++s.counter}` : validateName(name, 'snapshot name');
+    await captureDomSnapshot(s.page, s.dir, snap);
+    const ariaFile = path.join(s.dir, 'dom', `${snap}.aria.yml`);
+    return { sessionId: s.id, snapshot: snap, url: s.page.url(), aria: fs.existsSync(ariaFile) ? fs.readFileSync(ariaFile, 'utf8') : null };
+  });
+}
+
+// Full-page screenshot stored as <name>.png with its element boxes; returns the name
+export function screenshot(sessionId: string, name?: string): Promise<string> {
+  return command(sessionId, async (s) => {
+    const shot = name === undefined ? `screenshot_${++s.counter}` : validateName(name, 'screenshot name');
+    await s.page.screenshot({ path: path.join(s.dir, `${shot}.png`), fullPage: true });
+    const boxes = await s.page.evaluate(collectElementBoxes).catch(() => null);
+    if (boxes) fs.writeFileSync(path.join(s.dir, `${shot}.boxes.json`), JSON.stringify(boxes));
+    return shot;
+  });
+}
+
+// Stop tracing, close the browser and write run.json. The session directory
+// stays under runs/ so get_artifact works on it like any other run.
+export async function closeSession(sessionId: string): Promise<{ sessionId: string; status: 'PASS' | 'FAIL'; artifactsDir: string }> {
+  const s = sessions.get(sessionId);
+  if (!s) throw new ArtifactError('not_found', `session ${sessionId} not found (closed or timed out)`);
+  sessions.delete(sessionId);
+  clearTimeout(s.timer);
+
+  await s.context.tracing.stop({ path: path.join(s.dir, 'trace.zip') }).catch(() => { /* ignore */ });
+  await s.context.close().catch(() => { /* ignore */ });
+  await s.browser.close().catch(() => { /* ignore */ });
+  persistActions(s);
+
+  const status = s.criticalErrors.length > 0 ? 'FAIL' : 'PASS';
+  const finishedAt = new Date();
+  writeManifest(s.dir, {
+    runId: s.id,
+    status,
+    scriptPath: SESSION_SCRIPT,
+    startedAt: s.openedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    durationMs: finishedAt.getTime() - s.openedAt.getTime(),
+    options: s.options,
+    criticalErrors: s.criticalErrors,
+    steps: [],
+  });
+  return { sessionId: s.id, status, artifactsDir: s.dir };
+}
+
+export async function closeAllSessions(): Promise<void> {
+  await Promise.all(Array.from(sessions.keys()).map((id) => closeSession(id).catch(() => { /* ignore */ })));
+}
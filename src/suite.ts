@@ -0,0 +1,196 @@
+// Suite runner: discover scripts from a directory or glob and run them on a
+// small worker pool that shares one browser (each run gets its own context).
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { runTest, createRunDir, type RunResult, type RunEvent } from './tools.js';
+import { resolveRunOptions, launchBrowser, type RunOptions } from './options.js';
+import { buildArtifactIndex, ArtifactError, type ArtifactIndex } from './artifacts.js';
+
+export type SuiteEntry = {
+  scriptPath: string;
+  status: RunResult['status'];
+  runId: string | null;
+  durationMs: number;
+  criticalErrors: string[];
+  error?: string;
+  index: ArtifactIndex | null;
+};
+
+export type SuiteResult = {
+  suiteId: string;
+  suiteDir: string;
+  pattern: string;
+  status: 'PASS' | 'FAIL';
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  total: number;
+  // Flaky scripts (passed on retry) count as passed and are also counted here
+  passed: number;
+  failed: number;
+  flaky: number;
+  runs: SuiteEntry[];
+};
+
+export type SuiteOptions = {
+  workers?: number;
+  run?: RunOptions;
+  // Aborting fails the running scripts and skips the rest
+  signal?: AbortSignal;
+  onEvent?: (event: RunEvent) => void;
+};
+
+const SCRIPT_RE = /\.(spec|test)\.(ts|js|mjs)$/;
+
+// Suites in progress and the runs they have started, kept out of retention
+const activeSuites = new Map<string, string[]>();
+
+// Suite ids and run ids of suites still running
+export function activeSuiteRuns(): string[] {
+  return Array.from(activeSuites, ([suiteId, runIds]) => [suiteId, ...runIds]).flat();
+}
+
+// Minimal glob support: `**`, `*`, `?` and `{a,b}` alternatives.
+function globToRegExp(glob: string): RegExp {
+  let re = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` matches zero or more directories
+        if (glob[i + 2] === '/') { re += '(?:.*/)?'; i += 2; }
+        else { re += '.*'; i += 1; }
+      } else {
+        re += '[^/]*';
+      }
+    } else if (c === '?') re += '[^/]';
+    else if (c === '{') re += '(?:';
+    else if (c === '}') re += ')';
+    else if (c === ',') re += '|';
+    else re += c.replace(/[.+^$()|[\]\\]/g, '\\$&');
+  }
+  return new RegExp(`^${re}$`);
+}
+
+function walk(dir: string, out: string[] = []): string[] {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name === 'node_modules' || entry.name.startsWith('.')) continue;
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) walk(full, out);
+    else if (entry.isFile()) out.push(full);
+  }
+  return out;
+}
+
+export function discoverScripts(pattern: string): string[] {
+  const abs = path.resolve(pattern);
+  if (fs.existsSync(abs) && fs.statSync(abs).isDirectory()) {
+    return walk(abs).filter((f) => SCRIPT_RE.test(f)).sort();
+  }
+  if (fs.existsSync(abs) && fs.statSync(abs).isFile()) return [abs];
+
+  // Walk from the static prefix of the glob, then match relative to cwd
+  const normalized = pattern.replace(/\\/g, '/');
+  const parts = normalized.split('/');
+  const firstMagic = parts.findIndex((p) => /[*?{]/.test(p));
+  const base = path.resolve(parts.slice(0, firstMagic === -1 ? parts.length : firstMagic).join('/') || '.');
+  if (!fs.existsSync(base)) return [];
+  const matcher = globToRegExp(path.resolve(normalized).replace(/\\/g, '/'));
+  return walk(base).filter((f) => matcher.test(f.replace(/\\/g, '/'))).sort();
+}
+
+// discoverScripts, but matching nothing is a not_found error
+export function matchScripts(pattern: string): string[] {
+  const scripts = discoverScripts(pattern);
+  if (scripts.length === 0) throw new ArtifactError('not_found', `No scripts matched: ${pattern}`);
+  return scripts;
+}
+
+export async function runSuite(pattern: string, opts: SuiteOptions = {}): Promise<SuiteResult> {
+  const scripts = matchScripts(pattern);
+  const runOptions = resolveRunOptions(opts.run);
+
+  const { runId: suiteId, dir: suiteDir } = createRunDir('suite-');
+  const startedAt = new Date();
+  const workers = Math.max(1, Math.min(opts.workers ?? 2, scripts.length));
+  const entries: SuiteEntry[] = new Array(scripts.length);
+  const runIds: string[] = [];
+  activeSuites.set(suiteId, runIds);
+  const onEvent = (event: RunEvent) => {
+    if (event.type === 'run:start') runIds.push(event.runId);
+    opts.onEvent?.(event);
+  };
+
+  try {
+    const browser = await launchBrowser(runOptions);
+    try {
+      let next = 0;
+      const worker = async () => {
+        while (next < scripts.length && !opts.signal?.aborted) {
+          const i = next++;
+          const scriptPath = scripts[i];
+          const t0 = Date.now();
+          try {
+            const result = await runTest(scriptPath, runOptions, { browser, onEvent, signal: opts.signal });
+            entries[i] = {
+              scriptPath,
+              status: result.status,
+              runId: result.runId,
+              durationMs: Date.now() - t0,
+              criticalErrors: result.criticalErrors,
+              index: buildArtifactIndex(result.artifactsDir),
+            };
+          } catch (e) {
+            entries[i] = {
+              scriptPath,
+              status: 'FAIL',
+              runId: null,
+              durationMs: Date.now() - t0,
+              criticalErrors: [],
+              error: String(e),
+              index: null,
+            };
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: workers }, worker));
+    } finally {
+      await browser.close().catch(() => { /* ignore */ });
+    }
+    // Scripts never started because the suite was cancelled
+    for (let i = 0; i < scripts.length; i++) {
+      entries[i] ??= {
+        scriptPath: scripts[i],
+        status: 'FAIL',
+        runId: null,
+        durationMs: 0,
+        criticalErrors: [],
+        error: 'cancelled',
+        index: null,
+      };
+    }
+
+    const finishedAt = new Date();
+    const failed = entries.filter((e) => e.status === 'FAIL').length;
+    const flaky = entries.filter((e) => e.status === 'FLAKY').length;
+    const result: SuiteResult = {
+      suiteId,
+      suiteDir,
+      pattern,
+      status: failed ? 'FAIL' : 'PASS',
+      startedAt: startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      total: entries.length,
+      passed: entries.length - failed,
+      failed,
+      flaky,
+      runs: entries,
+    };
+    fs.writeFileSync(path.join(suiteDir, 'suite.json'), JSON.stringify(result, null, 2));
+    return result;
+  } finally {
+    activeSuites.delete(suiteId);
+  }
+}
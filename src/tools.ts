@@ -1,22 +1,68 @@
 import fs from 'node:fs';
 import path from 'node:path';
-import { chromium, Browser, Page, BrowserContext } from 'playwright';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { Browser, Page, BrowserContext, errors } from 'playwright';
+import { resolveRunOptions, launchBrowser, contextOptions, type RunOptions, type ResolvedRunOptions } from './options.js';
+import { writeManifest, patchManifest, type StepOutcome, type RunFailure, type RunStatus, type AttemptOutcome } from './manifest.js';
+import { loadScript, isInlineScript, scriptPathOf, type ScriptRef } from './script.js';
+import { describeFailure } from './failure.js';
+import { instrumentPage, type InstrumentedAction } from './instrument.js';
+import { attachNetworkCapture } from './network.js';
+import { ArtifactError, resolveRunDir, type ElementBoxes } from './artifacts.js';
+import { compareRunToBaseline, type VisualDiff } from './visual.js';
+import { captureDomSnapshot } from './dom.js';
+import { createExpect, type AssertionResult, type Expectations } from './expect.js';
+import { loadSecrets, createMasker, maskJson, secretGetter, type Masker } from './secrets.js';
+import { authStatePath } from './auth.js';
+import { installPerfObservers, openPerfProbe, sampleStepStart, measureStep, writeMetrics, type PerfProbe, type PerfRegression, type StepMetrics } from './metrics.js';
+import { auditPage, summarizeA11y, describeA11yFailures, A11Y_FILE, type A11yAudit, type A11yOptions, type A11ySummary } from './a11y.js';
+import { runsDir } from './config.js';
 
 export type RunResult = {
-  status: 'PASS' | 'FAIL';
+  status: RunStatus;
   artifactsDir: string;
   runId: string;
   criticalErrors: string[];
+  // Screenshots compared against the script's approved baseline
+  visualDiffs: VisualDiff[];
+  // Why the script threw; absent for passing runs and runs failed only by
+  // console errors or visual diffs
+  failure?: RunFailure;
+  // Present when the script was retried: every attempt, oldest first
+  attempts?: AttemptOutcome[];
+  // Every helpers.expect check, in order
+  assertions: AssertionResult[];
+  // Present when the run audited accessibility
+  a11y?: A11ySummary;
+  // Step metrics over the performance budget, against recent passing runs
+  perfRegressions?: PerfRegression[];
 };
 
 type Action =
   | { type: 'screenshot'; name: string; time: number }
   | { type: 'step:start' | 'step:end'; name: string; time: number }
-  | { type: 'step:error'; name: string; error: string; time: number };
+  | { type: 'step:error'; name: string; error: string; time: number }
+  | AssertionResult
+  | InstrumentedAction;
 
-type Helpers = {
+export type StepOptions = {
+  // Overrides the run's stepTimeoutMs. On timeout the step's signal aborts:
+  // its page and locator calls reject from then on, before the on_error
+  // screenshot is taken.
+  timeoutMs?: number;
+};
+
+// Third argument of the script's default export
+export type Helpers = {
   screenshot: (name: string) => Promise<void>;
-  step: (name: string, fn: () => Promise<void>) => Promise<void>;
+  // fn receives the step's signal, aborted when the step times out
+  step: (name: string, fn: (signal: AbortSignal) => Promise<void>, opts?: StepOptions) => Promise<void>;
+  expect: Expectations;
+  // Value of a secret from TA_SECRET_<NAME> or secrets.json; masked in the logs
+  secret: (name: string) => string;
+  // Accessibility audit of the page now, stored in a11y.json with the run's
+  // step audits; counts towards a11yFailOn
+  a11y: (name?: string, opts?: A11yOptions) => Promise<A11yAudit>;
 };
 
 function timestampId(): string {
@@ -29,85 +75,284 @@ function ensureDir(p: string): void {
   fs.mkdirSync(p, { recursive: true });
 }
 
-export async function runTest(scriptPath: string): Promise<RunResult> {
-  if (!fs.existsSync(scriptPath)) {
-    throw new Error(`Script file not found: ${scriptPath}`);
+// Claim a fresh directory under runs/. Parallel runs can start within the same
+// second, so a numeric suffix is appended until mkdir succeeds.
+export function createRunDir(prefix = ''): { runId: string; dir: string } {
+  const root = runsDir();
+  ensureDir(root);
+  const base = `${prefix}${timestampId()}`;
+  for (let i = 1; ; i++) {
+    const runId = i === 1 ? base : `${base}-${i}`;
+    const dir = path.join(root, runId);
+    try {
+      fs.mkdirSync(dir);
+      return { runId, dir };
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'EEXIST') throw e;
+    }
+  }
+}
+
+// Progress reported while a run executes (streamed by the job queue)
+export type RunEvent = { runId: string; time: number } & (
+  | { type: 'run:start'; attempt?: number }
+  | { type: 'step:start' | 'step:end'; name: string }
+  | { type: 'step:error'; name: string; error: string }
+  | { type: 'screenshot'; name: string }
+  | { type: 'console:error'; message: string }
+  | { type: 'run:end'; status: 'PASS' | 'FAIL' }
+);
+
+// Resources and hooks a caller may pass in (e.g. the suite runner's browser).
+// Anything passed in here is left open when the run finishes. A shared browser
+// must have been launched with the same engine and headless mode as `options`.
+export type RunShared = {
+  browser?: Browser;
+  // Aborting fails the current attempt with category 'cancelled' and skips retries
+  signal?: AbortSignal;
+  onEvent?: (event: RunEvent) => void;
+  // Called with the context once the script has returned, before it closes
+  // (auth profile setup saves the storage state here)
+  afterScript?: (context: BrowserContext) => Promise<void>;
+};
+
+// Reject with a Playwright TimeoutError once `ms` elapses. The work itself is
+// not cancelled; callers close the page to abort whatever is still pending.
+function withTimeout<T>(work: Promise<T>, ms: number | undefined, what: string): Promise<T> {
+  if (!ms) return work;
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new errors.TimeoutError(`${what} timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([work, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Reject with the signal's reason (an AbortError by default) once it aborts
+function untilAborted<T>(work: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) return work;
+  let onAbort: (() => void) | undefined;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal.reason);
+    if (signal.aborted) onAbort();
+    else signal.addEventListener('abort', onAbort, { once: true });
+  });
+  return Promise.race([work, aborted]).finally(() => signal.removeEventListener('abort', onAbort!));
+}
+
+// Run a script file, or inline source ({ source }) stored in the run directory
+// as script.ts. A failed script is rerun up to `retries` times; each attempt
+// is a run of its own, and a pass after a failure is reported as FLAKY.
+export async function runTest(script: ScriptRef, options: RunOptions = {}, shared: RunShared = {}): Promise<RunResult> {
+  if (!isInlineScript(script) && !fs.existsSync(script)) {
+    throw new Error(`Script file not found: ${script}`);
+  }
+  const resolved = resolveRunOptions(options);
+  const replayHar = resolved.replayFrom ? harOf(resolved.replayFrom) : null;
+  // Logs in again first if the profile is older than its TTL
+  const storageState = resolved.authProfile ? await authStatePath(resolved.authProfile) : null;
+
+  const results: RunResult[] = [];
+  for (let attempt = 1; attempt <= resolved.retries + 1; attempt++) {
+    const result = await runAttempt(script, resolved, replayHar, storageState, shared, resolved.retries > 0 ? attempt : undefined);
+    results.push(result);
+    if (result.status === 'PASS' || shared.signal?.aborted) break;
+    // Rerunning cannot fix a script that does not compile or import
+    if (result.failure?.category === 'compile' || result.failure?.category === 'script-load') break;
   }
+  if (results.length === 1) return results[0];
 
-  const runId = timestampId();
-  const artifactsDir = path.resolve('runs', runId);
-  ensureDir(artifactsDir);
+  const last = results[results.length - 1];
+  const status: RunStatus = last.status === 'PASS' ? 'FLAKY' : 'FAIL';
+  const attempts: AttemptOutcome[] = results.map((r) => ({
+    runId: r.runId,
+    status: r.status === 'PASS' ? 'PASS' : 'FAIL',
+    ...(r.failure ? { failure: r.failure } : {}),
+  }));
+  patchManifest(last.artifactsDir, { status, attempts });
+  for (const r of results.slice(0, -1)) patchManifest(r.artifactsDir, { supersededBy: last.runId });
+  return { ...last, status, attempts };
+}
+
+async function runAttempt(
+  script: ScriptRef,
+  resolved: ResolvedRunOptions,
+  replayHar: string | null,
+  storageState: string | null,
+  shared: RunShared,
+  attempt: number | undefined,
+): Promise<RunResult> {
+  const { runId, dir: artifactsDir } = createRunDir();
+  const startedAt = new Date();
+  const scriptPath = scriptPathOf(script, artifactsDir);
 
   const consoleLogPath = path.join(artifactsDir, 'console.log');
   const networkLogPath = path.join(artifactsDir, 'network.log');
   const actionsPath = path.join(artifactsDir, 'actions.json');
+  const secrets = loadSecrets();
+  const mask = createMasker(secrets);
+  const emit = (event: RunEvent) => shared.onEvent?.(event);
+  emit({ type: 'run:start', runId, time: startedAt.getTime(), ...(attempt !== undefined ? { attempt } : {}) });
 
   const actions: Action[] = [];
   const criticalErrors: string[] = [];
+  const steps: StepOutcome[] = [];
+  const assertions: AssertionResult[] = [];
+  const a11yAudits: A11yAudit[] = [];
+  const stepMetrics: StepMetrics[] = [];
+  let perfProbe: PerfProbe | null = null;
+  let perfRegressions: PerfRegression[] | undefined;
+  // Names of the helpers.step calls currently executing, innermost last
+  const stepStack: string[] = [];
+  // Signal of the helpers.step the calling code runs in
+  const stepSignals = new AsyncLocalStorage<AbortSignal>();
+  // Code left running by a timed-out step may not touch the page any more
+  const throwIfStepAborted = () => stepSignals.getStore()?.throwIfAborted();
+  let visualDiffs: VisualDiff[] = [];
+  let a11ySummary: A11ySummary | undefined;
 
   let browser: Browser | null = null;
   let context: BrowserContext | null = null;
   let page: Page | null = null;
   let status: RunResult['status'] = 'PASS';
+  let failure: RunFailure | undefined;
+  // Innermost failing step and its error; named in the failure when that
+  // error is the one that ended the run
+  let failedStep: { name: string; error: unknown } | undefined;
+  let crashed = false;
 
   try {
-    browser = await chromium.launch({ headless: false });
-    context = await browser.newContext();
+    // Load the user script first: a compile or import error needs no browser
+    const runner = await loadScript(script, artifactsDir) as (page: Page, context: BrowserContext, helpers: Helpers) => Promise<void> | void;
+
+    browser = shared.browser ?? await launchBrowser(resolved);
+    context = await browser.newContext({
+      ...contextOptions(resolved),
+      ...(storageState ? { storageState } : {}),
+      ...(resolved.recordHar ? { recordHar: { path: path.join(artifactsDir, HAR_FILE), content: 'embed' as const } } : {}),
+    });
+    if (replayHar) {
+      // Requests missing from the HAR are aborted so the rerun stays offline
+      await context.routeFromHAR(replayHar, { notFound: 'abort' });
+    }
+    // Metrics are best effort: a probe that fails to attach records nothing
+    await installPerfObservers(context).catch(() => { /* ignore */ });
     page = await context.newPage();
+    perfProbe = await openPerfProbe(context, page, resolved.browser).catch(() => null);
 
     // Listeners
-    page.on('console', (msg) => {
-      const line = `[${new Date().toISOString()}] [${msg.type()}] ${msg.text()}\n`;
-      fs.appendFileSync(consoleLogPath, line);
-      if (msg.type() === 'error') criticalErrors.push(msg.text());
+    attachConsoleCapture(page, consoleLogPath, criticalErrors, (message) => {
+      emit({ type: 'console:error', runId, message, time: Date.now() });
+    }, mask);
+    page.on('crash', () => {
+      crashed = true;
     });
-
-    page.on('requestfinished', async (req) => {
-      try {
-        const resp = await req.response();
-        const rec = {
-          time: new Date().toISOString(),
-          method: req.method(),
-          url: req.url(),
-          status: resp?.status(),
-        };
-        fs.appendFileSync(networkLogPath, JSON.stringify(rec) + '\n');
-      } catch (e) {
-        // ignore network logging errors
-      }
+    attachNetworkCapture(page, networkLogPath, {
+      captureBodies: resolved.captureResponseBodies,
+      maxBodyBytes: resolved.maxResponseBodyBytes,
+      mask,
     });
 
     // Start tracing
     await context.tracing.start({ screenshots: true, snapshots: true });
 
-    // Load and run the user script
-    const moduleHref = toFileHref(scriptPath);
-    const mod = await import(moduleHref);
-    const candidate = (mod as Record<string, unknown>).default ?? (mod as Record<string, unknown>).run ?? (mod as Record<string, unknown>).runner;
-    if (typeof candidate !== 'function') {
-      throw new Error('Test script must export default async function (page, context, helpers)');
-    }
-    const runner = candidate as (page: Page, context: BrowserContext, helpers: Helpers) => Promise<void> | void;
+    // DOM + accessibility snapshots for inspect_dom; a page that cannot be
+    // serialized (e.g. mid-navigation) must not fail the step
+    const snapshotDom = (name: string) =>
+      captureDomSnapshot(page!, artifactsDir, name).catch((e) => {
+        fs.appendFileSync(consoleLogPath, `[dom] snapshot ${name} failed: ${String(e)}\n`);
+      });
+
+    // Screenshots of a failed step are best effort: if the page is gone they
+    // would otherwise replace the step's own error with a less useful one
+    const failedStepScreenshot = (name: string) =>
+      helpers.screenshot(name).catch((e) => {
+        fs.appendFileSync(consoleLogPath, `[screenshot] ${name} failed: ${String(e)}\n`);
+      });
 
-    const helpers = {
+    // Step audits, like snapshots, are recorded but never fail the step
+    const auditStep = (name: string, step: string) =>
+      auditPage(page!, name, {}, step).then((audit) => {
+        a11yAudits.push(audit);
+      }, (e) => {
+        fs.appendFileSync(consoleLogPath, `[a11y] audit ${name} failed: ${String(e)}\n`);
+      });
+
+    const helpers: Helpers = {
+      secret: secretGetter(secrets),
+      async a11y(name?: string, opts?: A11yOptions) {
+        throwIfStepAborted();
+        const audit = await auditPage(page!, name ?? `a11y_${a11yAudits.length + 1}`, opts, stepStack[stepStack.length - 1]);
+        a11yAudits.push(audit);
+        return audit;
+      },
+      expect: createExpect(page, {
+        criticalErrors,
+        currentStep: () => stepStack[stepStack.length - 1],
+        record: (result) => {
+          assertions.push(result);
+          actions.push(result);
+        },
+        mask,
+        signal: () => stepSignals.getStore(),
+      }),
       async screenshot(name: string) {
+        throwIfStepAborted();
         const file = path.join(artifactsDir, `${name}.png`);
         actions.push({ type: 'screenshot', name, time: Date.now() });
         await page!.screenshot({ path: file, fullPage: true });
+        // Element boxes let get_artifact crop this screenshot to a selector later
+        const boxes = await page!.evaluate(collectElementBoxes).catch(() => null);
+        if (boxes) fs.writeFileSync(path.join(artifactsDir, `${name}.boxes.json`), JSON.stringify(boxes));
+        emit({ type: 'screenshot', runId, name, time: Date.now() });
       },
-      async step(name: string, fn: () => Promise<void>) {
-        actions.push({ type: 'step:start', name, time: Date.now() });
+      async step(name: string, fn: (signal: AbortSignal) => Promise<void>, opts: StepOptions = {}) {
+        throwIfStepAborted();
+        const t0 = Date.now();
+        actions.push({ type: 'step:start', name, time: t0 });
+        emit({ type: 'step:start', runId, name, time: t0 });
         await helpers.screenshot(`before_${name}`);
+        await snapshotDom(`before_${name}`);
+        if (resolved.a11y) await auditStep(`before_${name}`, name);
+        stepStack.push(name);
+        let stepFailed = false;
+        const perfStart = perfProbe ? await sampleStepStart(perfProbe).catch(() => null) : null;
+        // Nested steps abort with their enclosing step
+        const controller = new AbortController();
+        const parentSignal = stepSignals.getStore();
+        const signal = parentSignal ? AbortSignal.any([parentSignal, controller.signal]) : controller.signal;
         try {
-          await fn();
+          await withTimeout(stepSignals.run(signal, () => fn(signal)), opts.timeoutMs ?? resolved.stepTimeoutMs, `Step "${name}"`);
+          // The script caught an earlier step's error and carried on
+          failedStep = undefined;
           actions.push({ type: 'step:end', name, time: Date.now() });
+          emit({ type: 'step:end', runId, name, time: Date.now() });
+          steps.push({ name, status: 'passed', startedAt: new Date(t0).toISOString(), durationMs: Date.now() - t0 });
         } catch (e) {
-          actions.push({ type: 'step:error', name, error: String(e), time: Date.now() });
-          await helpers.screenshot(`on_error_${name}`);
+          // Stop whatever fn is still doing before capturing the page
+          controller.abort(e);
+          // An enclosing step rethrowing the same error keeps the innermost name
+          if (failedStep?.error !== e) failedStep = { name, error: e };
+          const error = mask(String(e));
+          actions.push({ type: 'step:error', name, error, time: Date.now() });
+          emit({ type: 'step:error', runId, name, error, time: Date.now() });
+          steps.push({ name, status: 'failed', startedAt: new Date(t0).toISOString(), durationMs: Date.now() - t0, error });
+          stepFailed = true;
+          await failedStepScreenshot(`on_error_${name}`);
+          await snapshotDom(`on_error_${name}`);
           status = 'FAIL';
           throw e;
         } finally {
-          await helpers.screenshot(`after_${name}`);
+          stepStack.pop();
+          if (perfProbe && perfStart) {
+            await measureStep(perfProbe, name, perfStart).then((m) => {
+              stepMetrics.push(m);
+            }, (e) => {
+              fs.appendFileSync(consoleLogPath, `[metrics] step ${name} not measured: ${String(e)}\n`);
+            });
+          }
+          await (stepFailed ? failedStepScreenshot(`after_${name}`) : helpers.screenshot(`after_${name}`));
+          await snapshotDom(`after_${name}`);
+          if (resolved.a11y) await auditStep(`after_${name}`, name);
         }
       }
     };
@@ -115,11 +360,45 @@ export async function runTest(scriptPath: string): Promise<RunResult> {
     // Navigate to blank by default
     await page.goto('about:blank');
 
-    // Execute user script
-    await runner(page, context, helpers);
+    // Execute user script against a page that records its actions. On timeout
+    // the page is closed below, which aborts whatever the script still awaits.
+    const instrumented = instrumentPage(page, (a) => actions.push(a), () => stepSignals.getStore());
+    await untilAborted(withTimeout(Promise.resolve(runner(instrumented, context, helpers)), resolved.timeoutMs, 'Run'), shared.signal);
+    if (shared.afterScript) await shared.afterScript(context);
+
+    // Soft assertions let the script finish; their failures fail the run now
+    const softFailures = assertions.filter((a) => a.soft && !a.passed);
+    if (softFailures.length > 0) {
+      status = 'FAIL';
+      failure = {
+        category: 'assertion',
+        message: mask(`${softFailures.length} soft assertion(s) failed:\n${softFailures.map((a) => a.message).join('\n')}`),
+      };
+    }
+
+    // Accessibility violations at or above the threshold fail the run too
+    const a11yFailures = resolved.a11yFailOn ? describeA11yFailures(a11yAudits, resolved.a11yFailOn) : [];
+    if (a11yFailures.length > 0) {
+      status = 'FAIL';
+      failure ??= {
+        category: 'assertion',
+        message: mask(`${a11yFailures.length} accessibility violation(s) of ${resolved.a11yFailOn} impact or worse:\n${a11yFailures.join('\n')}`),
+      };
+    }
+    // A threshold with nothing audited (a11y off, no steps or helpers.a11y calls) checks nothing
+    if (resolved.a11yFailOn && a11yAudits.length === 0) {
+      fs.appendFileSync(consoleLogPath, `[a11y] a11yFailOn is ${resolved.a11yFailOn} but no accessibility audit ran\n`);
+    }
 
   } catch (err) {
     status = 'FAIL';
+    // The step is only named when its error is the one that ended the run; a
+    // step failure the script caught and carried past is not the cause
+    const step = failedStep && failedStep.error === err ? failedStep.name : undefined;
+    failure = describeFailure(err, { scriptPath, artifactsDir, step, crashed });
+    failure.message = mask(failure.message);
+    if (failure.stack) failure.stack = mask(failure.stack);
+    fs.appendFileSync(consoleLogPath, `[${new Date().toISOString()}] [failure] ${failure.stack ?? failure.message}\n`);
   } finally {
     if (context) {
       const tracePath = path.join(artifactsDir, 'trace.zip');
@@ -127,25 +406,115 @@ export async function runTest(scriptPath: string): Promise<RunResult> {
     }
     if (page) await page.close().catch(() => { /* ignore */ });
     if (context) await context.close().catch(() => { /* ignore */ });
-    if (browser) await browser.close().catch(() => { /* ignore */ });
+    if (browser && browser !== shared.browser) await browser.close().catch(() => { /* ignore */ });
 
     // Persist actions
     try {
-      fs.writeFileSync(actionsPath, JSON.stringify(actions, null, 2));
+      fs.writeFileSync(actionsPath, JSON.stringify(maskJson(actions, mask), null, 2));
     } catch (e) {
       // ignore file write errors
     }
+
+    if (stepMetrics.length > 0) {
+      try {
+        const metrics = writeMetrics(artifactsDir, runId, scriptPath, stepMetrics, resolved.perfBudgetPercent);
+        perfRegressions = metrics.regressions;
+      } catch (e) {
+        fs.appendFileSync(consoleLogPath, `[metrics] ${String(e)}\n`);
+      }
+    }
+
+    if (a11yAudits.length > 0) {
+      fs.writeFileSync(path.join(artifactsDir, A11Y_FILE), JSON.stringify(maskJson({ audits: a11yAudits }, mask), null, 2));
+    }
+
+    // Compare against approved baselines; a diff over the threshold fails the run
+    try {
+      visualDiffs = compareRunToBaseline(artifactsDir, scriptPath, {
+        threshold: resolved.visualThreshold,
+        masks: resolved.visualMasks,
+      });
+      if (visualDiffs.some((d) => !d.passed)) status = 'FAIL';
+    } catch (e) {
+      // ignore unreadable baselines
+    }
+
+    a11ySummary = a11yAudits.length > 0 || resolved.a11y ? summarizeA11y(a11yAudits, resolved.a11yFailOn) : undefined;
+    const finishedAt = new Date();
+    writeManifest(artifactsDir, {
+      runId,
+      status,
+      scriptPath,
+      startedAt: startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      options: resolved,
+      criticalErrors,
+      steps,
+      assertions,
+      visual: visualDiffs,
+      ...(a11ySummary ? { a11y: a11ySummary } : {}),
+      ...(perfRegressions ? { perfRegressions } : {}),
+      ...(failure ? { failure } : {}),
+      ...(attempt !== undefined ? { attempt } : {}),
+    });
   }
 
-  return { status, artifactsDir, runId, criticalErrors };
+  emit({ type: 'run:end', runId, status, time: Date.now() });
+  return { status, artifactsDir, runId, criticalErrors, visualDiffs, assertions, ...(a11ySummary ? { a11y: a11ySummary } : {}), ...(perfRegressions ? { perfRegressions } : {}), ...(failure ? { failure } : {}) };
+}
+
+// Append console output to console.log; console errors and uncaught page
+// exceptions are collected as critical errors. `mask` hides secret values.
+export function attachConsoleCapture(
+  page: Page,
+  logPath: string,
+  criticalErrors: string[],
+  onCritical?: (message: string) => void,
+  mask: Masker = (text) => text,
+): void {
+  const critical = (message: string) => {
+    criticalErrors.push(mask(message));
+    onCritical?.(mask(message));
+  };
+  page.on('console', (msg) => {
+    const line = `[${new Date().toISOString()}] [${msg.type()}] ${msg.text()}\n`;
+    fs.appendFileSync(logPath, mask(line));
+    if (msg.type() === 'error') critical(msg.text());
+  });
+
+  // Uncaught exceptions in the page are always critical
+  page.on('pageerror', (err) => {
+    const line = `[${new Date().toISOString()}] [pageerror] ${err.stack ?? err.message}\n`;
+    fs.appendFileSync(logPath, mask(line));
+    critical(`Uncaught ${err.name}: ${err.message}`);
+  });
 }
 
-// Avoid importing node:url types by constructing file URL href manually
-function toFileHref(p: string): string {
-  const abs = path.isAbsolute(p) ? p : path.resolve(p);
-  const withSlashes = abs.replace(/\\/g, '/');
-  // Ensure leading slash on Windows paths
-  const prefix = withSlashes.startsWith('/') ? '' : '/';
-  return `file://${prefix}${withSlashes}`;
+// Runs in the page: page-coordinate boxes (CSS pixels) of elements addressable
+// by id or data-testid, and the device pixel ratio the full-page screenshot is
+// taken at, so crops can be scaled to its pixels
+export function collectElementBoxes(): ElementBoxes {
+  const boxes: ElementBoxes['boxes'] = {};
+  const els = Array.from(document.querySelectorAll('[id], [data-testid]')).slice(0, 500);
+  for (const el of els) {
+    const r = el.getBoundingClientRect();
+    if (r.width === 0 || r.height === 0) continue;
+    const box = { x: r.left + window.scrollX, y: r.top + window.scrollY, width: r.width, height: r.height };
+    if (el.id) boxes[`#${el.id}`] = box;
+    const testId = el.getAttribute('data-testid');
+    if (testId) boxes[`[data-testid="${testId}"]`] = box;
+  }
+  return { devicePixelRatio: window.devicePixelRatio || 1, boxes };
+}
+
+export const HAR_FILE = 'network.har';
+
+export function harOf(runId: string): string {
+  const file = path.join(resolveRunDir(runId), HAR_FILE);
+  if (!fs.existsSync(file)) {
+    throw new ArtifactError('invalid_argument', `Run ${runId} has no ${HAR_FILE}; record it with the recordHar option`);
+  }
+  return file;
 }
 
@@ -0,0 +1,519 @@
+// Playwright trace reader: unpacks trace.zip into a compact timeline of
+// actions, navigations, console output, page errors and network calls, and
+// pulls out the DOM snapshot or screencast frame nearest an action or time.
+// Times are milliseconds since tracing started. Query results have secret
+// values masked; the parsed trace itself is kept raw.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import zlib from 'node:zlib';
+import { z } from 'zod';
+import { resolveRunDir, ArtifactError, type ArtifactContent } from './artifacts.js';
+import { MASK } from './instrument.js';
+import { createMasker, loadSecrets, type Masker } from './secrets.js';
+
+export const TRACE_FILE = 'trace.zip';
+
+export const traceEventKinds = ['action', 'navigation', 'console', 'pageerror', 'network', 'dialog'] as const;
+
+export type TraceEventKind = (typeof traceEventKinds)[number];
+
+export type TraceEvent = {
+  t: number;
+  kind: TraceEventKind;
+  // One-line description, e.g. `page.click #submit` or `GET 500 https://...`
+  summary: string;
+  // Actions: call id for snapshot/frame extraction, duration, error and the last log lines
+  callId?: string;
+  durationMs?: number;
+  error?: string;
+  log?: string[];
+  // Console: message type (error, warning, log, ...)
+  level?: string;
+};
+
+export type TraceTimeline = {
+  startedAt: string;
+  durationMs: number;
+  events: TraceEvent[];
+};
+
+export const queryTraceRequestSchema = z.object({
+  runId: z.string().min(1),
+  // Window in ms since trace start, inclusive
+  from: z.number().nonnegative().optional(),
+  to: z.number().nonnegative().optional(),
+  // Only events before the first failed action (or page error)
+  beforeError: z.boolean().optional(),
+  kinds: z.array(z.enum(traceEventKinds)).optional(),
+  // Case-insensitive substring of the event summary
+  grep: z.string().optional(),
+  // Keep only the last N matching events
+  last: z.number().int().positive().optional(),
+  // Instead of events: the DOM snapshot or screencast frame nearest an action
+  // (callId) or a time (at)
+  extract: z.enum(['snapshot', 'frame']).optional(),
+  callId: z.string().min(1).optional(),
+  at: z.number().nonnegative().optional(),
+  // Snapshot of the action to return (default: after, falling back to before)
+  phase: z.enum(['before', 'input', 'after']).optional(),
+  // Snapshot HTML is cut off beyond this many characters (default 50000)
+  maxChars: z.number().int().positive().optional(),
+});
+
+export type QueryTraceRequest = z.infer<typeof queryTraceRequestSchema>;
+
+export type TraceQueryResult =
+  | { kind: 'events'; startedAt: string; durationMs: number; total: number; events: TraceEvent[] }
+  | { kind: 'snapshot'; callId: string | null; snapshotName: string; t: number; url: string; html: string; truncated: boolean }
+  | { kind: 'frame'; t: number; width: number; height: number; mimeType: 'image/jpeg'; data: Buffer };
+
+const DEFAULT_MAX_CHARS = 50_000;
+const ACTION_LOG_LINES = 5;
+
+// ---- zip ----
+
+type ZipEntry = { method: number; compressedSize: number; offset: number };
+
+// Central directory of a (non-zip64) archive; entries are inflated on demand
+function readZipDirectory(buf: Buffer): Map<string, ZipEntry> {
+  let eocd = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 22 - 0xffff); i--) {
+    if (buf.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('end of central directory not found');
+  const count = buf.readUInt16LE(eocd + 10);
+  let p = buf.readUInt32LE(eocd + 16);
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < count; i++) {
+    if (buf.readUInt32LE(p) !== 0x02014b50) throw new Error('bad central directory entry');
+    const nameLength = buf.readUInt16LE(p + 28);
+    const extraLength = buf.readUInt16LE(p + 30);
+    const commentLength = buf.readUInt16LE(p + 32);
+    const name = buf.toString('utf8', p + 46, p + 46 + nameLength);
+    entries.set(name, { method: buf.readUInt16LE(p + 10), compressedSize: buf.readUInt32LE(p + 20), offset: buf.readUInt32LE(p + 42) });
+    p += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+function readZipEntry(buf: Buffer, entry: ZipEntry): Buffer {
+  const p = entry.offset;
+  if (buf.readUInt32LE(p) !== 0x04034b50) throw new Error('bad local file header');
+  const start = p + 30 + buf.readUInt16LE(p + 26) + buf.readUInt16LE(p + 28);
+  const data = buf.subarray(start, start + entry.compressedSize);
+  if (entry.method === 0) return data;
+  if (entry.method === 8) return zlib.inflateRawSync(data);
+  throw new Error(`unsupported compression method ${entry.method}`);
+}
+
+// ---- trace model ----
+
+type FrameSnapshot = {
+  callId: string;
+  snapshotName: string;
+  pageId: string;
+  frameId: string;
+  frameUrl: string;
+  timestamp: number;
+  html: unknown;
+  isMainFrame?: boolean;
+};
+
+type ScreencastFrame = { sha1: string; width: number; height: number; timestamp: number };
+
+type LoadedTrace = {
+  zip: Buffer;
+  entries: Map<string, ZipEntry>;
+  timeline: TraceTimeline;
+  // Per frame id, in capture order: snapshots reference nodes of earlier ones
+  snapshotsByFrame: Map<string, FrameSnapshot[]>;
+  snapshotsByName: Map<string, FrameSnapshot>;
+  frames: ScreencastFrame[];
+  // Monotonic time of trace start
+  origin: number;
+};
+
+// A trace line as parsed: fields are checked before use since the format is
+// Playwright's internal one and varies between versions
+type RawEvent = Record<string, unknown>;
+
+function record(value: unknown): RawEvent | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as RawEvent) : undefined;
+}
+
+function num(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+// Parsed traces keyed by file, reused while the file is unchanged
+const cache = new Map<string, { mtimeMs: number; trace: LoadedTrace }>();
+const MAX_CACHED = 4;
+
+function jsonLines(data: Buffer): RawEvent[] {
+  const out: RawEvent[] = [];
+  for (const line of data.toString('utf8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const ev = record(JSON.parse(line));
+      if (ev) out.push(ev);
+    } catch {
+      // a trace cut short by a crash can end mid-line
+    }
+  }
+  return out;
+}
+
+function errorMessage(error: unknown): string | undefined {
+  if (!error) return undefined;
+  const e = error as { message?: string; error?: { message?: string } };
+  return e.message ?? e.error?.message ?? String(error);
+}
+
+function actionTitle(ev: RawEvent): string {
+  if (ev.title) return String(ev.title);
+  if (ev.apiName) return String(ev.apiName);
+  const cls = String(ev.class ?? '');
+  return `${cls.charAt(0).toLowerCase()}${cls.slice(1)}.${String(ev.method)}`;
+}
+
+function actionDetail(params: RawEvent | undefined): string {
+  if (!params) return '';
+  const parts: string[] = [];
+  if (typeof params.selector === 'string') parts.push(params.selector);
+  if (typeof params.url === 'string') parts.push(params.url);
+  if (typeof params.key === 'string') parts.push(params.key);
+  return parts.join(' ');
+}
+
+function parseTrace(zip: Buffer): LoadedTrace {
+  const entries = readZipDirectory(zip);
+  const names = Array.from(entries.keys());
+  const traceEvents = names.filter((n) => n.endsWith('.trace')).flatMap((n) => jsonLines(readZipEntry(zip, entries.get(n)!)));
+  const networkEvents = names.filter((n) => n.endsWith('.network')).flatMap((n) => jsonLines(readZipEntry(zip, entries.get(n)!)));
+
+  const contextEvent = traceEvents.find((e) => e.type === 'context-options');
+  if (!contextEvent) throw new Error('no context-options event');
+  const origin = num(contextEvent.monotonicTime) ?? 0;
+  const wallOrigin = num(contextEvent.wallTime) ?? 0;
+  const rel = (time: number) => Math.max(0, Math.round(time - origin));
+
+  const events: TraceEvent[] = [];
+  const actions = new Map<string, TraceEvent>();
+  const startTimes = new Map<string, number>();
+  const snapshotsByFrame = new Map<string, FrameSnapshot[]>();
+  const snapshotsByName = new Map<string, FrameSnapshot>();
+  const frames: ScreencastFrame[] = [];
+  let end = origin;
+  let lastMainUrl: string | undefined;
+
+  for (const ev of traceEvents) {
+    const time = num(ev.time);
+    const params = record(ev.params);
+    switch (ev.type) {
+      case 'before': {
+        const startTime = num(ev.startTime) ?? origin;
+        const detail = actionDetail(params);
+        const action: TraceEvent = { t: rel(startTime), kind: 'action', summary: `${actionTitle(ev)}${detail ? ` ${detail}` : ''}`, callId: String(ev.callId) };
+        actions.set(action.callId!, action);
+        startTimes.set(action.callId!, startTime);
+        events.push(action);
+        break;
+      }
+      case 'log': {
+        const action = actions.get(String(ev.callId));
+        if (action) action.log = [...(action.log ?? []), String(ev.message)].slice(-ACTION_LOG_LINES);
+        break;
+      }
+      case 'after': {
+        const action = actions.get(String(ev.callId));
+        if (!action) break;
+        const endTime = num(ev.endTime);
+        if (endTime !== undefined && endTime > 0) {
+          action.durationMs = Math.round(endTime - startTimes.get(action.callId!)!);
+          end = Math.max(end, endTime);
+        }
+        const error = errorMessage(ev.error);
+        if (error) action.error = error;
+        break;
+      }
+      case 'console':
+        events.push({ t: rel(time ?? origin), kind: 'console', level: String(ev.messageType), summary: `[${String(ev.messageType)}] ${String(ev.text)}` });
+        break;
+      case 'event':
+        if (ev.method === 'pageError') {
+          events.push({ t: rel(time ?? origin), kind: 'pageerror', summary: errorMessage(params?.error) ?? 'page error' });
+        } else if (ev.method === 'dialog') {
+          events.push({ t: rel(time ?? origin), kind: 'dialog', summary: `${String(params?.type)} "${String(params?.message)}"` });
+        }
+        break;
+      case 'frame-snapshot': {
+        const raw = record(ev.snapshot);
+        if (typeof raw?.frameId !== 'string' || typeof raw.snapshotName !== 'string' || num(raw.timestamp) === undefined) break;
+        const snap = raw as FrameSnapshot;
+        snapshotsByFrame.set(snap.frameId, [...(snapshotsByFrame.get(snap.frameId) ?? []), snap]);
+        snapshotsByName.set(snap.snapshotName, snap);
+        // The trace has no navigation events; a main frame URL change between snapshots is one
+        if (snap.isMainFrame && snap.frameUrl !== lastMainUrl) {
+          events.push({ t: rel(snap.timestamp), kind: 'navigation', summary: snap.frameUrl });
+          lastMainUrl = snap.frameUrl;
+        }
+        break;
+      }
+      case 'screencast-frame': {
+        const timestamp = num(ev.timestamp);
+        if (typeof ev.sha1 === 'string' && timestamp !== undefined) {
+          frames.push({ sha1: ev.sha1, width: num(ev.width) ?? 0, height: num(ev.height) ?? 0, timestamp });
+        }
+        break;
+      }
+    }
+    if (time !== undefined) end = Math.max(end, time);
+  }
+
+  for (const ev of networkEvents) {
+    const s = record(ev.snapshot);
+    if (ev.type !== 'resource-snapshot' || !s) continue;
+    const request = record(s.request);
+    const start = num(s._monotonicTime) ?? origin + (new Date(String(s.startedDateTime)).getTime() - wallOrigin);
+    const status = s._failureText ? `failed (${String(s._failureText)})` : String(record(s.response)?.status ?? '-');
+    const time = num(s.time);
+    const durationMs = time !== undefined && time >= 0 ? Math.round(time) : undefined;
+    events.push({ t: rel(start), kind: 'network', summary: `${String(request?.method)} ${status} ${String(request?.url)}`, ...(durationMs !== undefined ? { durationMs } : {}) });
+  }
+
+  // Stable sort keeps an action ahead of the console output it caused
+  events.sort((a, b) => a.t - b.t);
+  return {
+    zip,
+    entries,
+    timeline: { startedAt: new Date(wallOrigin).toISOString(), durationMs: rel(end), events },
+    snapshotsByFrame,
+    snapshotsByName,
+    frames,
+    origin,
+  };
+}
+
+function loadTrace(runId: string): LoadedTrace {
+  const file = path.join(resolveRunDir(runId), TRACE_FILE);
+  if (!fs.existsSync(file)) throw new ArtifactError('not_found', `trace not found for run ${runId}`);
+  const { mtimeMs } = fs.statSync(file);
+  const hit = cache.get(file);
+  if (hit && hit.mtimeMs === mtimeMs) return hit.trace;
+  let trace: LoadedTrace;
+  try {
+    trace = parseTrace(fs.readFileSync(file));
+  } catch (e) {
+    throw new ArtifactError('invalid_argument', `${TRACE_FILE} of run ${runId} is not a readable Playwright trace: ${(e as Error).message}`);
+  }
+  cache.delete(file);
+  cache.set(file, { mtimeMs, trace });
+  if (cache.size > MAX_CACHED) cache.delete(cache.keys().next().value!);
+  return trace;
+}
+
+export function traceTimeline(runId: string): TraceTimeline {
+  return loadTrace(runId).timeline;
+}
+
+// ---- snapshot rendering ----
+
+const VOID_ELEMENTS = new Set(['AREA', 'BASE', 'BR', 'COL', 'EMBED', 'HR', 'IMG', 'INPUT', 'LINK', 'META', 'SOURCE', 'TRACK', 'WBR']);
+// Attributes the snapshotter adds to carry live state
+const STATE_ATTRIBUTES: Record<string, string> = {
+  __playwright_value_: 'value',
+  __playwright_checked_: 'checked',
+  __playwright_selected_: 'selected',
+};
+const STYLE_SHEET_ATTRIBUTE = '__playwright_style_sheet_';
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Nodes of a snapshot in the order the snapshotter numbered them (post-order)
+function snapshotNodes(snapshot: FrameSnapshot, memo: Map<FrameSnapshot, unknown[]>): unknown[] {
+  let nodes = memo.get(snapshot);
+  if (!nodes) {
+    const out: unknown[] = [];
+    const visit = (n: unknown) => {
+      if (typeof n === 'string') {
+        out.push(n);
+      } else if (Array.isArray(n) && typeof n[0] === 'string') {
+        for (const child of n.slice(2)) visit(child);
+        out.push(n);
+      }
+    };
+    visit(snapshot.html);
+    memo.set(snapshot, out);
+    nodes = out;
+  }
+  return nodes;
+}
+
+// Serialize a frame snapshot to HTML, resolving references to unchanged
+// subtrees of earlier snapshots of the same frame. Secrets are masked before
+// escaping, and password inputs never show their value.
+function renderSnapshot(trace: LoadedTrace, snapshot: FrameSnapshot, mask: Masker): string {
+  const history = trace.snapshotsByFrame.get(snapshot.frameId) ?? [snapshot];
+  const memo = new Map<FrameSnapshot, unknown[]>();
+  const render = (n: unknown, index: number, parentTag: string): string => {
+    if (typeof n === 'string') return parentTag === 'STYLE' ? mask(n) : escapeHtml(mask(n));
+    if (!Array.isArray(n)) return '';
+    if (Array.isArray(n[0])) {
+      const [back, nodeIndex] = n[0] as [number, number];
+      const refIndex = index - back;
+      const ref = history[refIndex];
+      if (!ref || refIndex > index) return '';
+      return render(snapshotNodes(ref, memo)[nodeIndex], refIndex, parentTag);
+    }
+    const tag = String(n[0]);
+    const attrs = (n[1] ?? {}) as Record<string, string>;
+    if (tag === 'template' && attrs[STYLE_SHEET_ATTRIBUTE] !== undefined) return `<style>${mask(attrs[STYLE_SHEET_ATTRIBUTE])}</style>`;
+    const password = tag.toUpperCase() === 'INPUT' && String(attrs.type).toLowerCase() === 'password';
+    const attrText = Object.entries(attrs)
+      .map(([name, value]) => [STATE_ATTRIBUTES[name] ?? name, value] as const)
+      .filter(([name]) => !name.startsWith('__playwright'))
+      .map(([name, value]) => ` ${name}="${escapeHtml(password && name === 'value' ? MASK : mask(String(value)))}"`)
+      .join('');
+    if (VOID_ELEMENTS.has(tag.toUpperCase())) return `<${tag}${attrText}>`;
+    const children = n.slice(2).map((c: unknown) => render(c, index, tag.toUpperCase())).join('');
+    return `<${tag}${attrText}>${children}</${tag}>`;
+  };
+  return render(snapshot.html, history.indexOf(snapshot), '');
+}
+
+function mainFrameSnapshots(trace: LoadedTrace): FrameSnapshot[] {
+  return Array.from(trace.snapshotsByName.values()).filter((s) => s.isMainFrame !== false);
+}
+
+function findSnapshot(trace: LoadedTrace, req: QueryTraceRequest): FrameSnapshot {
+  if (req.callId) {
+    const phases = req.phase ? [req.phase] : ['after', 'before', 'input'];
+    for (const phase of phases) {
+      const snap = trace.snapshotsByName.get(`${phase}@${req.callId}`);
+      if (snap) return snap;
+    }
+    throw new ArtifactError('not_found', `no ${req.phase ? `${req.phase} ` : ''}snapshot for action ${req.callId}`);
+  }
+  const target = trace.origin + (req.at ?? 0);
+  const candidates = mainFrameSnapshots(trace);
+  if (candidates.length === 0) throw new ArtifactError('not_found', 'trace has no DOM snapshots');
+  return candidates.reduce((best, s) => (Math.abs(s.timestamp - target) < Math.abs(best.timestamp - target) ? s : best));
+}
+
+// Time of an action, for finding the screencast frame nearest it
+function actionTime(trace: LoadedTrace, callId: string): number {
+  const action = trace.timeline.events.find((e) => e.callId === callId);
+  if (!action) throw new ArtifactError('not_found', `action ${callId} not found in trace`);
+  // The frame just after the action shows its effect
+  return action.t + (action.durationMs ?? 0);
+}
+
+// ---- queries ----
+
+function maskEvent(e: TraceEvent, mask: Masker): TraceEvent {
+  return {
+    ...e,
+    summary: mask(e.summary),
+    ...(e.error !== undefined ? { error: mask(e.error) } : {}),
+    ...(e.log ? { log: e.log.map(mask) } : {}),
+  };
+}
+
+export function queryTrace(input: unknown): TraceQueryResult {
+  const parsed = queryTraceRequestSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new ArtifactError('invalid_argument', parsed.error.issues.map((i) => `${i.path.join('.') || 'input'}: ${i.message}`).join('; '));
+  }
+  const req = parsed.data;
+  const trace = loadTrace(req.runId);
+  // Typed passwords, tokens in URLs and the like: the cached trace is raw
+  const mask = createMasker(loadSecrets());
+
+  if (req.extract === 'snapshot') {
+    if (!req.callId && req.at === undefined) throw new ArtifactError('invalid_argument', 'callId or at is required to extract a snapshot');
+    const snap = findSnapshot(trace, req);
+    const html = renderSnapshot(trace, snap, mask);
+    const maxChars = req.maxChars ?? DEFAULT_MAX_CHARS;
+    return {
+      kind: 'snapshot',
+      callId: snap.callId ?? null,
+      snapshotName: snap.snapshotName,
+      t: Math.max(0, Math.round(snap.timestamp - trace.origin)),
+      url: mask(snap.frameUrl),
+      html: html.slice(0, maxChars),
+      truncated: html.length > maxChars,
+    };
+  }
+
+  if (req.extract === 'frame') {
+    if (!req.callId && req.at === undefined) throw new ArtifactError('invalid_argument', 'callId or at is required to extract a frame');
+    if (trace.frames.length === 0) throw new ArtifactError('not_found', 'trace has no screencast frames');
+    const target = trace.origin + (req.callId ? actionTime(trace, req.callId) : req.at!);
+    const frame = trace.frames.reduce((best, f) => (Math.abs(f.timestamp - target) < Math.abs(best.timestamp - target) ? f : best));
+    const entry = trace.entries.get(`resources/${frame.sha1}`);
+    if (!entry) throw new ArtifactError('not_found', `screencast frame ${frame.sha1} missing from trace`);
+    return {
+      kind: 'frame',
+      t: Math.max(0, Math.round(frame.timestamp - trace.origin)),
+      width: frame.width,
+      height: frame.height,
+      mimeType: 'image/jpeg',
+      data: readZipEntry(trace.zip, entry),
+    };
+  }
+
+  // Masked before filtering so grep cannot probe for a secret
+  let events = trace.timeline.events.map((e) => maskEvent(e, mask));
+  if (req.beforeError) {
+    const failed = events.find((e) => e.error || e.kind === 'pageerror');
+    if (!failed) throw new ArtifactError('not_found', 'trace has no failed action or page error');
+    // Include the failing event itself
+    events = events.slice(0, events.indexOf(failed) + 1);
+  }
+  if (req.from !== undefined) events = events.filter((e) => e.t >= req.from!);
+  if (req.to !== undefined) events = events.filter((e) => e.t <= req.to!);
+  if (req.kinds?.length) events = events.filter((e) => req.kinds!.includes(e.kind));
+  const grep = req.grep?.toLowerCase();
+  if (grep) events = events.filter((e) => e.summary.toLowerCase().includes(grep) || e.error?.toLowerCase().includes(grep));
+  const total = events.length;
+  if (req.last) events = events.slice(-req.last);
+  return { kind: 'events', startedAt: trace.timeline.startedAt, durationMs: trace.timeline.durationMs, total, events };
+}
+
+// One line per event: compact enough to hand a model a whole timeline
+export function formatTraceEvents(events: TraceEvent[]): string {
+  return events.map((e) => {
+    const duration = e.durationMs !== undefined ? ` (${e.durationMs}ms)` : '';
+    const id = e.callId ? ` [${e.callId}]` : '';
+    const error = e.error ? `\n    error: ${e.error.split('\n')[0]}` : '';
+    const log = e.error && e.log?.length ? `\n    log: ${e.log.join(' | ')}` : '';
+    return `+${e.t}ms ${e.kind} ${e.summary}${duration}${id}${error}${log}`;
+  }).join('\n');
+}
+
+// Model-facing content: the timeline as text, snapshots as HTML, frames as images
+export function renderTraceContent(result: TraceQueryResult): ArtifactContent[] {
+  switch (result.kind) {
+    case 'events':
+      return [{
+        type: 'text',
+        text: `Trace started ${result.startedAt}, ${result.durationMs}ms; ${result.events.length} of ${result.total} matching events\n${formatTraceEvents(result.events)}`,
+      }];
+    case 'snapshot':
+      return [{
+        type: 'text',
+        text: `Snapshot ${result.snapshotName} at +${result.t}ms of ${result.url}${result.truncated ? ' (truncated)' : ''}\n${result.html}`,
+      }];
+    case 'frame':
+      return [
+        { type: 'text', text: JSON.stringify({ t: result.t, width: result.width, height: result.height }) },
+        { type: 'image', data: result.data.toString('base64'), mimeType: result.mimeType },
+      ];
+  }
+}
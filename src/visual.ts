@@ -0,0 +1,157 @@
+// Visual regression: per-script baseline screenshots under the configured
+// baselinesDir, pixel diffs against a baseline or another run, and baseline
+// approval.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { readManifest } from './manifest.js';
+import { resolveRunDir, validateName, selectorRegion, screenshotScale, toDevicePixels, ArtifactError, MODEL_IMAGE_MAX_BYTES, type ArtifactContent } from './artifacts.js';
+import { decodePng, encodePng, diffPng, fitPng, type Region } from './png.js';
+import type { VisualMask } from './options.js';
+import { isInlineScriptPath } from './script.js';
+import { getConfig } from './config.js';
+
+export type VisualDiff = {
+  name: string;
+  // 'baseline' or the run id compared against
+  against: string;
+  mismatchPercent: number;
+  mismatchedPixels: number;
+  comparedPixels: number;
+  threshold: number;
+  passed: boolean;
+  // Diff image relative to the run directory, e.g. diffs/after_login.png
+  diff: string | null;
+};
+
+export type CompareOptions = {
+  threshold?: number;
+  masks?: VisualMask[];
+};
+
+const DEFAULT_THRESHOLD = 0.1;
+const DIFF_DIR = 'diffs';
+
+// Baselines are keyed by the script's path relative to the config root, so
+// the same script finds them from any working directory
+export function baselineDir(scriptPath: string): string {
+  const { root, baselinesDir } = getConfig();
+  const rel = path.relative(root, path.resolve(scriptPath));
+  return path.join(baselinesDir, rel.replace(/[\\/]/g, '__'));
+}
+
+// Script a run's baseline belongs to. Inline source is stored per run
+// (runs/<id>/script.ts), so it has no baseline shared across runs.
+function baselineScript(runId: string, runDir: string): string {
+  const manifest = readManifest(runDir);
+  if (!manifest) throw new ArtifactError('not_found', `run ${runId} has no manifest; cannot tell which script's baseline to use`);
+  if (isInlineScriptPath(manifest.scriptPath, runDir)) {
+    throw new ArtifactError('invalid_argument', `run ${runId} ran inline source, which has no baseline; run the script from a file, or compare against another run`);
+  }
+  return manifest.scriptPath;
+}
+
+// Masks in the screenshot's pixels; regions are given in CSS pixels
+function resolveMasks(runDir: string, name: string, masks: VisualMask[] = []): Region[] {
+  const out: Region[] = [];
+  for (const m of masks) {
+    if (typeof m !== 'string') {
+      out.push(toDevicePixels(m, screenshotScale(runDir, name)));
+      continue;
+    }
+    try {
+      out.push(selectorRegion(runDir, name, m));
+    } catch {
+      // element absent from this screenshot: nothing to mask
+    }
+  }
+  return out;
+}
+
+function compareFiles(
+  runDir: string,
+  name: string,
+  expectedFile: string,
+  against: string,
+  opts: CompareOptions,
+  alwaysWriteDiff: boolean,
+): VisualDiff {
+  const actual = decodePng(fs.readFileSync(path.join(runDir, `${name}.png`)));
+  const expected = decodePng(fs.readFileSync(expectedFile));
+  const result = diffPng(actual, expected, { masks: resolveMasks(runDir, name, opts.masks) });
+  const threshold = opts.threshold ?? DEFAULT_THRESHOLD;
+
+  let diff: string | null = null;
+  if (alwaysWriteDiff || result.mismatchedPixels > 0) {
+    fs.mkdirSync(path.join(runDir, DIFF_DIR), { recursive: true });
+    diff = `${DIFF_DIR}/${name}.png`;
+    fs.writeFileSync(path.join(runDir, diff), encodePng(result.diff));
+  }
+  return {
+    name,
+    against,
+    mismatchPercent: Number(result.mismatchPercent.toFixed(4)),
+    mismatchedPixels: result.mismatchedPixels,
+    comparedPixels: result.comparedPixels,
+    threshold,
+    passed: result.mismatchPercent <= threshold,
+    diff,
+  };
+}
+
+// Compare every screenshot of a finished run that has a baseline. Returns an
+// empty list when the script has no baselines yet.
+export function compareRunToBaseline(runDir: string, scriptPath: string, opts: CompareOptions = {}): VisualDiff[] {
+  const dir = baselineDir(scriptPath);
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter((f) => f.endsWith('.png') && fs.existsSync(path.join(runDir, f)))
+    .sort()
+    .map((f) => compareFiles(runDir, f.slice(0, -'.png'.length), path.join(dir, f), 'baseline', opts, false));
+}
+
+// Compare one screenshot of a run against the baseline or another run
+export function compareScreenshots(args: { runId: string; name: string; against?: string } & CompareOptions): VisualDiff {
+  const runDir = resolveRunDir(args.runId);
+  const file = `${validateName(args.name, 'screenshot name')}.png`;
+  if (!fs.existsSync(path.join(runDir, file))) {
+    throw new ArtifactError('not_found', 'screenshot not found');
+  }
+
+  let expectedFile: string;
+  if (args.against) {
+    expectedFile = path.join(resolveRunDir(args.against), file);
+    if (!fs.existsSync(expectedFile)) {
+      throw new ArtifactError('not_found', `screenshot ${args.name} not found in run ${args.against}`);
+    }
+  } else {
+    expectedFile = path.join(baselineDir(baselineScript(args.runId, runDir)), file);
+    if (!fs.existsSync(expectedFile)) {
+      throw new ArtifactError('not_found', `no baseline for ${args.name}; approve a run first`);
+    }
+  }
+  return compareFiles(runDir, args.name, expectedFile, args.against ?? 'baseline', args, true);
+}
+
+// Copy a run's screenshots (all, or only `names`) into its script's baseline
+export function approveBaseline(runId: string, names?: string[]): { dir: string; approved: string[] } {
+  const runDir = resolveRunDir(runId);
+  const dir = baselineDir(baselineScript(runId, runDir));
+  const shots = fs.readdirSync(runDir).filter((f) => f.endsWith('.png'));
+  const selected = names?.length ? shots.filter((f) => names.includes(f.slice(0, -'.png'.length))) : shots;
+  if (selected.length === 0) throw new ArtifactError('not_found', 'no matching screenshots to approve');
+  fs.mkdirSync(dir, { recursive: true });
+  for (const f of selected) fs.copyFileSync(path.join(runDir, f), path.join(dir, f));
+  return { dir, approved: selected.map((f) => f.slice(0, -'.png'.length)).sort() };
+}
+
+// Model-facing result: the comparison as JSON plus the diff image
+export function renderVisualDiffContent(runId: string, result: VisualDiff): ArtifactContent[] {
+  const content: ArtifactContent[] = [{ type: 'text', text: JSON.stringify(result) }];
+  if (result.diff) {
+    const file = path.join(resolveRunDir(runId), result.diff);
+    const data = fitPng(decodePng(fs.readFileSync(file)), MODEL_IMAGE_MAX_BYTES);
+    content.push({ type: 'image', data: data.toString('base64'), mimeType: 'image/png' });
+  }
+  return content;
+}
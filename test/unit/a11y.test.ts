@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { summarizeA11y, describeA11yFailures, formatA11yCounts, type A11yAudit, type A11yImpact } from '../../src/a11y.js';
+import { resolveRunOptions } from '../../src/options.js';
+
+function audit(name: string, impacts: A11yImpact[]): A11yAudit {
+  return {
+    name,
+    step: 'login',
+    url: 'https://app.test/login',
+    time: 0,
+    violations: impacts.map((impact, i) => ({
+      rule: `rule-${impact}-${i}`,
+      impact,
+      help: `Fix ${impact}`,
+      helpUrl: 'https://dequeuniversity.com/rules/axe',
+      nodes: [{ selector: `#el${i}`, html: '<div></div>' }],
+      omittedNodes: 0,
+    })),
+  };
+}
+
+const audits = [audit('before_login', ['minor', 'serious']), audit('after_login', ['serious', 'moderate'])];
+
+test('summarizeA11y counts violations per impact across audits', () => {
+  const summary = summarizeA11y(audits);
+  assert.deepEqual(summary, { audits: 2, violations: { minor: 1, moderate: 1, serious: 2, critical: 0 }, passed: true });
+  assert.equal(formatA11yCounts(summary), '2 serious, 1 moderate, 1 minor');
+  assert.equal(formatA11yCounts(summarizeA11y([])), 'no violations');
+});
+
+test('summarizeA11y fails only on violations at or above failOn', () => {
+  assert.equal(summarizeA11y(audits, 'critical').passed, true);
+  assert.equal(summarizeA11y(audits, 'serious').passed, false);
+  assert.equal(summarizeA11y(audits, 'minor').passed, false);
+  assert.equal(summarizeA11y(audits, 'serious').failOn, 'serious');
+});
+
+test('describeA11yFailures lists each violation at or above the threshold with its audit', () => {
+  assert.deepEqual(describeA11yFailures(audits, 'serious'), [
+    '[serious] rule-serious-1 at before_login: Fix serious (#el1)',
+    '[serious] rule-serious-0 at after_login: Fix serious (#el0)',
+  ]);
+  assert.deepEqual(describeA11yFailures(audits, 'critical'), []);
+});
+
+test('a11yFailOn turns on step audits unless a11y is explicitly off', () => {
+  assert.equal(resolveRunOptions({}).a11y, false);
+  assert.equal(resolveRunOptions({ a11yFailOn: 'serious' }).a11y, true);
+  assert.equal(resolveRunOptions({ a11yFailOn: 'serious', a11y: false }).a11y, false);
+});
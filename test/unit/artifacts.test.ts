@@ -0,0 +1,96 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { ArtifactError, getArtifact, toDevicePixels, validateName } from '../../src/artifacts.js';
+import { decodePng } from '../../src/png.js';
+import { compareScreenshots, approveBaseline } from '../../src/visual.js';
+import { useTempRunsDir, writeRun, screenshotWithRect } from './fixtures.js';
+
+let root: string;
+
+before(async () => {
+  root = await useTempRunsDir();
+});
+
+after(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+function allRed(data: Buffer): boolean {
+  const png = decodePng(data);
+  for (let i = 0; i < png.data.length; i += 4) {
+    if (png.data[i] !== 255 || png.data[i + 1] !== 0 || png.data[i + 2] !== 0) return false;
+  }
+  return true;
+}
+
+test('validateName accepts plain names and rejects paths, dotfiles and control characters', () => {
+  for (const name of ['after_login', 'run-2026-01-01T00-00-00', 'step 1 (retry)']) assert.equal(validateName(name, 'name'), name);
+  for (const name of ['', '..', '.hidden', 'a/b', 'a\\b', '../etc/passwd', 'tab\there', 'x'.repeat(201)]) {
+    assert.throws(() => validateName(name, 'screenshot name'), (e) => e instanceof ArtifactError && e.code === 'invalid_argument' && /Invalid screenshot name/.test(e.message), name);
+  }
+});
+
+test('toDevicePixels scales and grows a region to whole device pixels', () => {
+  assert.deepEqual(toDevicePixels({ x: 1, y: 2, width: 3, height: 4 }, 1), { x: 1, y: 2, width: 3, height: 4 });
+  assert.deepEqual(toDevicePixels({ x: 10, y: 5, width: 20, height: 8 }, 2), { x: 20, y: 10, width: 40, height: 16 });
+  assert.deepEqual(toDevicePixels({ x: 1.5, y: 0, width: 1, height: 1 }, 3), { x: 4, y: 0, width: 4, height: 3 });
+});
+
+test('selector and region crops use the device pixel ratio recorded with the boxes', () => {
+  // A 10x8 CSS-pixel element at (4,3), screenshot taken at devicePixelRatio 2
+  const dir = writeRun(root, 'r-dpr');
+  fs.writeFileSync(path.join(dir, 'shot.png'), screenshotWithRect(60, 40, { x: 8, y: 6, width: 20, height: 16 }));
+  fs.writeFileSync(path.join(dir, 'shot.boxes.json'), JSON.stringify({
+    devicePixelRatio: 2,
+    boxes: { '#banner': { x: 4, y: 3, width: 10, height: 8 } },
+  }));
+
+  const bySelector = getArtifact({ runId: 'r-dpr', kind: 'screenshot', name: 'shot', selector: '#banner' });
+  assert.equal(bySelector.kind, 'screenshot');
+  if (bySelector.kind !== 'screenshot') return;
+  assert.deepEqual([bySelector.width, bySelector.height], [20, 16]);
+  assert.ok(allRed(bySelector.data));
+
+  const byRegion = getArtifact({ runId: 'r-dpr', kind: 'screenshot', name: 'shot', region: { x: 4, y: 3, width: 10, height: 8 } });
+  if (byRegion.kind !== 'screenshot') return assert.fail('expected a screenshot');
+  assert.deepEqual([byRegion.width, byRegion.height], [20, 16]);
+  assert.ok(allRed(byRegion.data));
+});
+
+test('boxes recorded without a ratio are read as CSS pixels at ratio 1', () => {
+  const dir = writeRun(root, 'r-legacy-boxes');
+  fs.writeFileSync(path.join(dir, 'shot.png'), screenshotWithRect(20, 20, { x: 2, y: 2, width: 5, height: 5 }));
+  fs.writeFileSync(path.join(dir, 'shot.boxes.json'), JSON.stringify({ '#logo': { x: 2, y: 2, width: 5, height: 5 } }));
+
+  const shot = getArtifact({ runId: 'r-legacy-boxes', kind: 'screenshot', name: 'shot', selector: '#logo' });
+  if (shot.kind !== 'screenshot') return assert.fail('expected a screenshot');
+  assert.deepEqual([shot.width, shot.height], [5, 5]);
+  assert.ok(allRed(shot.data));
+});
+
+test('visual masks cover the element at the recorded device pixel ratio', () => {
+  const boxes = JSON.stringify({ devicePixelRatio: 2, boxes: { '#ad': { x: 4, y: 3, width: 10, height: 8 } } });
+  const original = writeRun(root, 'r-visual-a');
+  fs.writeFileSync(path.join(original, 'home.png'), screenshotWithRect(60, 40, { x: 0, y: 0, width: 0, height: 0 }));
+  const changed = writeRun(root, 'r-visual-b');
+  fs.writeFileSync(path.join(changed, 'home.png'), screenshotWithRect(60, 40, { x: 8, y: 6, width: 20, height: 16 }));
+  fs.writeFileSync(path.join(changed, 'home.boxes.json'), boxes);
+
+  const compare = (masks?: (string | { x: number; y: number; width: number; height: number })[]) =>
+    compareScreenshots({ runId: 'r-visual-b', name: 'home', against: 'r-visual-a', masks });
+
+  assert.equal(compare().mismatchedPixels, 20 * 16);
+  assert.equal(compare(['#ad']).mismatchedPixels, 0);
+  assert.equal(compare([{ x: 4, y: 3, width: 10, height: 8 }]).mismatchedPixels, 0);
+});
+
+test('inline-source runs cannot be approved or compared to a baseline', () => {
+  const dir = writeRun(root, 'r-inline', { scriptPath: path.join(root, 'r-inline', 'script.ts') }, { 'script.ts': 'export default async () => {};' });
+  fs.writeFileSync(path.join(dir, 'home.png'), screenshotWithRect(4, 4, { x: 0, y: 0, width: 0, height: 0 }));
+  const inline = (e: unknown) => e instanceof ArtifactError && e.code === 'invalid_argument' && /inline source/.test(e.message);
+
+  assert.throws(() => approveBaseline('r-inline'), inline);
+  assert.throws(() => compareScreenshots({ runId: 'r-inline', name: 'home' }), inline);
+});
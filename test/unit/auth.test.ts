@@ -0,0 +1,60 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { loadConfig } from '../../src/config.js';
+import { ArtifactError } from '../../src/artifacts.js';
+import { authStatePath, listAuthProfiles, readAuthProfile, deleteAuthProfile, type AuthProfile } from '../../src/auth.js';
+import { tempDir } from './fixtures.js';
+
+let dir: string;
+const cwd = process.cwd();
+
+function saveProfile(root: string, fields: Partial<AuthProfile> & { name: string }): void {
+  const profileDir = path.join(root, fields.name);
+  fs.mkdirSync(profileDir, { recursive: true });
+  fs.writeFileSync(path.join(profileDir, 'state.json'), '{"cookies":[],"origins":[]}');
+  fs.writeFileSync(path.join(profileDir, 'profile.json'), JSON.stringify({
+    setupScript: path.join(dir, 'login.setup.ts'),
+    ttlMs: 60_000,
+    options: {},
+    updatedAt: new Date().toISOString(),
+    lastSetupRunId: 'r1',
+    ...fields,
+  }));
+}
+
+before(async () => {
+  dir = tempDir();
+  fs.writeFileSync(path.join(dir, 'testing-agent.config.json'), JSON.stringify({ authDir: 'profiles', runsDir: 'runs' }));
+  await loadConfig({ file: path.join(dir, 'testing-agent.config.json') });
+  // Profiles resolve against the config file, not the working directory
+  process.chdir(tempDir());
+});
+
+after(() => {
+  const elsewhere = process.cwd();
+  process.chdir(cwd);
+  fs.rmSync(elsewhere, { recursive: true, force: true });
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test('profiles are read from the configured authDir whatever the working directory', async () => {
+  saveProfile(path.join(dir, 'profiles'), { name: 'admin' });
+
+  assert.equal(readAuthProfile('admin')?.lastSetupRunId, 'r1');
+  assert.deepEqual(listAuthProfiles().map((p) => [p.name, p.stale]), [['admin', false]]);
+  assert.equal(await authStatePath('admin'), path.join(dir, 'profiles', 'admin', 'state.json'));
+});
+
+test('unknown and invalid profile names are errors', async () => {
+  await assert.rejects(authStatePath('nobody'), (e) => e instanceof ArtifactError && e.code === 'not_found');
+  assert.throws(() => readAuthProfile('../etc'), (e) => e instanceof ArtifactError && e.code === 'invalid_argument');
+});
+
+test('deleteAuthProfile removes the profile directory', () => {
+  saveProfile(path.join(dir, 'profiles'), { name: 'viewer' });
+  deleteAuthProfile('viewer');
+  assert.equal(fs.existsSync(path.join(dir, 'profiles', 'viewer')), false);
+  assert.throws(() => deleteAuthProfile('viewer'), (e) => e instanceof ArtifactError && e.code === 'not_found');
+});
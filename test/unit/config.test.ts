@@ -0,0 +1,71 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { getConfig, loadAgentDefinition } from '../../src/config.js';
+import { agentDefinition } from '../../src/agent.js';
+import { tempDir, useTempRunsDir } from './fixtures.js';
+
+let dir: string;
+let count = 0;
+
+before(() => {
+  dir = tempDir();
+});
+
+after(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function writeDefinition(yaml: string): string {
+  const file = path.join(dir, `agent-${++count}.yml`);
+  fs.writeFileSync(file, yaml);
+  return file;
+}
+
+const header = 'name: test-agent\nsystem_prompt: You test things.\ntools:\n';
+
+test('$ref is replaced with the named value, at any depth', () => {
+  const file = writeDefinition(`${header}  - name: run_test
+    description: Run a script
+    input_schema:
+      type: object
+      properties:
+        options: { $ref: run_options }
+        kinds:
+          type: array
+          items: { enum: { $ref: kinds } }
+`);
+  const runOptions = { type: 'object', properties: { timeoutMs: { type: 'number' } } };
+
+  const definition = loadAgentDefinition(file, { run_options: runOptions, kinds: ['console', 'network'] });
+
+  assert.deepEqual(definition.tools[0].input_schema, {
+    type: 'object',
+    properties: { options: runOptions, kinds: { type: 'array', items: { enum: ['console', 'network'] } } },
+  });
+});
+
+test('an unknown $ref names the tool and the known refs', () => {
+  const file = writeDefinition(`${header}  - name: run_test
+    description: Run a script
+    input_schema: { type: object, properties: { options: { $ref: nope } } }
+`);
+  assert.throws(() => loadAgentDefinition(file, { run_options: {} }), /run_test: unknown \$ref "nope" \(known: run_options\)/);
+});
+
+test('duplicate tools and schema errors are rejected', () => {
+  const tool = '  - name: list_runs\n    description: List runs\n    input_schema: { type: object }\n';
+  assert.throws(() => loadAgentDefinition(writeDefinition(`${header}${tool}${tool}`)), /duplicate tool list_runs/);
+  assert.throws(() => loadAgentDefinition(writeDefinition(`${header}  - name: Bad-Name\n    description: x\n    input_schema: { type: object }\n`)), /tools\.0\.name/);
+});
+
+test('the default agent definition is found from the package root and matches the handlers', async () => {
+  const root = await useTempRunsDir();
+  try {
+    assert.equal(getConfig().agentFile, path.resolve('agents', 'testing-agent.yml'));
+    assert.ok(agentDefinition().tools.length > 0);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,154 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Page } from 'playwright';
+import { createExpect, AssertionFailedError, type AssertionResult, type ExpectContext } from '../../src/expect.js';
+
+type FakeElement = { text: string; visible?: boolean; css?: Record<string, string> };
+
+// A page whose DOM is a selector -> elements map the test can change while
+// an assertion polls; `respond` plays a network response
+function fakePage(elements: Record<string, FakeElement[]> = {}) {
+  const state = { url: 'about:blank', elements };
+  let onResponse: (resp: unknown) => void = () => { /* set by createExpect */ };
+  const page = {
+    on(event: string, handler: (resp: unknown) => void) {
+      if (event === 'response') onResponse = handler;
+    },
+    url: () => state.url,
+    locator(selector: string) {
+      const all = () => state.elements[selector] ?? [];
+      return {
+        toString: () => `locator('${selector}')`,
+        count: async () => all().length,
+        first: () => ({
+          isVisible: async () => all()[0]?.visible ?? all().length > 0,
+          textContent: async () => all()[0]?.text ?? null,
+          evaluate: async (_fn: unknown, property: string) => all()[0]?.css?.[property] ?? '',
+        }),
+      };
+    },
+  };
+  const respond = (url: string, status: number, method = 'GET') =>
+    onResponse({ url: () => url, status: () => status, request: () => ({ method: () => method }) });
+  return { page: page as unknown as Page, state, respond };
+}
+
+function setup(elements?: Record<string, FakeElement[]>, ctx: Partial<ExpectContext> = {}) {
+  const fake = fakePage(elements);
+  const recorded: AssertionResult[] = [];
+  const expect = createExpect(fake.page, {
+    criticalErrors: [],
+    currentStep: () => 'checkout',
+    record: (r) => recorded.push(r),
+    ...ctx,
+  });
+  return { ...fake, expect, recorded };
+}
+
+test('polling stops with the step signal\'s reason once the step aborts', async () => {
+  const controller = new AbortController();
+  const { expect, recorded } = setup({}, { signal: () => controller.signal });
+
+  const started = Date.now();
+  const pending = expect.visible('#never', { timeoutMs: 10_000 });
+  const reason = new Error('Step "checkout" timed out after 50ms');
+  setTimeout(() => controller.abort(reason), 50);
+
+  await assert.rejects(pending, reason);
+  assert.ok(Date.now() - started < 1000);
+  assert.deepEqual(recorded, []);
+});
+
+test('an assertion under an already aborted step does not read the page', async () => {
+  const controller = new AbortController();
+  const reason = new Error('Step "checkout" timed out after 10ms');
+  controller.abort(reason);
+  const { expect, recorded } = setup({ h1: [{ text: 'Done' }] }, { signal: () => controller.signal });
+
+  await assert.rejects(expect.soft.text('h1', 'Done'), reason);
+  assert.deepEqual(recorded, []);
+});
+
+test('assertions outside any step poll until their own timeout', async () => {
+  const { expect, recorded } = setup({}, { signal: () => undefined });
+  await assert.rejects(expect.visible('#never', { timeoutMs: 150 }), AssertionFailedError);
+  assert.equal(recorded[0].passed, false);
+});
+
+test('each matcher passes against a matching page and records what it saw', async () => {
+  const { state, expect, respond, recorded } = setup({
+    h1: [{ text: '  Order\n  placed ', css: { color: 'rgb(0, 128, 0)' } }],
+    li: [{ text: 'a' }, { text: 'b' }],
+  });
+  state.url = 'https://shop.test/orders/42';
+  respond('https://shop.test/api/orders', 201, 'POST');
+
+  await expect.visible('h1');
+  await expect.text('h1', 'Order placed');
+  await expect.text('h1', /order/i);
+  await expect.url(/\/orders\/\d+$/);
+  await expect.count('li', 2);
+  await expect.css('h1', 'color', 'rgb(0, 128, 0)');
+  await expect.noConsoleErrors();
+  await expect.request('/api/orders', { method: 'post', status: 201 });
+
+  assert.deepEqual(recorded.map((r) => [r.assertion, r.passed, r.step]), [
+    ['visible', true, 'checkout'],
+    ['text', true, 'checkout'],
+    ['text', true, 'checkout'],
+    ['url', true, 'checkout'],
+    ['count', true, 'checkout'],
+    ['css', true, 'checkout'],
+    ['noConsoleErrors', true, 'checkout'],
+    ['request', true, 'checkout'],
+  ]);
+  assert.equal(recorded[2].expected, '/order/i');
+  assert.equal(recorded[1].actual, 'Order placed');
+  assert.equal(recorded[5].target, 'h1 color');
+});
+
+test('an assertion keeps polling until the page catches up', async () => {
+  const { state, expect, recorded } = setup({ li: [] });
+  setTimeout(() => { state.elements.li = [{ text: 'a' }, { text: 'b' }, { text: 'c' }]; }, 150);
+
+  await expect.count('li', 3, { timeoutMs: 2000 });
+  assert.equal(recorded[0].passed, true);
+  assert.ok(recorded[0].durationMs >= 100);
+});
+
+test('failures say what was expected and what was found', async () => {
+  const { state, expect, respond } = setup({ h1: [{ text: 'Cart' }], li: [{ text: 'a' }] }, { criticalErrors: ['TypeError: x is undefined'] });
+  state.url = 'https://shop.test/cart';
+  respond('https://shop.test/api/orders', 500, 'POST');
+  const failure = async (run: () => Promise<void>) => {
+    const err = await run().then(() => assert.fail('expected the assertion to fail'), (e: unknown) => e);
+    assert.ok(err instanceof AssertionFailedError);
+    assert.equal(err.result.passed, false);
+    return err.message;
+  };
+
+  assert.equal(await failure(() => expect.visible('#banner', { timeoutMs: 0 })), 'expect.visible(#banner): expected true, got false');
+  assert.equal(await failure(() => expect.text('h1', 'Checkout', { timeoutMs: 0 })), 'expect.text(h1): expected "Checkout", got "Cart"');
+  assert.equal(await failure(() => expect.text('h2', /total/, { timeoutMs: 0 })), 'expect.text(h2): expected "/total/", got null');
+  assert.equal(await failure(() => expect.url('https://shop.test/checkout', { timeoutMs: 0 })),
+    'expect.url(): expected "https://shop.test/checkout", got "https://shop.test/cart"');
+  assert.equal(await failure(() => expect.count('li', 2, { timeoutMs: 0 })), 'expect.count(li): expected 2, got 1');
+  assert.equal(await failure(() => expect.noConsoleErrors()), 'expect.noConsoleErrors(): expected [], got ["TypeError: x is undefined"]');
+  assert.equal(await failure(() => expect.request('/api/orders', { status: 201, timeoutMs: 0 })),
+    'expect.request(): expected {"url":"/api/orders","status":201}, got [{"url":"https://shop.test/api/orders","method":"POST","status":500}]');
+});
+
+test('soft failures are recorded without throwing', async () => {
+  const { expect, recorded } = setup({ li: [] });
+  await expect.soft.count('li', 1, { timeoutMs: 0 });
+  await expect.soft.visible('li', { timeoutMs: 0 });
+
+  assert.deepEqual(recorded.map((r) => [r.assertion, r.passed, r.soft]), [['count', false, true], ['visible', false, true]]);
+  assert.equal(recorded[0].message, 'expect.count(li): expected 1, got 0');
+});
+
+test('locator targets are described by the locator', async () => {
+  const { page, expect } = setup({ button: [{ text: 'Pay' }] });
+  await assert.rejects(expect.text(page.locator('button'), 'Buy', { timeoutMs: 0 }),
+    { message: 'expect.text(locator(\'button\')): expected "Buy", got "Pay"' });
+});
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AssertionError } from 'node:assert';
+import path from 'node:path';
+import { categorizeError, describeFailure } from '../../src/failure.js';
+import { ScriptLoadError } from '../../src/script.js';
+
+function named(name: string, message: string): Error {
+  const e = new Error(message);
+  e.name = name;
+  return e;
+}
+
+test('categorizeError recognises each category', () => {
+  const cases: [unknown, string][] = [
+    [new ScriptLoadError('compile', 'script.ts:1:5 Expression expected'), 'compile'],
+    [new ScriptLoadError('script-load', 'Cannot find module ./helpers'), 'script-load'],
+    [named('AbortError', 'The operation was aborted'), 'cancelled'],
+    [new Error('page.click: Target page, context or browser has been closed'), 'browser-crash'],
+    [new Error('browserType.launch: Executable doesn\'t exist'), 'browser-crash'],
+    [named('TimeoutError', 'locator.click: Timeout 30000ms exceeded.'), 'timeout'],
+    [new Error('locator.waitFor: Timeout 5000ms exceeded.'), 'timeout'],
+    [new AssertionError({ message: 'expected 1 to equal 2' }), 'assertion'],
+    [new Error('expect(locator).toHaveText() failed'), 'assertion'],
+    [new Error('page.goto: net::ERR_NAME_NOT_RESOLVED at https://nope.invalid/'), 'navigation'],
+    [new Error('Cannot read properties of undefined (reading \'x\')'), 'error'],
+    ['a thrown string', 'error'],
+    [undefined, 'error'],
+  ];
+  for (const [err, category] of cases) assert.equal(categorizeError(err), category, String((err as Error)?.message ?? err));
+});
+
+test('a crash reported by the page wins over the error text', () => {
+  assert.equal(categorizeError(new Error('Cannot read properties of undefined'), true), 'browser-crash');
+});
+
+test('describeFailure keeps the message, step and first frame in the script', () => {
+  const scriptPath = path.resolve('tests/example.spec.ts');
+  const err = new Error('boom');
+  err.stack = `Error: boom\n    at helper (file:///somewhere/else.js:3:1)\n    at run (file://${scriptPath}:12:7)`;
+
+  const failure = describeFailure(err, { scriptPath, artifactsDir: path.resolve('runs/none'), step: 'login' });
+
+  assert.equal(failure.category, 'error');
+  assert.equal(failure.message, 'boom');
+  assert.equal(failure.step, 'login');
+  assert.deepEqual(failure.location, { file: scriptPath, line: 12, column: 7 });
+});
+
+test('describeFailure omits what it does not know', () => {
+  const failure = describeFailure('plain string', { scriptPath: '/x.spec.ts', artifactsDir: '/tmp' });
+  assert.deepEqual(failure, { category: 'error', message: 'plain string' });
+});
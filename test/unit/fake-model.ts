@@ -0,0 +1,53 @@
+// Scripted stand-in for the Anthropic client: each messages.create call
+// returns the next turn and records the request it was given.
+
+import type Anthropic from '@anthropic-ai/sdk';
+import type { ModelClient } from '../../src/loop.js';
+
+type Block = Anthropic.Messages.ContentBlock;
+
+export type FakeTurn = {
+  content: Block[];
+  stopReason?: Anthropic.Messages.StopReason;
+  inputTokens?: number;
+  outputTokens?: number;
+};
+
+export type FakeModel = ModelClient & {
+  requests: Anthropic.Messages.MessageCreateParamsNonStreaming[];
+};
+
+export function text(value: string): Block {
+  return { type: 'text', text: value, citations: null };
+}
+
+export function toolUse(id: string, name: string, input: unknown = {}): Block {
+  return { type: 'tool_use', id, name, input };
+}
+
+export function fakeModel(turns: FakeTurn[]): FakeModel {
+  const requests: FakeModel['requests'] = [];
+  let next = 0;
+  return {
+    requests,
+    messages: {
+      async create(body) {
+        // Snapshot the history; the loop keeps appending to the same array
+        requests.push({ ...body, messages: [...body.messages] });
+        const turn = turns[next++];
+        if (!turn) throw new Error(`fake model: no turn ${next} scripted`);
+        const stopReason = turn.stopReason ?? (turn.content.some((b) => b.type === 'tool_use') ? 'tool_use' : 'end_turn');
+        return {
+          id: `msg_${next}`,
+          type: 'message',
+          role: 'assistant',
+          model: body.model,
+          content: turn.content,
+          stop_reason: stopReason,
+          stop_sequence: null,
+          usage: { input_tokens: turn.inputTokens ?? 10, output_tokens: turn.outputTokens ?? 5 },
+        } as Anthropic.Messages.Message;
+      },
+    },
+  };
+}
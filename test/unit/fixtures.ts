@@ -0,0 +1,59 @@
+// Shared fixtures: a throwaway runs directory and hand-written run manifests.
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { PNG } from 'pngjs';
+import { loadConfig } from '../../src/config.js';
+import { encodePng } from '../../src/png.js';
+import { writeManifest, type RunManifest } from '../../src/manifest.js';
+import { resolveRunOptions } from '../../src/options.js';
+
+export function tempDir(prefix = 'ta-test-'): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+}
+
+// Point runsDir() at a fresh temporary directory
+export async function useTempRunsDir(): Promise<string> {
+  const dir = tempDir('ta-runs-');
+  await loadConfig({ runsDir: dir });
+  return dir;
+}
+
+export function writeRun(
+  runsDir: string,
+  runId: string,
+  fields: Partial<Omit<RunManifest, 'version' | 'runId' | 'artifacts'>> = {},
+  files: Record<string, string> = {},
+): string {
+  const dir = path.join(runsDir, runId);
+  fs.mkdirSync(dir, { recursive: true });
+  for (const [name, content] of Object.entries(files)) fs.writeFileSync(path.join(dir, name), content);
+  const startedAt = fields.startedAt ?? new Date().toISOString();
+  writeManifest(dir, {
+    runId,
+    status: 'PASS',
+    scriptPath: '/scripts/login.spec.ts',
+    startedAt,
+    finishedAt: startedAt,
+    durationMs: 1000,
+    options: resolveRunOptions(),
+    criticalErrors: [],
+    steps: [],
+    ...fields,
+  });
+  return dir;
+}
+
+// A width x height screenshot, white except for a red rectangle
+export function screenshotWithRect(width: number, height: number, rect: { x: number; y: number; width: number; height: number }): Buffer {
+  const png = new PNG({ width, height });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const inside = x >= rect.x && x < rect.x + rect.width && y >= rect.y && y < rect.y + rect.height;
+      png.data.set(inside ? [255, 0, 0, 255] : [255, 255, 255, 255], i);
+    }
+  }
+  return encodePng(png);
+}
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Page } from 'playwright';
+import { instrumentPage, MASK, type InstrumentedAction } from '../../src/instrument.js';
+
+// Just enough of a Page for the proxy: click resolves once `release` is called
+function fakePage() {
+  const calls: string[] = [];
+  let release = () => { /* set by click */ };
+  const page = {
+    on() { /* events are not exercised here */ },
+    mainFrame() { return null; },
+    click(selector: string) {
+      calls.push(`click ${selector}`);
+      return new Promise<void>((resolve) => { release = resolve; });
+    },
+    locator(selector: string) {
+      return {
+        toString: () => `locator('${selector}')`,
+        async fill(value: string) { calls.push(`fill ${selector} ${value}`); },
+      };
+    },
+  };
+  return { page: page as unknown as Page, calls, release: () => release() };
+}
+
+test('records calls with masked secret input', async () => {
+  const { page, calls } = fakePage();
+  const actions: InstrumentedAction[] = [];
+  const instrumented = instrumentPage(page, (a) => actions.push(a));
+
+  await instrumented.locator('#password').fill('hunter2');
+
+  assert.deepEqual(calls, ['fill #password hunter2']);
+  assert.equal(actions.length, 1);
+  assert.deepEqual(actions[0].type === 'action' && [actions[0].method, actions[0].selector, actions[0].args, actions[0].outcome],
+    ['fill', "locator('#password')", [MASK], 'ok']);
+});
+
+test('an aborted call signal rejects pending and new calls without reaching the page', async () => {
+  const { page, calls, release } = fakePage();
+  const actions: InstrumentedAction[] = [];
+  const controller = new AbortController();
+  const instrumented = instrumentPage(page, (a) => actions.push(a), () => controller.signal);
+
+  const pending = instrumented.click('#slow');
+  const reason = new Error('Step "checkout" timed out after 10ms');
+  controller.abort(reason);
+
+  await assert.rejects(pending, reason);
+  await assert.rejects(async () => instrumented.locator('#name').fill('x'), reason);
+  release();
+
+  // The click had already been sent; the fill never was
+  assert.deepEqual(calls, ['click #slow']);
+  assert.deepEqual(actions.map((a) => a.type === 'action' && [a.method, a.outcome]), [['click', 'error'], ['fill', 'error']]);
+});
+
+test('calls under a signal that never aborts behave normally', async () => {
+  const { page, calls, release } = fakePage();
+  const instrumented = instrumentPage(page, () => { /* not checked */ }, () => new AbortController().signal);
+
+  const click = instrumented.click('#ok');
+  release();
+  await click;
+
+  assert.deepEqual(calls, ['click #ok']);
+});
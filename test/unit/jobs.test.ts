@@ -0,0 +1,112 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { enqueueJob, getJob, cancelJob, waitForJob, subscribeJob, type JobContext, type JobEvent } from '../../src/jobs.js';
+
+// Work that finishes when the test says so, or rejects when its job is aborted
+function controllable() {
+  let finish!: (value: unknown) => void;
+  let ctx: JobContext | undefined;
+  const work = (c: JobContext) => {
+    ctx = c;
+    return new Promise((resolve, reject) => {
+      finish = resolve;
+      c.signal.addEventListener('abort', () => reject(c.signal.reason), { once: true });
+    });
+  };
+  return { work, finish: (value?: unknown) => finish(value), ctx: () => ctx };
+}
+
+afterEach(() => {
+  delete process.env.JOB_CONCURRENCY;
+});
+
+test('runs one job at a time by default, in FIFO order', async () => {
+  const a = controllable();
+  const b = controllable();
+  const jobA = enqueueJob('a', a.work);
+  const jobB = enqueueJob('b', b.work);
+
+  assert.equal(getJob(jobA.jobId)?.state, 'running');
+  assert.equal(getJob(jobB.jobId)?.state, 'queued');
+
+  a.finish('result a');
+  const doneA = await waitForJob(jobA.jobId);
+  assert.equal(doneA?.state, 'succeeded');
+  assert.equal(doneA?.result, 'result a');
+  await Promise.resolve();
+  assert.equal(getJob(jobB.jobId)?.state, 'running');
+
+  b.finish();
+  assert.equal((await waitForJob(jobB.jobId))?.state, 'succeeded');
+});
+
+test('JOB_CONCURRENCY lets several jobs run at once', async () => {
+  process.env.JOB_CONCURRENCY = '2';
+  const a = controllable();
+  const b = controllable();
+  const jobA = enqueueJob('a', a.work);
+  const jobB = enqueueJob('b', b.work);
+
+  assert.equal(getJob(jobA.jobId)?.state, 'running');
+  assert.equal(getJob(jobB.jobId)?.state, 'running');
+
+  a.finish();
+  b.finish();
+  await Promise.all([waitForJob(jobA.jobId), waitForJob(jobB.jobId)]);
+});
+
+test('a failing job records its error', async () => {
+  const job = enqueueJob('boom', async () => {
+    throw new Error('script exploded');
+  });
+  const done = await waitForJob(job.jobId);
+  assert.equal(done?.state, 'failed');
+  assert.match(done?.error ?? '', /script exploded/);
+});
+
+test('cancelling a queued job removes it from the queue', async () => {
+  const a = controllable();
+  const b = controllable();
+  const jobA = enqueueJob('a', a.work);
+  const jobB = enqueueJob('b', b.work);
+
+  assert.equal(cancelJob(jobB.jobId)?.state, 'cancelled');
+  assert.equal(b.ctx(), undefined);
+
+  a.finish();
+  await waitForJob(jobA.jobId);
+  assert.equal(b.ctx(), undefined, 'a cancelled job never starts');
+  assert.equal(getJob(jobB.jobId)?.state, 'cancelled');
+});
+
+test('cancelling a running job aborts its signal', async () => {
+  const a = controllable();
+  const job = enqueueJob('a', a.work);
+
+  cancelJob(job.jobId);
+
+  assert.equal(a.ctx()?.signal.aborted, true);
+  assert.equal((await waitForJob(job.jobId))?.state, 'cancelled');
+  // Finished jobs are left alone
+  assert.equal(cancelJob(job.jobId)?.state, 'cancelled');
+  assert.equal(cancelJob('no-such-job'), null);
+});
+
+test('subscribers get the events so far, then live ones until the job ends', async () => {
+  const a = controllable();
+  const job = enqueueJob('a', a.work);
+  a.ctx()?.emit({ type: 'run:start', runId: 'r1', time: 1 });
+
+  const seen: JobEvent[] = [];
+  let ended = false;
+  subscribeJob(job.jobId, (e) => seen.push(e), () => { ended = true; });
+  a.ctx()?.emit({ type: 'step:start', runId: 'r1', name: 'login', time: 2 });
+  a.finish();
+  await waitForJob(job.jobId);
+
+  assert.deepEqual(seen.map((e) => (e.type === 'job:state' ? `job:${e.state}` : e.type)), [
+    'job:queued', 'job:running', 'run:start', 'step:start', 'job:succeeded',
+  ]);
+  assert.equal(ended, true);
+  assert.deepEqual(getJob(job.jobId)?.runIds, ['r1']);
+});
@@ -0,0 +1,192 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type Anthropic from '@anthropic-ai/sdk';
+import { runToolLoop, type ToolLoopOptions } from '../../src/loop.js';
+import { postSummaryToClaudeAndServeToolCalls, buildArtifactIndex } from '../../src/agent.js';
+import { fakeModel, text, toolUse, type FakeModel } from './fake-model.js';
+
+type ToolResult = Anthropic.Messages.ToolResultBlockParam;
+
+function loop(client: FakeModel, overrides: Partial<ToolLoopOptions> = {}) {
+  return runToolLoop({
+    client,
+    model: 'fake',
+    system: 'system',
+    tools: [],
+    messages: [{ role: 'user', content: 'summary' }],
+    execute: async (name) => [{ type: 'text', text: `ran ${name}` }],
+    ...overrides,
+  });
+}
+
+function toolResults(client: FakeModel, request: number): ToolResult[] {
+  const messages = client.requests[request].messages;
+  return messages[messages.length - 1].content as ToolResult[];
+}
+
+test('runs every tool_use block of a turn and sends the results in one user message', async () => {
+  const client = fakeModel([
+    { content: [text('Looking.'), toolUse('t1', 'get_artifact'), toolUse('t2', 'get_report')] },
+    { content: [text('The login button is hidden.')] },
+  ]);
+  const calls: string[] = [];
+  const result = await loop(client, {
+    execute: async (name) => {
+      calls.push(name);
+      return [{ type: 'text', text: `ran ${name}` }];
+    },
+  });
+
+  assert.deepEqual(calls, ['get_artifact', 'get_report']);
+  assert.equal(result.stopReason, 'end_turn');
+  assert.equal(result.iterations, 2);
+  assert.equal(result.text, 'The login button is hidden.');
+  assert.deepEqual(result.usage, { inputTokens: 20, outputTokens: 10 });
+
+  const results = toolResults(client, 1);
+  assert.deepEqual(results.map((r) => r.tool_use_id), ['t1', 't2']);
+  assert.deepEqual(results[0].content, [{ type: 'text', text: 'ran get_artifact' }]);
+  // Second request carries the whole history: summary, assistant turn, tool results
+  assert.equal(client.requests[1].messages.length, 3);
+});
+
+test('returns a throwing tool as an is_error result and keeps going', async () => {
+  const client = fakeModel([
+    { content: [toolUse('t1', 'get_artifact', { runId: 'missing' })] },
+    { content: [text('No such run.')] },
+  ]);
+  const result = await loop(client, {
+    execute: async () => {
+      throw new Error('Run not found: missing');
+    },
+  });
+
+  const [res] = toolResults(client, 1);
+  assert.equal(res.is_error, true);
+  assert.match(String(res.content), /Run not found: missing/);
+  assert.equal(result.stopReason, 'end_turn');
+  assert.equal(result.text, 'No such run.');
+});
+
+test('stops at maxIterations', async () => {
+  const client = fakeModel([
+    { content: [text('First look.'), toolUse('t1', 'list_runs')] },
+    { content: [text('Second look.'), toolUse('t2', 'list_runs')] },
+    { content: [toolUse('t3', 'list_runs')] },
+  ]);
+  const result = await loop(client, { maxIterations: 2 });
+
+  assert.equal(result.stopReason, 'max_iterations');
+  assert.equal(result.iterations, 2);
+  assert.equal(client.requests.length, 2);
+  // The last text the model wrote is kept
+  assert.equal(result.text, 'Second look.');
+});
+
+test('stops once maxTotalTokens is used up, without running the pending tools', async () => {
+  const client = fakeModel([
+    { content: [toolUse('t1', 'list_runs')], inputTokens: 60, outputTokens: 10 },
+    { content: [toolUse('t2', 'list_runs')], inputTokens: 80, outputTokens: 10 },
+    { content: [text('unreachable')] },
+  ]);
+  const calls: string[] = [];
+  const result = await loop(client, {
+    maxTotalTokens: 150,
+    execute: async (_name, input) => {
+      calls.push(JSON.stringify(input));
+      return 'ok';
+    },
+  });
+
+  assert.equal(result.stopReason, 'token_budget');
+  assert.equal(result.iterations, 2);
+  assert.deepEqual(result.usage, { inputTokens: 140, outputTokens: 20 });
+  assert.equal(calls.length, 1);
+  assert.equal(client.requests.length, 2);
+});
+
+test('writes the final answer to diagnosis.md in the run directory', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ta-loop-'));
+  try {
+    const client = fakeModel([
+      { content: [toolUse('t1', 'no_such_tool')] },
+      { content: [text('Root cause: the API returned 500.')] },
+    ]);
+    const diagnosis = await postSummaryToClaudeAndServeToolCalls({
+      status: 'FAIL',
+      runId: path.basename(dir),
+      artifactsDir: dir,
+      criticalErrors: ['TypeError: x is undefined'],
+      index: buildArtifactIndex(dir),
+    }, client);
+
+    assert.equal(diagnosis.file, path.join(dir, 'diagnosis.md'));
+    assert.equal(diagnosis.stopReason, 'end_turn');
+    assert.equal(diagnosis.iterations, 2);
+    assert.equal(
+      fs.readFileSync(path.join(dir, 'diagnosis.md'), 'utf8'),
+      `# Diagnosis for ${path.basename(dir)}\n\nRoot cause: the API returned 500.\n`,
+    );
+    // The summary is the first message and unknown tools come back as errors
+    assert.match(String(client.requests[0].messages[0].content), /Status: FAIL/);
+    assert.match(String(toolResults(client, 1)[0].content), /Unknown tool: no_such_tool/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('writes no diagnosis.md when the model gives no text', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ta-loop-'));
+  try {
+    const client = fakeModel([{ content: [] }]);
+    const diagnosis = await postSummaryToClaudeAndServeToolCalls({
+      status: 'PASS',
+      runId: path.basename(dir),
+      artifactsDir: dir,
+      criticalErrors: [],
+      index: buildArtifactIndex(dir),
+    }, client);
+
+    assert.equal(diagnosis.file, null);
+    assert.equal(fs.existsSync(path.join(dir, 'diagnosis.md')), false);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('run_test and run_suite from the model are held to the script roots and the inline-source gate', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ta-loop-'));
+  // With a token configured, inline source is off by default even on loopback
+  process.env.TESTING_AGENT_TOKEN = 'a-long-enough-token';
+  try {
+    const client = fakeModel([
+      {
+        content: [
+          toolUse('t1', 'run_test', { scriptPath: path.join(dir, 'evil.spec.ts') }),
+          toolUse('t2', 'run_test', { source: 'import fs from "node:fs"; fs.rmSync("/", { recursive: true });' }),
+          toolUse('t3', 'run_suite', { pattern: path.join(dir, '**') }),
+        ],
+      },
+      { content: [text('Could not rerun.')] },
+    ]);
+    await postSummaryToClaudeAndServeToolCalls({
+      status: 'FAIL',
+      runId: path.basename(dir),
+      artifactsDir: dir,
+      criticalErrors: [],
+      index: buildArtifactIndex(dir),
+    }, client);
+
+    const results = toolResults(client, 1);
+    assert.deepEqual(results.map((r) => r.is_error), [true, true, true]);
+    assert.match(String(results[0].content), /script .*evil\.spec\.ts is outside the allowed script roots/);
+    assert.match(String(results[1].content), /inline source is disabled/);
+    assert.match(String(results[2].content), /suite pattern .* is outside the allowed script roots/);
+  } finally {
+    delete process.env.TESTING_AGENT_TOKEN;
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { listArtifacts, MANIFEST_FILE } from '../../src/manifest.js';
+import { tempDir } from './fixtures.js';
+
+test('listArtifacts includes dom/ snapshots and diffs/ by relative path', () => {
+  const dir = tempDir();
+  try {
+    fs.mkdirSync(path.join(dir, 'dom'));
+    fs.mkdirSync(path.join(dir, 'diffs'));
+    for (const file of [MANIFEST_FILE, 'console.log', 'after_login.png', 'dom/after_login.html', 'dom/after_login.json', 'diffs/after_login.png']) {
+      fs.writeFileSync(path.join(dir, file), 'x');
+    }
+
+    const artifacts = listArtifacts(dir);
+
+    assert.deepEqual(artifacts.map((a) => [a.name, a.kind]), [
+      ['after_login.png', 'screenshot'],
+      ['console.log', 'console'],
+      ['diffs/after_login.png', 'screenshot'],
+      ['dom/after_login.html', 'dom'],
+      ['dom/after_login.json', 'dom'],
+    ]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,91 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { compareMetrics, writeMetrics, METRICS_FILE, METRICS_VERSION, type MetricsFile, type StepMetrics } from '../../src/metrics.js';
+import type { RunStatus } from '../../src/manifest.js';
+import { useTempRunsDir, writeRun } from './fixtures.js';
+
+function step(name: string, fields: { durationMs?: number; lcpMs?: number | null; cls?: number } = {}): StepMetrics {
+  return {
+    step: name,
+    url: 'https://app.test/',
+    durationMs: fields.durationMs ?? 1000,
+    navigation: null,
+    webVitals: { fcpMs: null, lcpMs: fields.lcpMs ?? null, cls: fields.cls ?? 0, inpMs: null },
+    longTasks: { count: 0, totalMs: 0 },
+    jsHeapUsedBytes: null,
+    cpu: null,
+  };
+}
+
+function metricsFile(runId: string, steps: StepMetrics[]): MetricsFile {
+  return { version: METRICS_VERSION, runId, scriptPath: '/scripts/login.spec.ts', steps, budgetPercent: 20, baselineRunIds: [], regressions: [] };
+}
+
+test('compareMetrics flags metrics over the budget against the baseline median', () => {
+  const baselines = [
+    metricsFile('b1', [step('login', { durationMs: 1000, lcpMs: 900 })]),
+    metricsFile('b2', [step('login', { durationMs: 1200, lcpMs: 1000 })]),
+    metricsFile('b3', [step('login', { durationMs: 5000, lcpMs: 1100 })]),
+  ];
+
+  const result = compareMetrics([step('login', { durationMs: 1500, lcpMs: 1150 })], baselines, 20);
+
+  assert.deepEqual(result.baselineRunIds, ['b1', 'b2', 'b3']);
+  // Median duration 1200: 1500 is 25% worse. LCP 1150 is within 20% of 1000.
+  assert.deepEqual(result.regressions, [{ step: 'login', metric: 'durationMs', value: 1500, baseline: 1200, changePercent: 25 }]);
+});
+
+test('compareMetrics ignores changes under the metric floor and steps without a baseline', () => {
+  const baselines = [metricsFile('b1', [step('login', { durationMs: 100, cls: 0.01 })])];
+
+  const result = compareMetrics([step('login', { durationMs: 140, cls: 0.04 }), step('checkout', { durationMs: 9000 })], baselines, 20);
+
+  assert.deepEqual(result.regressions, []);
+});
+
+test('compareMetrics matches a repeated step with the same repetition', () => {
+  const baselines = [metricsFile('b1', [step('add item', { durationMs: 1000 }), step('add item', { durationMs: 3000 })])];
+
+  const result = compareMetrics([step('add item', { durationMs: 1100 }), step('add item', { durationMs: 3100 })], baselines, 20);
+
+  assert.deepEqual(result.regressions, []);
+});
+
+let root: string;
+
+before(async () => {
+  root = await useTempRunsDir();
+});
+
+after(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+test('writeMetrics compares against the newest passing runs of the same script only', () => {
+  const runs: [string, RunStatus, string][] = [
+    ['r1', 'PASS', '/scripts/login.spec.ts'],
+    ['r2', 'PASS', '/scripts/login.spec.ts'],
+    ['r3', 'FAIL', '/scripts/login.spec.ts'],
+    ['r4', 'PASS', '/scripts/other.spec.ts'],
+    ['r5', 'FLAKY', '/scripts/login.spec.ts'],
+    ['r6', 'PASS', '/scripts/login.spec.ts'],
+    ['r7', 'PASS', '/scripts/login.spec.ts'],
+    ['r8', 'PASS', '/scripts/login.spec.ts'],
+    ['r9', 'PASS', '/scripts/login.spec.ts'],
+  ];
+  runs.forEach(([runId, status, scriptPath], i) => {
+    const dir = writeRun(root, runId, { status, scriptPath }, {
+      [METRICS_FILE]: JSON.stringify(metricsFile(runId, [step('login')])),
+    });
+    const time = new Date(Date.UTC(2026, 0, 1 + i));
+    fs.utimesSync(dir, time, time);
+  });
+  const current = writeRun(root, 'r-current', { scriptPath: '/scripts/login.spec.ts' });
+
+  const metrics = writeMetrics(current, 'r-current', '/scripts/login.spec.ts', [step('login')], 20);
+
+  assert.deepEqual(metrics.baselineRunIds, ['r9', 'r8', 'r7', 'r6', 'r5']);
+  assert.deepEqual(JSON.parse(fs.readFileSync(path.join(current, METRICS_FILE), 'utf8')).baselineRunIds, metrics.baselineRunIds);
+});
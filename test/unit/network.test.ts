@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ArtifactError, getArtifact } from '../../src/artifacts.js';
+import { filterNetworkLines } from '../../src/network.js';
+import { useTempRunsDir, writeRun } from './fixtures.js';
+
+const lines = [
+  { method: 'GET', url: 'https://shop.test/api/Cart?id=1', status: 200, resourceType: 'fetch' },
+  { method: 'POST', url: 'https://shop.test/api/checkout', status: 502, resourceType: 'xhr' },
+  { method: 'GET', url: 'https://cdn.test/logo.png', resourceType: 'image', failure: 'net::ERR_FAILED' },
+].map((entry) => JSON.stringify(entry));
+
+const urls = (kept: string[]) => kept.map((line) => JSON.parse(line).url);
+
+test('url matches a case-insensitive substring, not a pattern', () => {
+  assert.deepEqual(urls(filterNetworkLines(lines, { url: '/API/cart' })), ['https://shop.test/api/Cart?id=1']);
+  assert.deepEqual(urls(filterNetworkLines(lines, { url: 'cart?id=' })), ['https://shop.test/api/Cart?id=1']);
+  assert.deepEqual(filterNetworkLines(lines, { url: '.*' }), []);
+  assert.deepEqual(filterNetworkLines(lines, { url: '(' }), []);
+});
+
+test('filters combine and skip lines that are not entries', () => {
+  const noisy = [...lines, '', 'not json', 'null', '42'];
+  assert.deepEqual(urls(filterNetworkLines(noisy, { statusMin: 500 })), ['https://shop.test/api/checkout']);
+  assert.deepEqual(urls(filterNetworkLines(noisy, { method: 'get', url: 'shop' })), ['https://shop.test/api/Cart?id=1']);
+  assert.deepEqual(urls(filterNetworkLines(noisy, { failed: true })), ['https://cdn.test/logo.png']);
+  assert.equal(filterNetworkLines(noisy, { resourceType: 'xhr', statusMax: 299 }).length, 0);
+});
+
+test('an invalid network filter is a bad argument, not a server error', async () => {
+  const root = await useTempRunsDir();
+  writeRun(root, 'r-net', {}, { 'network.log': lines.join('\n') });
+  const invalid = (e: unknown) => e instanceof ArtifactError && e.code === 'invalid_argument';
+
+  assert.throws(() => getArtifact({ runId: 'r-net', kind: 'network', statusMin: Number('abc') }), invalid);
+  assert.throws(() => getArtifact({ runId: 'r-net', kind: 'network', statusMax: 2.5 }), invalid);
+  const out = getArtifact({ runId: 'r-net', kind: 'network', url: '[' });
+  assert.deepEqual(out.kind === 'network' && out.lines, []);
+});
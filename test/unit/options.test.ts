@@ -0,0 +1,80 @@
+import { test, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { chromium, firefox, webkit, type Browser } from 'playwright';
+import { resolveRunOptions, setDefaultRunOptions, contextOptions, launchBrowser, parseViewport } from '../../src/options.js';
+
+const env = { CI: process.env.CI, DISPLAY: process.env.DISPLAY, WAYLAND_DISPLAY: process.env.WAYLAND_DISPLAY };
+
+afterEach(() => {
+  for (const [key, value] of Object.entries(env)) {
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  }
+  setDefaultRunOptions({});
+  mock.restoreAll();
+});
+
+test('runs are headless in CI unless headless: false is asked for', () => {
+  process.env.CI = '1';
+  assert.equal(resolveRunOptions().headless, true);
+  assert.equal(resolveRunOptions({ headless: false }).headless, false);
+});
+
+test('on Linux without a display runs are headless; with one they are headed', { skip: process.platform !== 'linux' }, () => {
+  delete process.env.CI;
+  delete process.env.DISPLAY;
+  delete process.env.WAYLAND_DISPLAY;
+  assert.equal(resolveRunOptions().headless, true);
+  process.env.DISPLAY = ':0';
+  assert.equal(resolveRunOptions().headless, false);
+  assert.equal(resolveRunOptions({ headless: true }).headless, true);
+});
+
+test('the browser defaults to chromium, or to the engine of the device profile', () => {
+  assert.equal(resolveRunOptions().browser, 'chromium');
+  assert.equal(resolveRunOptions({ device: 'iPhone 13' }).browser, 'webkit');
+  assert.equal(resolveRunOptions({ device: 'iPhone 13', browser: 'chromium' }).browser, 'chromium');
+  assert.throws(() => resolveRunOptions({ device: 'Nokia 3310' }), /Unknown device profile: Nokia 3310/);
+});
+
+test('options given to a run override the configured defaults', () => {
+  setDefaultRunOptions({ browser: 'firefox', viewport: { width: 1024, height: 768 }, locale: 'de-DE' });
+  const resolved = resolveRunOptions({ viewport: { width: 1280, height: 720 } });
+  assert.deepEqual([resolved.browser, resolved.viewport, resolved.locale], ['firefox', { width: 1280, height: 720 }, 'de-DE']);
+  assert.throws(() => resolveRunOptions({ viewport: { width: 0, height: 720 } }));
+  assert.throws(() => resolveRunOptions({ browser: 'edge' } as never));
+});
+
+test('an explicit viewport overrides the device profile\'s', () => {
+  const device = contextOptions(resolveRunOptions({ device: 'iPhone 13' }));
+  assert.deepEqual([device.viewport, device.isMobile], [{ width: 390, height: 664 }, true]);
+
+  const sized = contextOptions(resolveRunOptions({ device: 'iPhone 13', viewport: { width: 800, height: 600 }, colorScheme: 'dark' }));
+  assert.deepEqual([sized.viewport, sized.isMobile, sized.colorScheme], [{ width: 800, height: 600 }, true, 'dark']);
+  assert.deepEqual(contextOptions(resolveRunOptions({ viewport: { width: 320, height: 480 } })), { viewport: { width: 320, height: 480 } });
+});
+
+test('firefox gets the device profile without isMobile', () => {
+  const options = contextOptions(resolveRunOptions({ device: 'iPhone 13', browser: 'firefox' }));
+  assert.equal('isMobile' in options, false);
+  assert.deepEqual(options.viewport, { width: 390, height: 664 });
+});
+
+test('the chosen engine is launched with the resolved headless mode', async () => {
+  const launched: string[] = [];
+  for (const [name, engine] of Object.entries({ chromium, firefox, webkit })) {
+    mock.method(engine, 'launch', async (opts: { headless: boolean }) => {
+      launched.push(`${name} headless=${opts.headless}`);
+      return {} as Browser;
+    });
+  }
+  await launchBrowser(resolveRunOptions({ browser: 'firefox', headless: true }));
+  await launchBrowser(resolveRunOptions({ device: 'iPhone 13', headless: false }));
+  await launchBrowser(resolveRunOptions({ headless: true }));
+  assert.deepEqual(launched, ['firefox headless=true', 'webkit headless=false', 'chromium headless=true']);
+});
+
+test('parseViewport reads WIDTHxHEIGHT', () => {
+  assert.deepEqual(parseViewport(' 1280x720 '), { width: 1280, height: 720 });
+  assert.throws(() => parseViewport('1280*720'), /expected WIDTHxHEIGHT/);
+});
@@ -0,0 +1,112 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { renderReport, REPORT_SCHEMA_VERSION, type RunReport, type SuiteReport } from '../../src/report.js';
+
+function runReport(fields: Partial<RunReport> = {}): RunReport {
+  return {
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    type: 'run',
+    runId: 'run-1',
+    status: 'PASS',
+    scriptPath: path.resolve('tests/login.spec.ts'),
+    startedAt: '2026-01-02T03:04:05.678Z',
+    durationMs: 2500,
+    failure: null,
+    attempts: [],
+    steps: [],
+    assertions: [],
+    consoleErrors: [],
+    networkFailures: [],
+    visual: [],
+    screenshots: [],
+    ...fields,
+  };
+}
+
+const step = (name: string, status: 'passed' | 'failed', error: string | null = null) =>
+  ({ name, status, startedAt: '2026-01-02T03:04:05.678Z', durationMs: 1250, error, screenshots: [] });
+
+const junit = (report: RunReport | SuiteReport) => renderReport(report, 'junit', { embedScreenshots: false });
+
+test('a passing run is one testsuite with a testcase per step', () => {
+  const out = junit(runReport({ steps: [step('open', 'passed'), step('login', 'passed')] }));
+
+  assert.equal(out, [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<testsuites name="run-1" tests="2" failures="0" errors="0" time="2.500">',
+    '  <testsuite name="tests/login.spec.ts" tests="2" failures="0" errors="0" skipped="0" time="2.500" timestamp="2026-01-02T03:04:05">',
+    '    <properties>',
+    '      <property name="runId" value="run-1"/>',
+    '      <property name="status" value="PASS"/>',
+    '    </properties>',
+    '    <testcase classname="tests/login.spec.ts" name="open" time="1.250"/>',
+    '    <testcase classname="tests/login.spec.ts" name="login" time="1.250"/>',
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n'));
+});
+
+test('a failed step carries the failure category, message and stack', () => {
+  const out = junit(runReport({
+    status: 'FAIL',
+    steps: [step('login', 'failed', 'TimeoutError: locator.click: Timeout 5000ms exceeded.')],
+    failure: { category: 'timeout', message: 'locator.click: Timeout 5000ms exceeded.', step: 'login', stack: 'at run (login.spec.ts:4:3)' },
+    consoleErrors: ['Uncaught TypeError: <x> is & undefined'],
+  }));
+
+  assert.match(out, /<testcase classname="tests\/login.spec.ts" name="login" time="1.250">\n {6}<failure type="timeout" message="TimeoutError: locator.click: Timeout 5000ms exceeded.">TimeoutError: locator.click: Timeout 5000ms exceeded.\nat run \(login.spec.ts:4:3\)<\/failure>/);
+  assert.match(out, /tests="1" failures="1"/);
+  // Console errors are escaped into system-err
+  assert.match(out, /<system-err>Uncaught TypeError: &lt;x&gt; is &amp; undefined<\/system-err>/);
+});
+
+test('a failure outside any step gets a testcase named after the script', () => {
+  const out = junit(runReport({
+    status: 'FAIL',
+    steps: [step('open', 'passed')],
+    failure: { category: 'navigation', message: 'page.goto: net::ERR_NAME_NOT_RESOLVED' },
+  }));
+
+  assert.match(out, /<testcase classname="tests\/login.spec.ts" name="tests\/login.spec.ts" time="2.500">\n {6}<failure type="navigation" message="navigation: page.goto: net::ERR_NAME_NOT_RESOLVED">/);
+  assert.match(out, /<testsuites name="run-1" tests="2" failures="1"/);
+});
+
+test('failed soft assertions fail their step as assertion failures', () => {
+  const out = junit(runReport({
+    status: 'FAIL',
+    steps: [step('checkout', 'passed')],
+    assertions: [{
+      type: 'assertion', assertion: 'text', target: 'h1', expected: 'Thanks', actual: 'Error', passed: false, soft: true,
+      step: 'checkout', message: 'expected h1 to have text "Thanks", got "Error"', time: 0, durationMs: 3,
+    }],
+  }));
+
+  assert.match(out, /<failure type="assertion" message="expected h1 to have text &quot;Thanks&quot;, got &quot;Error&quot;">/);
+});
+
+test('a suite has one testsuite per script, including scripts that never ran', () => {
+  const out = junit({
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    type: 'suite',
+    suiteId: 'suite-1',
+    pattern: 'tests/**',
+    status: 'FAIL',
+    startedAt: '2026-01-02T03:04:05.678Z',
+    durationMs: 4000,
+    total: 2,
+    passed: 1,
+    failed: 1,
+    flaky: 0,
+    runs: [
+      { scriptPath: path.resolve('tests/login.spec.ts'), status: 'PASS', error: null, run: runReport({ steps: [step('open', 'passed')] }) },
+      { scriptPath: path.resolve('tests/broken.spec.ts'), status: 'FAIL', error: 'SyntaxError: Unexpected token', run: null },
+    ],
+  });
+
+  assert.match(out, /<testsuites name="suite-1" tests="2" failures="1" errors="0" time="4.000">/);
+  assert.match(out, /<testsuite name="tests\/broken.spec.ts" tests="1" failures="1"/);
+  assert.match(out, /<failure type="error" message="SyntaxError: Unexpected token">/);
+  assert.match(out, /<property name="status" value="FAIL"\/>/);
+});
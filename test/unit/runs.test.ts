@@ -0,0 +1,97 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { listRuns, pruneRuns } from '../../src/runs.js';
+import { ArtifactError } from '../../src/artifacts.js';
+import { applyRetention } from '../../src/agent.js';
+import { useTempRunsDir, writeRun } from './fixtures.js';
+
+let root: string;
+
+before(async () => {
+  root = await useTempRunsDir();
+});
+
+after(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+const day = (n: number) => new Date(Date.UTC(2026, 0, n)).toISOString();
+
+test('listRuns filters by date and rejects an invalid one', () => {
+  writeRun(root, 'r-list-1', { startedAt: day(1) });
+  writeRun(root, 'r-list-2', { startedAt: day(5) });
+
+  assert.deepEqual(listRuns({ from: day(3), to: day(6) }).runs.map((r) => r.runId), ['r-list-2']);
+  assert.throws(
+    () => listRuns({ from: 'not-a-date' }),
+    (e) => e instanceof ArtifactError && e.code === 'invalid_argument' && /from is not a valid date/.test(e.message),
+  );
+});
+
+test('listRuns filters by status and script and pages newest first', () => {
+  for (const id of fs.readdirSync(root)) fs.rmSync(path.join(root, id), { recursive: true });
+  writeRun(root, 'r-login-1', { startedAt: day(1), scriptPath: '/scripts/Login.spec.ts' });
+  writeRun(root, 'r-login-2', { startedAt: day(2), scriptPath: '/scripts/Login.spec.ts', status: 'FAIL' });
+  writeRun(root, 'r-cart-1', { startedAt: day(3), scriptPath: '/scripts/cart.spec.ts', status: 'FLAKY' });
+  writeRun(root, 'r-login-3', { startedAt: day(4), scriptPath: '/scripts/Login.spec.ts' });
+  const ids = (page: ReturnType<typeof listRuns>) => page.runs.map((r) => r.runId);
+
+  assert.deepEqual(ids(listRuns()), ['r-login-3', 'r-cart-1', 'r-login-2', 'r-login-1']);
+  assert.deepEqual(ids(listRuns({ status: 'FAIL' })), ['r-login-2']);
+  assert.deepEqual(ids(listRuns({ script: 'login' })), ['r-login-3', 'r-login-2', 'r-login-1']);
+  assert.deepEqual(ids(listRuns({ script: 'login', status: 'PASS' })), ['r-login-3', 'r-login-1']);
+  assert.deepEqual(ids(listRuns({ script: 'checkout' })), []);
+
+  const page = listRuns({ script: 'login', offset: 1, limit: 1 });
+  assert.deepEqual([page.total, page.offset, page.limit, ids(page)], [3, 1, 1, ['r-login-2']]);
+  assert.deepEqual(ids(listRuns({ offset: 10 })), []);
+  // Out-of-range paging is clamped rather than rejected
+  const clamped = listRuns({ offset: -5, limit: 0 });
+  assert.deepEqual([clamped.offset, clamped.limit, ids(clamped)], [0, 1, ['r-login-3']]);
+});
+
+test('pruneRuns keeps runs listed in a suite.json or in use', () => {
+  for (const id of fs.readdirSync(root)) fs.rmSync(path.join(root, id), { recursive: true });
+  writeRun(root, 'r-old', { startedAt: day(1) });
+  writeRun(root, 'r-suite-child', { startedAt: day(2) });
+  writeRun(root, 'r-live', { startedAt: day(3) });
+  writeRun(root, 'r-new', { startedAt: day(4) });
+  fs.mkdirSync(path.join(root, 'suite-1'));
+  fs.writeFileSync(path.join(root, 'suite-1', 'suite.json'), JSON.stringify({ runs: [{ runId: 'r-suite-child' }, { runId: null }] }));
+
+  const deleted = pruneRuns({ keepLast: 1 }, ['r-live']);
+
+  assert.deepEqual(deleted, ['r-old']);
+  assert.deepEqual(fs.readdirSync(root).sort(), ['r-live', 'r-new', 'r-suite-child', 'suite-1']);
+});
+
+test('pruneRuns keeps failures unless told otherwise', () => {
+  for (const id of fs.readdirSync(root)) fs.rmSync(path.join(root, id), { recursive: true });
+  writeRun(root, 'r-fail', { startedAt: day(1), status: 'FAIL' });
+  writeRun(root, 'r-pass', { startedAt: day(2) });
+
+  assert.deepEqual(pruneRuns({ maxAgeDays: 1 }), ['r-pass']);
+  assert.deepEqual(pruneRuns({ maxAgeDays: 1, keepFailures: false }), ['r-fail']);
+});
+
+test('retention reports pruned runs on stderr, leaving stdout to the MCP stream', () => {
+  for (const id of fs.readdirSync(root)) fs.rmSync(path.join(root, id), { recursive: true });
+  writeRun(root, 'r-older', { startedAt: day(1) });
+  writeRun(root, 'r-newer', { startedAt: day(2) });
+  const stdout = mock.method(console, 'log', () => { /* silenced */ });
+  const stderr = mock.method(console, 'error', () => { /* silenced */ });
+  process.env.RUNS_KEEP_LAST = '1';
+  try {
+    applyRetention();
+  } finally {
+    delete process.env.RUNS_KEEP_LAST;
+    stdout.mock.restore();
+    stderr.mock.restore();
+  }
+
+  assert.deepEqual(fs.readdirSync(root), ['r-newer']);
+  assert.equal(stdout.mock.callCount(), 0);
+  assert.deepEqual(stderr.mock.calls.map((c) => c.arguments), [['[agent] retention removed 1 old run(s)']]);
+});
@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { scriptRefOf, scriptPathOf, isInlineScriptPath, loadScript, mapScriptStack, ScriptLoadError } from '../../src/script.js';
+import { tempDir } from './fixtures.js';
+
+const loadFailure = (category: string, message: RegExp) => (e: unknown) =>
+  e instanceof ScriptLoadError && e.category === category && message.test(e.message);
+
+test('a run takes exactly one of scriptPath or source', () => {
+  assert.equal(scriptRefOf({ scriptPath: 'login.spec.ts' }), 'login.spec.ts');
+  assert.deepEqual(scriptRefOf({ source: 'export default async () => {}' }), { source: 'export default async () => {}' });
+  for (const args of [{}, { scriptPath: '', source: '' }, { scriptPath: 'a.ts', source: 'x' }, { source: 42 }]) {
+    assert.throws(() => scriptRefOf(args), /exactly one of scriptPath or source/);
+  }
+});
+
+test('inline source is recorded as script.ts in the run directory', () => {
+  const dir = tempDir();
+  assert.equal(scriptPathOf({ source: 'x' }, dir), path.join(dir, 'script.ts'));
+  assert.equal(scriptPathOf('flows/login.spec.ts', dir), path.resolve('flows/login.spec.ts'));
+  assert.equal(isInlineScriptPath(path.join(dir, 'script.ts'), dir), true);
+  assert.equal(isInlineScriptPath(path.join(dir, 'other.ts'), dir), false);
+});
+
+test('inline TypeScript is stored, transpiled and loaded', async () => {
+  const dir = tempDir();
+  const source = 'type Page = { title: string };\nexport default async (page: Page): Promise<string> => page.title;\n';
+
+  const run = await loadScript({ source }, dir);
+
+  assert.equal(await run({ title: 'Checkout' }), 'Checkout');
+  assert.equal(fs.readFileSync(path.join(dir, 'script.ts'), 'utf8'), source);
+  assert.deepEqual(fs.readdirSync(dir).sort(), ['script.mjs', 'script.mjs.map', 'script.ts']);
+});
+
+test('a syntax error is a compile failure pointing into script.ts; type errors are not', async () => {
+  await assert.rejects(loadScript({ source: 'export default async () => {\n  const x = ;\n};' }, tempDir()),
+    loadFailure('compile', /^script\.ts:2:13 /));
+  const run = await loadScript({ source: 'export default async () => { const n: number = "not a number"; return n; };' }, tempDir());
+  assert.equal(await run(), 'not a number');
+});
+
+test('source without a default export, or that fails to import, is a script-load failure', async () => {
+  await assert.rejects(loadScript({ source: 'export const x = 1;' }, tempDir()), loadFailure('script-load', /must export default/));
+  await assert.rejects(loadScript({ source: 'throw new Error("boom at import");\nexport default async () => {};' }, tempDir()),
+    loadFailure('script-load', /boom at import/));
+});
+
+test('stack frames in the compiled script map back to script.ts', async () => {
+  const dir = tempDir();
+  const source = [
+    'type Cart = { items: number };',
+    '',
+    'export default async (cart: Cart) => {',
+    '  if (cart.items === 0) throw new Error("empty cart");',
+    '};',
+  ].join('\n');
+  const run = await loadScript({ source }, dir);
+  const err = await Promise.resolve(run({ items: 0 })).then(() => assert.fail('expected the script to throw'), (e: Error) => e);
+
+  const mapped = mapScriptStack(err.stack ?? '', dir);
+  assert.match(mapped, new RegExp(`${path.join(dir, 'script.ts').replace(/[.\\]/g, '\\$&')}:4:\\d+`));
+  assert.doesNotMatch(mapped, /script\.mjs/);
+  assert.equal(mapScriptStack(err.stack ?? '', tempDir()), err.stack);
+});
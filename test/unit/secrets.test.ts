@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Page } from 'playwright';
+import { createMasker, maskJson } from '../../src/secrets.js';
+import { createExpect, type AssertionResult } from '../../src/expect.js';
+import { MASK } from '../../src/instrument.js';
+
+test('createMasker hides raw, JSON-escaped and URL-encoded values', () => {
+  const mask = createMasker({ PASSWORD: 'p@ss "word"/1' });
+
+  assert.equal(mask('typed p@ss "word"/1'), `typed ${MASK}`);
+  assert.equal(mask(JSON.stringify({ password: 'p@ss "word"/1' })), `{"password":"${MASK}"}`);
+  assert.equal(mask(`/login?pw=${encodeURIComponent('p@ss "word"/1')}`), `/login?pw=${MASK}`);
+});
+
+test('createMasker masks the longer of two overlapping secrets whole', () => {
+  const mask = createMasker({ SHORT: 'token', LONG: 'token-extended' });
+  assert.equal(mask('a token-extended b token'), `a ${MASK} b ${MASK}`);
+});
+
+test('createMasker leaves text alone for short or absent secrets', () => {
+  assert.equal(createMasker({ PIN: '123' })('pin 123'), 'pin 123');
+  assert.equal(createMasker({})('nothing to hide'), 'nothing to hide');
+});
+
+test('recorded assertions mask secrets in expected, actual and message', async () => {
+  // A page whose h1 text is the secret itself
+  const page = {
+    on() { /* responses are not exercised here */ },
+    locator: () => ({ count: async () => 1, first: () => ({ textContent: async () => 'Welcome hunter22' }) }),
+  } as unknown as Page;
+  const recorded: AssertionResult[] = [];
+  const expect = createExpect(page, {
+    criticalErrors: [],
+    currentStep: () => undefined,
+    record: (r) => recorded.push(r),
+    mask: createMasker({ PASSWORD: 'hunter22' }),
+  });
+
+  await expect.soft.text('h1', 'hunter22', { timeoutMs: 0 });
+
+  assert.equal(recorded.length, 1);
+  assert.equal(recorded[0].expected, MASK);
+  assert.equal(recorded[0].actual, `Welcome ${MASK}`);
+  assert.doesNotMatch(recorded[0].message ?? '', /hunter22/);
+  assert.doesNotMatch(JSON.stringify(recorded), /hunter22/);
+});
+
+test('maskJson masks strings but leaves numbers containing a numeric secret intact', () => {
+  const mask = createMasker({ PIN: '2026' });
+  const entry = { time: 1767225602026, status: 2026, url: '/verify?pin=2026', args: ['2026', { durationMs: 20260 }] };
+
+  const masked = maskJson(entry, mask);
+
+  assert.deepEqual(masked, { time: 1767225602026, status: 2026, url: `/verify?pin=${MASK}`, args: [MASK, { durationMs: 20260 }] });
+  assert.doesNotThrow(() => JSON.parse(JSON.stringify(masked)));
+});
+
+test('an assertion on a number that contains a numeric secret still records and passes', async () => {
+  const page = {
+    on() { /* responses are not exercised here */ },
+    locator: () => ({ count: async () => 20260 }),
+  } as unknown as Page;
+  const recorded: AssertionResult[] = [];
+  const expect = createExpect(page, {
+    criticalErrors: [],
+    currentStep: () => undefined,
+    record: (r) => recorded.push(r),
+    mask: createMasker({ PIN: '2026' }),
+  });
+
+  await expect.count('li', 20260, { timeoutMs: 0 });
+
+  assert.equal(recorded[0].passed, true);
+  assert.equal(recorded[0].actual, 20260);
+});
@@ -0,0 +1,95 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { EventEmitter } from 'node:events';
+import type { Request, Response } from 'express';
+import { loadConfig } from '../../src/config.js';
+import { ArtifactError } from '../../src/artifacts.js';
+import { assertPathAllowed, assertScriptAllowed, auditRequests, inlineSourceAllowed, type ApiToken } from '../../src/security.js';
+import { tempDir } from './fixtures.js';
+
+let dir: string;
+
+// Config in a temp directory with scripts/ as the only script root
+async function configure(fields: Record<string, unknown> = {}) {
+  const file = path.join(dir, 'testing-agent.config.json');
+  fs.writeFileSync(file, JSON.stringify({ scriptRoots: ['scripts'], runsDir: 'runs', ...fields }));
+  await loadConfig({ file });
+}
+
+const forbidden = (e: unknown) => e instanceof ArtifactError && e.code === 'forbidden';
+
+before(async () => {
+  dir = tempDir();
+  fs.mkdirSync(path.join(dir, 'scripts', 'nested'), { recursive: true });
+  fs.mkdirSync(path.join(dir, 'scripts-other'));
+  fs.writeFileSync(path.join(dir, 'secret.ts'), '');
+  fs.symlinkSync(path.join(dir, 'secret.ts'), path.join(dir, 'scripts', 'link.ts'));
+  await configure();
+});
+
+after(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test('assertPathAllowed accepts paths under a script root, existing or not', () => {
+  assertPathAllowed(path.join(dir, 'scripts', 'login.spec.ts'), 'script');
+  assertPathAllowed(path.join(dir, 'scripts', 'nested', '..', 'nested', 'a.spec.ts'), 'script');
+  assertPathAllowed(path.join(dir, 'scripts'), 'script');
+});
+
+test('assertPathAllowed rejects escapes, sibling prefixes and symlinks out of the root', () => {
+  for (const p of [
+    path.join(dir, 'secret.ts'),
+    path.join(dir, 'scripts', '..', 'secret.ts'),
+    path.join(dir, 'scripts-other', 'a.spec.ts'),
+    path.join(dir, 'scripts', 'link.ts'),
+  ]) {
+    assert.throws(() => assertPathAllowed(p, 'script'), (e) => forbidden(e) && /outside the allowed script roots/.test((e as Error).message), p);
+  }
+});
+
+test('inline source is allowed by default only on loopback without tokens', async () => {
+  const tokens: ApiToken[] = [{ name: 'ci', token: 'x'.repeat(16) }];
+  assert.equal(inlineSourceAllowed('127.0.0.1', []), true);
+  assert.equal(inlineSourceAllowed('127.0.0.1', tokens), false);
+  assert.equal(inlineSourceAllowed('0.0.0.0', tokens), false);
+
+  await configure({ allowInlineSource: true });
+  assert.equal(inlineSourceAllowed('0.0.0.0', tokens), true);
+  await configure({ allowInlineSource: false });
+  assert.equal(inlineSourceAllowed('127.0.0.1', []), false);
+  await configure();
+});
+
+test('assertScriptAllowed checks paths against the roots and inline source against the setting', () => {
+  assertScriptAllowed({ source: 'export default async () => {}' }, true);
+  assert.throws(() => assertScriptAllowed({ source: 'export default async () => {}' }, false), (e) => forbidden(e) && /allowInlineSource: true/.test((e as Error).message));
+  assert.throws(() => assertScriptAllowed(path.join(dir, 'secret.ts'), true), forbidden);
+});
+
+test('an audit log that cannot be written is reported, not thrown', async () => {
+  // A directory where the log file should be makes every append fail
+  const file = path.join(dir, 'audit-dir');
+  fs.mkdirSync(file);
+  const req = Object.assign(new EventEmitter(), { method: 'GET', path: '/runs', ip: '127.0.0.1' });
+  const res = Object.assign(new EventEmitter(), { statusCode: 200, locals: { user: 'ci' } });
+  const errors: string[] = [];
+  const logged = new Promise<void>((resolve) => {
+    mock.method(console, 'error', (message: string) => {
+      errors.push(message);
+      resolve();
+    });
+  });
+  mock.method(console, 'log', () => { /* request line */ });
+  try {
+    auditRequests(file)(req as unknown as Request, res as unknown as Response, () => { /* next */ });
+    res.emit('close');
+    await logged;
+  } finally {
+    mock.restoreAll();
+  }
+
+  assert.match(errors[0], /audit log .*audit-dir not written: EISDIR/);
+});
@@ -0,0 +1,118 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { chromium, type Browser } from 'playwright';
+import { ArtifactError } from '../../src/artifacts.js';
+import { assertNavigableUrl, openSession, navigate, listSessions, closeSession, closeAllSessions } from '../../src/sessions.js';
+import { useTempRunsDir } from './fixtures.js';
+
+// Just enough of a browser for openSession: no real engine is launched
+function fakeBrowser() {
+  const closed: string[] = [];
+  let url = 'about:blank';
+  const page = {
+    on() { /* events are not exercised here */ },
+    mainFrame() { return null; },
+    url: () => url,
+    async goto(to: string) { url = new URL(to).href; return null; },
+  };
+  const context = {
+    tracing: { async start() { /* no trace */ }, async stop() { /* no trace */ } },
+    async newPage() { return page; },
+    async close() { closed.push('context'); },
+  };
+  const browser = {
+    async newContext() { return context; },
+    async close() { closed.push('browser'); },
+  };
+  return { browser: browser as unknown as Browser, closed };
+}
+
+function notFound(e: unknown): boolean {
+  return e instanceof ArtifactError && e.code === 'not_found';
+}
+
+let fake: ReturnType<typeof fakeBrowser>;
+
+before(async () => {
+  await useTempRunsDir();
+  mock.method(chromium, 'launch', async () => {
+    fake = fakeBrowser();
+    return fake.browser;
+  });
+});
+
+after(async () => {
+  await closeAllSessions();
+  delete process.env.SESSION_IDLE_TIMEOUT_MS;
+  mock.restoreAll();
+});
+
+function rejects(url: string, baseURL?: string): void {
+  assert.throws(() => assertNavigableUrl(url, baseURL), (e: unknown) =>
+    e instanceof ArtifactError && e.code === 'invalid_argument');
+}
+
+test('session navigation accepts web pages and about:blank', () => {
+  assertNavigableUrl('https://example.com/login');
+  assertNavigableUrl('http://localhost:3000');
+  assertNavigableUrl('about:blank');
+  assertNavigableUrl('/dashboard', 'http://localhost:3000');
+});
+
+test('session navigation rejects local and browser-internal URLs', () => {
+  rejects('file:///etc/passwd');
+  rejects('FILE:///etc/passwd');
+  rejects('chrome://settings');
+  rejects('view-source:https://example.com');
+  rejects('javascript:alert(1)');
+  rejects('data:text/html,<h1>x</h1>');
+  rejects('about:config');
+  rejects('/etc/passwd');
+  rejects('file:///etc/passwd', 'http://localhost:3000');
+});
+
+test('a session stays listed until closed and records its run', async () => {
+  const opened = await openSession({ browser: 'chromium' });
+  assert.deepEqual(listSessions().map((s) => s.sessionId), [opened.sessionId]);
+  assert.ok(fs.existsSync(path.join(opened.artifactsDir, 'actions.json')));
+
+  const moved = await navigate(opened.sessionId, 'https://example.com/login');
+  assert.equal(moved.url, 'https://example.com/login');
+  assert.ok(Date.parse(moved.lastUsedAt) >= Date.parse(opened.lastUsedAt));
+
+  const closed = await closeSession(opened.sessionId);
+  assert.equal(closed.status, 'PASS');
+  assert.deepEqual(fake.closed, ['context', 'browser']);
+  assert.deepEqual(listSessions(), []);
+  const manifest = JSON.parse(fs.readFileSync(path.join(opened.artifactsDir, 'run.json'), 'utf8'));
+  assert.equal(manifest.scriptPath, '<session>');
+
+  await assert.rejects(navigate(opened.sessionId, 'https://example.com'), notFound);
+  await assert.rejects(closeSession(opened.sessionId), notFound);
+});
+
+test('an idle session is closed after SESSION_IDLE_TIMEOUT_MS', async () => {
+  process.env.SESSION_IDLE_TIMEOUT_MS = '300';
+  const opened = await openSession({ browser: 'chromium' });
+  assert.equal(opened.idleTimeoutMs, 300);
+
+  // Each command resets the idle timer
+  await sleep(200);
+  await navigate(opened.sessionId, 'https://example.com');
+  await sleep(200);
+  assert.equal(listSessions().length, 1);
+
+  await sleep(400);
+  assert.deepEqual(listSessions(), []);
+  assert.deepEqual(fake.closed, ['context', 'browser']);
+  assert.ok(fs.existsSync(path.join(opened.artifactsDir, 'run.json')));
+  await assert.rejects(navigate(opened.sessionId, 'https://example.com'), notFound);
+});
+
+test('commands on an unknown session are not found', async () => {
+  await assert.rejects(navigate('session-missing', 'https://example.com'), notFound);
+  await assert.rejects(closeSession('session-missing'), notFound);
+});
@@ -0,0 +1,62 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { ArtifactError } from '../../src/artifacts.js';
+import { discoverScripts, matchScripts, runSuite } from '../../src/suite.js';
+import { tempDir } from './fixtures.js';
+
+let dir: string;
+
+function touchFile(rel: string): void {
+  const file = path.join(dir, rel);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, '');
+}
+
+function rel(files: string[]): string[] {
+  return files.map((f) => path.relative(dir, f).replace(/\\/g, '/'));
+}
+
+before(() => {
+  dir = tempDir();
+  for (const f of [
+    'login.spec.ts',
+    'cart.test.js',
+    'helpers.ts',
+    'checkout/pay.spec.ts',
+    'checkout/deep/refund.spec.ts',
+    'node_modules/lib/skip.spec.ts',
+  ]) touchFile(f);
+});
+
+test('a directory yields every spec and test script under it', () => {
+  assert.deepEqual(rel(discoverScripts(dir)), [
+    'cart.test.js',
+    'checkout/deep/refund.spec.ts',
+    'checkout/pay.spec.ts',
+    'login.spec.ts',
+  ]);
+});
+
+test('* stays within one directory', () => {
+  assert.deepEqual(rel(discoverScripts(`${dir}/*.spec.ts`)), ['login.spec.ts']);
+  assert.deepEqual(rel(discoverScripts(`${dir}/checkout/*.spec.ts`)), ['checkout/pay.spec.ts']);
+});
+
+test('** matches zero or more directories', () => {
+  assert.deepEqual(rel(discoverScripts(`${dir}/**/*.spec.ts`)), [
+    'checkout/deep/refund.spec.ts',
+    'checkout/pay.spec.ts',
+    'login.spec.ts',
+  ]);
+  assert.deepEqual(rel(discoverScripts(`${dir}/checkout/**`)), ['checkout/deep/refund.spec.ts', 'checkout/pay.spec.ts']);
+});
+
+test('a pattern matching nothing is not found', async () => {
+  assert.deepEqual(discoverScripts(`${dir}/**/*.e2e.ts`), []);
+  assert.deepEqual(discoverScripts(path.join(dir, 'missing')), []);
+  const notFound = (e: unknown) => e instanceof ArtifactError && e.code === 'not_found';
+  assert.throws(() => matchScripts(`${dir}/**/*.e2e.ts`), notFound);
+  await assert.rejects(runSuite(`${dir}/**/*.e2e.ts`), notFound);
+});
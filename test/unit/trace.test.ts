@@ -0,0 +1,120 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import zlib from 'node:zlib';
+import { queryTrace, TRACE_FILE } from '../../src/trace.js';
+import { MASK } from '../../src/instrument.js';
+import { useTempRunsDir, writeRun } from './fixtures.js';
+
+// Minimal zip writer: deflated entries, no CRCs (the reader does not check them)
+function zip(files: Record<string, string>): Buffer {
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const data = zlib.deflateRawSync(Buffer.from(content));
+    const nameBuf = Buffer.from(name);
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(8, 8);
+    header.writeUInt32LE(data.length, 18);
+    header.writeUInt16LE(nameBuf.length, 26);
+    local.push(header, nameBuf, data);
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt16LE(nameBuf.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, nameBuf);
+    offset += header.length + nameBuf.length + data.length;
+  }
+  const centralBuf = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralBuf.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...local, centralBuf, end]);
+}
+
+const lines = (events: unknown[]) => events.map((e) => JSON.stringify(e)).join('\n');
+
+const traceEvents = [
+  { type: 'context-options', monotonicTime: 1000, wallTime: Date.UTC(2026, 0, 1) },
+  { type: 'before', callId: 'call@1', startTime: 1010, apiName: 'page.goto', params: { url: 'https://app.test/login?token=hunter22' } },
+  { type: 'after', callId: 'call@1', endTime: 1050 },
+  {
+    type: 'frame-snapshot',
+    snapshot: {
+      callId: 'call@2', snapshotName: 'after@call@2', pageId: 'page@1', frameId: 'frame@1', frameUrl: 'https://app.test/login', timestamp: 1100, isMainFrame: true,
+      html: ['HTML', {}, ['BODY', {},
+        ['INPUT', { type: 'password', __playwright_value_: 'typed-pass' }],
+        ['INPUT', { name: 'user', __playwright_value_: 'hunter22' }],
+        'Hello hunter22 & co',
+      ]],
+    },
+  },
+  { type: 'before', callId: 'call@2', startTime: 1060, class: 'Frame', method: 'fill', params: { selector: '#password' } },
+  { type: 'after', callId: 'call@2', endTime: 1100, error: { message: 'Timeout 30ms exceeded' } },
+  { type: 'console', time: 1200, messageType: 'error', text: 'token hunter22 rejected' },
+  // Lines of the wrong shape are skipped
+  42,
+  { type: 'screencast-frame', sha1: 7 },
+];
+const networkEvents = [
+  { type: 'resource-snapshot', snapshot: { _monotonicTime: 1300, request: { method: 'GET', url: 'https://app.test/api?key=hunter22' }, response: { status: 401 }, time: 12 } },
+];
+
+let root: string;
+
+before(async () => {
+  root = await useTempRunsDir();
+  process.env.TESTING_AGENT_SECRETS_FILE = path.join(root, 'no-secrets.json');
+  process.env.TA_SECRET_PASSWORD = 'hunter22';
+  const dir = writeRun(root, 'r-trace');
+  fs.writeFileSync(path.join(dir, TRACE_FILE), zip({
+    'trace.trace': `${lines(traceEvents)}\n{"type":"console","te`,
+    'trace.network': lines(networkEvents),
+  }));
+});
+
+after(() => {
+  delete process.env.TESTING_AGENT_SECRETS_FILE;
+  delete process.env.TA_SECRET_PASSWORD;
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+test('parses actions, navigations, console and network events in time order', () => {
+  const result = queryTrace({ runId: 'r-trace' });
+  assert.equal(result.kind, 'events');
+  if (result.kind !== 'events') return;
+
+  assert.equal(result.startedAt, '2026-01-01T00:00:00.000Z');
+  assert.deepEqual(result.events.map((e) => [e.t, e.kind, e.summary]), [
+    [10, 'action', `page.goto https://app.test/login?token=${MASK}`],
+    [60, 'action', 'frame.fill #password'],
+    [100, 'navigation', 'https://app.test/login'],
+    [200, 'console', `[error] token ${MASK} rejected`],
+    [300, 'network', `GET 401 https://app.test/api?key=${MASK}`],
+  ]);
+  const fill = result.events.find((e) => e.callId === 'call@2');
+  assert.equal(fill?.durationMs, 40);
+  assert.equal(fill?.error, 'Timeout 30ms exceeded');
+});
+
+test('grep matches masked summaries only', () => {
+  const result = queryTrace({ runId: 'r-trace', grep: 'hunter22' });
+  assert.equal(result.kind === 'events' && result.total, 0);
+});
+
+test('snapshots hide password values and mask secrets', () => {
+  const result = queryTrace({ runId: 'r-trace', extract: 'snapshot', callId: 'call@2' });
+  assert.equal(result.kind, 'snapshot');
+  if (result.kind !== 'snapshot') return;
+
+  assert.equal(result.snapshotName, 'after@call@2');
+  assert.equal(result.html, `<HTML><BODY><INPUT type="password" value="${MASK}"><INPUT name="user" value="${MASK}">Hello ${MASK} &amp; co</BODY></HTML>`);
+  assert.doesNotMatch(result.html, /typed-pass|hunter22/);
+});
@@ -0,0 +1,118 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { loadConfig } from '../../src/config.js';
+import { ArtifactError } from '../../src/artifacts.js';
+import { decodePng } from '../../src/png.js';
+import { approveBaseline, baselineDir, compareScreenshots, compareRunToBaseline } from '../../src/visual.js';
+import { tempDir, writeRun, screenshotWithRect } from './fixtures.js';
+
+let dir: string;
+let runs: string;
+const cwd = process.cwd();
+const script = () => path.join(dir, 'flows', 'home.spec.ts');
+
+before(async () => {
+  dir = tempDir();
+  fs.writeFileSync(path.join(dir, 'testing-agent.config.json'), JSON.stringify({ runsDir: 'runs', baselinesDir: 'approved' }));
+  await loadConfig({ file: path.join(dir, 'testing-agent.config.json') });
+  runs = path.join(dir, 'runs');
+});
+
+after(() => {
+  process.chdir(cwd);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test('baselines live in the configured baselinesDir, keyed relative to the config directory', () => {
+  assert.equal(baselineDir(script()), path.join(dir, 'approved', 'flows__home.spec.ts'));
+});
+
+test('a baseline approved from one working directory is found from another', () => {
+  const approved = writeRun(runs, 'r-approved', { scriptPath: script() });
+  fs.writeFileSync(path.join(approved, 'home.png'), screenshotWithRect(10, 10, { x: 0, y: 0, width: 0, height: 0 }));
+  const changed = writeRun(runs, 'r-changed', { scriptPath: script() });
+  fs.writeFileSync(path.join(changed, 'home.png'), screenshotWithRect(10, 10, { x: 0, y: 0, width: 5, height: 2 }));
+
+  process.chdir(path.join(dir, 'runs'));
+  approveBaseline('r-approved');
+  process.chdir(cwd);
+
+  const diff = compareScreenshots({ runId: 'r-changed', name: 'home' });
+  assert.equal(diff.against, 'baseline');
+  assert.equal(diff.mismatchedPixels, 10);
+  assert.deepEqual(compareRunToBaseline(changed, script()).map((d) => d.name), ['home']);
+});
+
+// Two runs of one script: a blank 10x10 screenshot and one with `changed` red
+function screenshotPair(id: string, changed: { x: number; y: number; width: number; height: number }): string {
+  const scriptPath = path.join(dir, 'flows', `${id}.spec.ts`);
+  const original = writeRun(runs, `${id}-a`, { scriptPath });
+  fs.writeFileSync(path.join(original, 'home.png'), screenshotWithRect(10, 10, { x: 0, y: 0, width: 0, height: 0 }));
+  const changedRun = writeRun(runs, `${id}-b`, { scriptPath });
+  fs.writeFileSync(path.join(changedRun, 'home.png'), screenshotWithRect(10, 10, changed));
+  return changedRun;
+}
+
+const notFound = (e: unknown) => e instanceof ArtifactError && e.code === 'not_found';
+
+test('a comparison passes while the mismatch stays within the threshold', () => {
+  screenshotPair('threshold', { x: 0, y: 0, width: 5, height: 2 });
+  const compare = (threshold?: number) => compareScreenshots({ runId: 'threshold-b', name: 'home', against: 'threshold-a', threshold });
+
+  const byDefault = compare();
+  assert.deepEqual([byDefault.mismatchPercent, byDefault.threshold, byDefault.passed], [10, 0.1, false]);
+  assert.equal(compare(10).passed, true);
+  assert.equal(compare(9.99).passed, false);
+});
+
+test('the diff image marks changed pixels and is written under diffs/', () => {
+  const changedRun = screenshotPair('diff', { x: 0, y: 0, width: 1, height: 1 });
+  const result = compareScreenshots({ runId: 'diff-b', name: 'home', against: 'diff-a' });
+  assert.equal(result.diff, 'diffs/home.png');
+
+  const diff = decodePng(fs.readFileSync(path.join(changedRun, result.diff)));
+  assert.deepEqual([diff.width, diff.height], [10, 10]);
+  assert.deepEqual(Array.from(diff.data.subarray(0, 4)), [255, 0, 0, 255]);
+  assert.notDeepEqual(Array.from(diff.data.subarray(4, 8)), [255, 0, 0, 255]);
+});
+
+test('a baseline check only writes a diff when something changed', () => {
+  const changedRun = screenshotPair('unchanged', { x: 0, y: 0, width: 0, height: 0 });
+  approveBaseline('unchanged-a');
+  const [result] = compareRunToBaseline(changedRun, path.join(dir, 'flows', 'unchanged.spec.ts'));
+  assert.deepEqual([result.mismatchedPixels, result.passed, result.diff], [0, true, null]);
+  assert.equal(fs.existsSync(path.join(changedRun, 'diffs')), false);
+  assert.deepEqual(compareRunToBaseline(changedRun, path.join(dir, 'flows', 'never-approved.spec.ts')), []);
+});
+
+test('masked pixels are left out of the comparison; unknown selectors mask nothing', () => {
+  screenshotPair('masked', { x: 0, y: 0, width: 5, height: 2 });
+  const compare = (masks: (string | { x: number; y: number; width: number; height: number })[]) =>
+    compareScreenshots({ runId: 'masked-b', name: 'home', against: 'masked-a', masks });
+
+  const covered = compare([{ x: 0, y: 0, width: 5, height: 2 }]);
+  assert.deepEqual([covered.mismatchedPixels, covered.comparedPixels, covered.passed], [0, 90, true]);
+  assert.equal(compare([{ x: 0, y: 0, width: 5, height: 1 }]).mismatchedPixels, 5);
+  assert.equal(compare(['#missing']).mismatchedPixels, 10);
+});
+
+test('a screenshot that changed size counts the area outside the overlap as changed', () => {
+  const scriptPath = path.join(dir, 'flows', 'resized.spec.ts');
+  fs.writeFileSync(path.join(writeRun(runs, 'resized-a', { scriptPath }), 'home.png'), screenshotWithRect(10, 10, { x: 0, y: 0, width: 0, height: 0 }));
+  fs.writeFileSync(path.join(writeRun(runs, 'resized-b', { scriptPath }), 'home.png'), screenshotWithRect(10, 12, { x: 0, y: 0, width: 0, height: 0 }));
+
+  const result = compareScreenshots({ runId: 'resized-b', name: 'home', against: 'resized-a' });
+  assert.deepEqual([result.mismatchedPixels, result.comparedPixels], [20, 120]);
+});
+
+test('missing screenshots and baselines are not found', () => {
+  screenshotPair('missing', { x: 0, y: 0, width: 0, height: 0 });
+  fs.writeFileSync(path.join(runs, 'missing-b', 'only-here.png'), screenshotWithRect(2, 2, { x: 0, y: 0, width: 0, height: 0 }));
+
+  assert.throws(() => compareScreenshots({ runId: 'missing-b', name: 'absent', against: 'missing-a' }), notFound);
+  assert.throws(() => compareScreenshots({ runId: 'missing-b', name: 'only-here', against: 'missing-a' }), notFound);
+  assert.throws(() => compareScreenshots({ runId: 'missing-b', name: 'home' }), notFound);
+  assert.throws(() => approveBaseline('missing-b', ['absent']), notFound);
+});
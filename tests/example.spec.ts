@@ -1,14 +1,12 @@
 // Example user test script exporting default async (page, context, helpers)
 import type { Page, BrowserContext } from 'playwright';
-
-type Helpers = {
-  screenshot: (name: string) => Promise<void>;
-  step: (name: string, fn: () => Promise<void>) => Promise<void>;
-};
+import type { Helpers } from '../src/tools.js';
 
 export default async function run(page: Page, _context: BrowserContext, helpers: Helpers) {
   await helpers.step('open_example', async () => {
     await page.goto('https://example.com');
     await page.waitForLoadState('load');
+    await helpers.expect.text('h1', 'Example Domain');
+    await helpers.expect.soft.noConsoleErrors();
   });
 }